@@ -0,0 +1,10 @@
+// Runtime configuration, read before the app starts. Deployments can replace
+// this file to point an existing build at another backend. Anything left out
+// falls back to the VITE_* build variables, then to the local defaults.
+window.__APP_CONFIG__ = {
+  // apiBaseUrl: "https://api.example.com/api/v1",
+  // socketUrl: "https://api.example.com",
+  // appToken: "123",
+  // fakeBackend: true,
+  // sharedSocket: true,
+};
@@ -0,0 +1,93 @@
+// scripts/benchmark-scroll.mjs
+// Scrolls a 50,000 message chat through the message list's windowing
+// (utils/rowLayout.ts) the way ChatRoom does, frame by frame, and fails
+// when its work per frame goes over WINDOWING_BUDGET. Runs in Node, so it
+// leaves out React and the browser; `fakeBackend.measureScrolling()` times
+// whole frames in the app (see src/api/fake/benchmark.ts).
+//
+//   node scripts/benchmark-scroll.mjs        (or `yarn benchmark`)
+//
+// BENCHMARK_MESSAGES and BENCHMARK_FRAMES change the chat's length and how
+// many frames it scrolls for.
+import { performance } from "node:perf_hooks";
+import { fileURLToPath } from "node:url";
+import { createServer } from "vite";
+
+const FRAMES = Number(process.env.BENCHMARK_FRAMES) || 600;
+// ChatRoom's guess for unmeasured rows, and useVirtualList's overscan
+const ESTIMATED_HEIGHT = 72;
+const OVERSCAN = 800;
+const VIEWPORT_HEIGHT = 700;
+const PIXELS_PER_FRAME = 40;
+
+// Loads the app's TypeScript modules as they are, without a build
+const vite = await createServer({
+  root: fileURLToPath(new URL("..", import.meta.url)),
+  configFile: false,
+  logLevel: "error",
+  appType: "custom",
+  server: { middlewareMode: true, hmr: false },
+});
+
+try {
+  const { RowLayout } = await vite.ssrLoadModule("/src/utils/rowLayout.ts");
+  const {
+    BENCHMARK_MESSAGES,
+    WINDOWING_BUDGET,
+    overBudget,
+    summarizeFrames,
+  } = await vite.ssrLoadModule("/src/api/fake/benchmark.ts");
+
+  const count = Number(process.env.BENCHMARK_MESSAGES) || BENCHMARK_MESSAGES;
+  const keys = Array.from({ length: count }, (_, index) => `m${index}`);
+  // Rows of one to several lines, the same on every run
+  const heightOf = (index) => 40 + ((index * 7919) % 5) * 24;
+
+  const layout = new RowLayout(ESTIMATED_HEIGHT);
+  layout.setKeys(keys);
+
+  // Open at the latest message, then scroll up
+  let top = layout.totalHeight - VIEWPORT_HEIGHT;
+  const times = [];
+  for (let frame = 0; frame < FRAMES; frame++) {
+    const start = performance.now();
+
+    top = top > 0 ? top - PIXELS_PER_FRAME : layout.totalHeight;
+    // The message at the top of the viewport stays put while rows are
+    // measured, as in ChatRoom's keepScrollPosition
+    const anchor = layout.indexAt(top);
+    const anchorOffset = layout.offsetOf(anchor) - top;
+
+    const range = layout.rangeOf(
+      top - OVERSCAN,
+      top + VIEWPORT_HEIGHT + OVERSCAN
+    );
+    let resized = false;
+    for (let index = range.start; index < range.end; index++) {
+      if (layout.measure(keys[index], heightOf(index))) resized = true;
+    }
+    if (resized) {
+      top = layout.offsetOf(anchor) - anchorOffset;
+      layout.rangeOf(top - OVERSCAN, top + VIEWPORT_HEIGHT + OVERSCAN);
+    }
+
+    times.push(performance.now() - start);
+  }
+
+  const stats = summarizeFrames(times);
+  console.log(
+    `${count.toLocaleString("en-US")} messages, ${FRAMES} frames, ` +
+      `budget p95 ${WINDOWING_BUDGET.p95Ms}ms, worst ${WINDOWING_BUDGET.maxMs}ms`
+  );
+  console.table(stats);
+
+  const failures = overBudget(stats, WINDOWING_BUDGET);
+  if (failures.length) {
+    console.error(`Over budget: ${failures.join(", ")}`);
+    process.exitCode = 1;
+  } else {
+    console.log("Within budget");
+  }
+} finally {
+  await vite.close();
+}
@@ -0,0 +1,353 @@
+// scripts/stub-server.mjs
+// Minimal stand-in for the backend's auth and chunked upload endpoints, for
+// trying out sign-in flows and uploads without the real server. Everything
+// lives in memory.
+//
+//   node scripts/stub-server.mjs        (STUB_PORT defaults to 4001)
+//
+// To exercise retries and pause/resume, STUB_UPLOAD_FAILURE_RATE (0..1) fails
+// that share of chunk uploads with a 503 and STUB_UPLOAD_DELAY (ms) slows
+// every chunk down.
+import http from "node:http";
+import { randomBytes, randomInt } from "node:crypto";
+
+const PORT = Number(process.env.STUB_PORT) || 4001;
+const API_PREFIX = "/api/v1";
+const E164_PATTERN = /^\+[1-9]\d{1,14}$/;
+const RESEND_SECONDS = 30;
+const CODE_TTL_SECONDS = 300;
+const UPLOAD_CHUNK_SIZE = 1024 * 1024;
+const UPLOAD_FAILURE_RATE = Number(process.env.STUB_UPLOAD_FAILURE_RATE) || 0;
+const UPLOAD_DELAY = Number(process.env.STUB_UPLOAD_DELAY) || 0;
+
+const users = new Map(); // id -> user
+const passwords = new Map(); // email -> password
+const accessTokens = new Map(); // token -> user id
+const refreshTokens = new Map(); // token -> user id
+const phoneCodes = new Map(); // phone -> { code, expiresAt, sentAt }
+const uploads = new Map(); // upload id -> { userId, chunks, ...file info }
+const files = new Map(); // file id -> { data, mimeType, filename }
+
+const now = () => new Date().toISOString();
+
+const createUser = (fields) => {
+  const user = {
+    id: randomBytes(8).toString("hex"),
+    username: fields.username,
+    email: fields.email ?? "",
+    phone: fields.phone,
+    createdAt: now(),
+    updatedAt: now(),
+  };
+  users.set(user.id, user);
+  return user;
+};
+
+const findUser = (predicate) => [...users.values()].find(predicate);
+
+const issueTokens = (userId) => {
+  const access_token = randomBytes(24).toString("hex");
+  const refresh_token = randomBytes(24).toString("hex");
+  accessTokens.set(access_token, userId);
+  refreshTokens.set(refresh_token, userId);
+  return { access_token, refresh_token };
+};
+
+const authenticate = (req) => {
+  const header = req.headers.authorization ?? "";
+  const token = header.replace(/^Bearer /, "");
+  return users.get(accessTokens.get(token));
+};
+
+const readBody = async (req) => {
+  let raw = "";
+  for await (const chunk of req) raw += chunk;
+  return raw ? JSON.parse(raw) : {};
+};
+
+const readBinaryBody = async (req) => {
+  const parts = [];
+  for await (const chunk of req) parts.push(chunk);
+  return Buffer.concat(parts);
+};
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const chunkCount = (upload) =>
+  Math.max(1, Math.ceil(upload.size / upload.chunkSize));
+
+const describeUpload = (upload) => ({
+  uploadId: upload.id,
+  chunkSize: upload.chunkSize,
+  receivedChunks: [...upload.chunks.keys()].sort((a, b) => a - b),
+});
+
+// Look up an upload that belongs to the signed-in user
+const findUpload = (req, uploadId) => {
+  const user = authenticate(req);
+  if (!user) return [401, { message: "Invalid token" }];
+  const upload = uploads.get(uploadId);
+  if (!upload || upload.userId !== user.id) {
+    return [404, { message: "Upload not found" }];
+  }
+  return [200, upload];
+};
+
+const routes = {
+  "POST /auth/signup": async (req) => {
+    const { username, email, phone, password } = await readBody(req);
+    if (findUser((u) => u.email === email)) {
+      return [409, { message: "Email is already registered", field: "email" }];
+    }
+    const user = createUser({ username, email, phone });
+    passwords.set(email, password);
+    return [201, user];
+  },
+
+  "POST /auth/signin": async (req) => {
+    const { email, password } = await readBody(req);
+    const user = findUser((u) => u.email === email);
+    if (!user || passwords.get(email) !== password) {
+      return [401, { message: "Invalid email or password" }];
+    }
+    return [200, { ...issueTokens(user.id), user }];
+  },
+
+  "POST /auth/phone/request-code": async (req) => {
+    const { phone } = await readBody(req);
+    if (!E164_PATTERN.test(phone ?? "")) {
+      return [400, { message: "Invalid phone number", field: "phone" }];
+    }
+
+    const pending = phoneCodes.get(phone);
+    if (pending && Date.now() - pending.sentAt < RESEND_SECONDS * 1000) {
+      return [429, { message: "Please wait before requesting another code" }];
+    }
+
+    const code = randomInt(0, 100000).toString().padStart(5, "0");
+    phoneCodes.set(phone, {
+      code,
+      sentAt: Date.now(),
+      expiresAt: Date.now() + CODE_TTL_SECONDS * 1000,
+    });
+    console.log(`[stub] sign-in code for ${phone}: ${code}`);
+    return [200, { resendIn: RESEND_SECONDS, expiresIn: CODE_TTL_SECONDS }];
+  },
+
+  "POST /auth/phone/verify": async (req) => {
+    const { phone, code } = await readBody(req);
+    const pending = phoneCodes.get(phone);
+    if (!pending || pending.expiresAt < Date.now()) {
+      return [400, { message: "The code has expired", field: "code" }];
+    }
+    if (pending.code !== code) {
+      return [400, { message: "Invalid code", field: "code" }];
+    }
+
+    phoneCodes.delete(phone);
+    const user =
+      findUser((u) => u.phone === phone) ??
+      createUser({ username: `user${phone.slice(-4)}`, phone });
+    return [200, { ...issueTokens(user.id), user }];
+  },
+
+  "GET /auth/validate": async (req) => {
+    const user = authenticate(req);
+    return user ? [200, { user }] : [401, { message: "Invalid token" }];
+  },
+
+  "POST /auth/refresh": async (req) => {
+    const { refresh_token } = await readBody(req);
+    const userId = refreshTokens.get(refresh_token);
+    if (!userId) {
+      return [401, { message: "Invalid refresh token" }];
+    }
+    // Rotate: the old refresh token can't be used again
+    refreshTokens.delete(refresh_token);
+    return [200, issueTokens(userId)];
+  },
+
+  "POST /chats/:chatId/uploads": async (req, { chatId }) => {
+    const user = authenticate(req);
+    if (!user) return [401, { message: "Invalid token" }];
+
+    const { filename, size, mimeType, type, chunkSize } = await readBody(req);
+    if (!filename || !Number.isInteger(size) || size < 0) {
+      return [400, { message: "filename and size are required" }];
+    }
+    const upload = {
+      id: randomBytes(8).toString("hex"),
+      userId: user.id,
+      chatId,
+      filename,
+      size,
+      mimeType: mimeType ?? "application/octet-stream",
+      type: type ?? "file",
+      // Honour the client's chunk size within sane bounds
+      chunkSize: Math.min(
+        Math.max(Number(chunkSize) || UPLOAD_CHUNK_SIZE, 64 * 1024),
+        8 * UPLOAD_CHUNK_SIZE
+      ),
+      chunks: new Map(), // index -> Buffer
+    };
+    uploads.set(upload.id, upload);
+    return [201, describeUpload(upload)];
+  },
+
+  "GET /uploads/:uploadId": async (req, { uploadId }) => {
+    const [status, upload] = findUpload(req, uploadId);
+    return status === 200 ? [200, describeUpload(upload)] : [status, upload];
+  },
+
+  "PUT /uploads/:uploadId/chunks/:index": async (req, { uploadId, index }) => {
+    const [status, upload] = findUpload(req, uploadId);
+    if (status !== 200) return [status, upload];
+
+    const chunkIndex = Number(index);
+    if (
+      !Number.isInteger(chunkIndex) ||
+      chunkIndex < 0 ||
+      chunkIndex >= chunkCount(upload)
+    ) {
+      return [400, { message: "Chunk index out of range" }];
+    }
+
+    const data = await readBinaryBody(req);
+    if (UPLOAD_DELAY) await sleep(UPLOAD_DELAY);
+    if (Math.random() < UPLOAD_FAILURE_RATE) {
+      return [503, { message: "Simulated upload failure" }];
+    }
+
+    const expected = Math.min(
+      upload.chunkSize,
+      upload.size - chunkIndex * upload.chunkSize
+    );
+    if (data.length !== expected) {
+      return [
+        400,
+        { message: `Chunk ${chunkIndex} should be ${expected} bytes` },
+      ];
+    }
+    upload.chunks.set(chunkIndex, data);
+    return [204];
+  },
+
+  "POST /uploads/:uploadId/complete": async (req, { uploadId }) => {
+    const [status, upload] = findUpload(req, uploadId);
+    if (status !== 200) return [status, upload];
+
+    const missing = [];
+    for (let index = 0; index < chunkCount(upload); index++) {
+      if (!upload.chunks.has(index)) missing.push(index);
+    }
+    if (missing.length) {
+      return [
+        400,
+        {
+          message: `Missing chunks: ${missing.join(", ")}`,
+          code: "upload_incomplete",
+          details: { missing },
+        },
+      ];
+    }
+
+    const data = Buffer.concat(
+      [...upload.chunks.entries()]
+        .sort(([a], [b]) => a - b)
+        .map(([, chunk]) => chunk)
+    );
+    uploads.delete(uploadId);
+    files.set(upload.id, {
+      data,
+      mimeType: upload.mimeType,
+      filename: upload.filename,
+    });
+    console.log(
+      `[stub] upload complete: ${upload.filename} (${data.length} B)`
+    );
+    return [
+      200,
+      {
+        id: upload.id,
+        url: `http://localhost:${PORT}${API_PREFIX}/files/${upload.id}`,
+        filename: upload.filename,
+        size: data.length,
+      },
+    ];
+  },
+
+  "DELETE /uploads/:uploadId": async (req, { uploadId }) => {
+    const [status, upload] = findUpload(req, uploadId);
+    if (status !== 200) return [status, upload];
+    uploads.delete(uploadId);
+    return [204];
+  },
+
+  "GET /files/:fileId": async (req, { fileId }) => {
+    const file = files.get(fileId);
+    if (!file) return [404, { message: "File not found" }];
+    return [200, file.data, file.mimeType];
+  },
+};
+
+// Routes are "METHOD /path", where ":name" path segments match anything and
+// are handed to the handler as params
+const matchRoute = (method, path) => {
+  const segments = path.split("/");
+  for (const [route, handler] of Object.entries(routes)) {
+    const [routeMethod, routePath] = route.split(" ");
+    const routeSegments = routePath.split("/");
+    if (routeMethod !== method || routeSegments.length !== segments.length) {
+      continue;
+    }
+
+    const params = {};
+    const matches = routeSegments.every((segment, i) => {
+      if (segment.startsWith(":")) {
+        params[segment.slice(1)] = decodeURIComponent(segments[i]);
+        return true;
+      }
+      return segment === segments[i];
+    });
+    if (matches) return (req) => handler(req, params);
+  }
+  return undefined;
+};
+
+const server = http.createServer(async (req, res) => {
+  res.setHeader("Access-Control-Allow-Origin", "*");
+  res.setHeader("Access-Control-Allow-Headers", "*");
+  res.setHeader(
+    "Access-Control-Allow-Methods",
+    "GET, POST, PUT, PATCH, DELETE, OPTIONS"
+  );
+  if (req.method === "OPTIONS") {
+    res.writeHead(204).end();
+    return;
+  }
+
+  const path = new URL(req.url, "http://localhost").pathname;
+  const handler = matchRoute(req.method, path.replace(API_PREFIX, ""));
+
+  try {
+    const [status, body, contentType] = handler
+      ? await handler(req)
+      : [404, { message: `No stub for ${req.method} ${path}` }];
+    if (body === undefined) {
+      res.writeHead(status).end();
+    } else if (Buffer.isBuffer(body)) {
+      res.writeHead(status, { "Content-Type": contentType });
+      res.end(body);
+    } else {
+      res.writeHead(status, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(body));
+    }
+  } catch (error) {
+    res.writeHead(500, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ message: error.message }));
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`[stub] listening on http://localhost:${PORT}${API_PREFIX}`);
+});
@@ -1,13 +1,43 @@
-import React from "react";
+import React, { useEffect } from "react";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { AuthProvider, useAuth } from "./context/authContext";
+import { LockProvider } from "./context/lockContext";
+import { SocketProvider } from "./context/socketContext";
+import { ToastProvider } from "./context/toastContext";
 import { LoginPage } from "./features/auth/loginPage";
 import { ChatApp } from "./features/chat/chatApp";
 
-const queryClient = new QueryClient();
+// Each signed-in account gets its own React Query cache, so switching
+// accounts never shows another account's chats
+const queryClients = new Map<string, QueryClient>();
+
+const getQueryClient = (accountId: string) => {
+  let client = queryClients.get(accountId);
+  if (!client) {
+    client = new QueryClient();
+    queryClients.set(accountId, client);
+  }
+  return client;
+};
 
 const AppContent: React.FC = () => {
-  const { isAuthenticated, isLoading } = useAuth();
+  const {
+    isAuthenticated,
+    isLoading,
+    isAddingAccount,
+    accounts,
+    activeAccountId,
+  } = useAuth();
+
+  // Drop the caches of accounts that have been signed out
+  useEffect(() => {
+    queryClients.forEach((client, accountId) => {
+      if (!accounts.some((account) => account.id === accountId)) {
+        client.clear();
+        queryClients.delete(accountId);
+      }
+    });
+  }, [accounts]);
 
   if (isLoading) {
     return (
@@ -17,25 +47,33 @@ const AppContent: React.FC = () => {
     );
   }
 
-  console.log("AppContent rendered, isAuthenticated:", isAuthenticated)
-  ;
-  
-  if (!isAuthenticated) {
+  console.log("AppContent rendered, isAuthenticated:", isAuthenticated);
+
+  if (!isAuthenticated || !activeAccountId || isAddingAccount) {
     return <LoginPage />;
   }
 
-  return <ChatApp />;
+  // Keyed by account so switching remounts the chat and its socket
+  return (
+    <QueryClientProvider client={getQueryClient(activeAccountId)}>
+      <SocketProvider key={activeAccountId}>
+        <ChatApp />
+      </SocketProvider>
+    </QueryClientProvider>
+  );
 };
 
 function App() {
   return (
-    <QueryClientProvider client={queryClient}>
-      <AuthProvider>
-        <div className="min-h-screen bg-gray-50">
-          <AppContent />
-        </div>
-      </AuthProvider>
-    </QueryClientProvider>
+    <AuthProvider>
+      <LockProvider>
+        <ToastProvider>
+          <div className="min-h-screen bg-gray-50">
+            <AppContent />
+          </div>
+        </ToastProvider>
+      </LockProvider>
+    </AuthProvider>
   );
 }
 
@@ -0,0 +1,66 @@
+// src/api/auth.ts
+import { useApi } from "./index";
+import { ApiRequestError } from "./errors";
+import {
+  backupCodesSchema,
+  parseResponse,
+  twoFactorSetupSchema,
+} from "./schemas";
+import { TwoFactorSetup } from "../types";
+
+export const useAuthApi = () => {
+  const api = useApi();
+
+  // ================== TWO-FACTOR AUTHENTICATION ==================
+
+  /**
+   * Start enabling 2FA: returns a new TOTP secret that stays inactive until
+   * it is confirmed with a code
+   */
+  const setupTwoFactor = async (): Promise<TwoFactorSetup> => {
+    const response = await api.post("/auth/2fa/setup");
+    if (!response.ok) {
+      throw await ApiRequestError.fromResponse(
+        response,
+        "Failed to start two-factor setup"
+      );
+    }
+    return parseResponse(response, twoFactorSetupSchema);
+  };
+
+  /**
+   * Confirm the pending secret with a code from the authenticator app.
+   * Returns the one-time backup codes.
+   */
+  const enableTwoFactor = async (
+    code: string
+  ): Promise<{ backupCodes: string[] }> => {
+    const response = await api.post("/auth/2fa/enable", { code });
+    if (!response.ok) {
+      throw await ApiRequestError.fromResponse(
+        response,
+        "Invalid code, two-factor authentication not enabled"
+      );
+    }
+    return parseResponse(response, backupCodesSchema);
+  };
+
+  /**
+   * Turn 2FA off; requires a current authenticator or backup code
+   */
+  const disableTwoFactor = async (code: string): Promise<void> => {
+    const response = await api.post("/auth/2fa/disable", { code });
+    if (!response.ok) {
+      throw await ApiRequestError.fromResponse(
+        response,
+        "Invalid code, two-factor authentication still enabled"
+      );
+    }
+  };
+
+  return {
+    setupTwoFactor,
+    enableTwoFactor,
+    disableTwoFactor,
+  };
+};
@@ -1,6 +1,34 @@
 // src/api/chats.ts
-import { useApi } from "./index";
-import { Chat, User, Message } from "../types";
+import { ApiRequestError } from "./errors";
+import { apiClient, CancelOptions } from "./client";
+import {
+  Chat,
+  User,
+  Message,
+  Account,
+  Session,
+  ChatSettings,
+  MessageAttachment,
+  ChatInvite,
+  UploadedFile,
+} from "../types";
+import {
+  attachmentListSchema,
+  chatInviteListSchema,
+  chatListSchema,
+  chatSchema,
+  chatSettingsSchema,
+  chatStatsSchema,
+  inviteLinkSchema,
+  messageListSchema,
+  messagePageSchema,
+  messageSchema,
+  readStatusSchema,
+  sessionListSchema,
+  userListSchema,
+  parseResponse,
+} from "./schemas";
+import { uploadManager } from "../utils/uploadManager";
 
 export interface CreateGroupChatData {
   name: string;
@@ -26,31 +54,45 @@ export interface ChatMember {
   joinedAt: string;
 }
 
-export const useChatsApi = () => {
-  const api = useApi();
+/**
+ * The chat endpoints, sent as the active account or the one passed in. Not
+ * a hook, so it also works in query functions, e.g. to poll several
+ * accounts at once.
+ */
+export const createChatsApi = (account?: Account) => {
+  const api = apiClient.forAccount(account?.id);
 
   // ================== CHAT MANAGEMENT ==================
 
   /**
    * Get all chats for the current user
    */
-  const getChats = async (): Promise<Chat[]> => {
-    const response = await api.get("/chats");
+  const getChats = async ({ signal }: CancelOptions = {}): Promise<Chat[]> => {
+    const response = await api.get("/chats", { signal });
     if (!response.ok) {
-      throw new Error("Failed to fetch chats");
+      throw await ApiRequestError.fromResponse(
+        response,
+        "Failed to fetch chats"
+      );
     }
-    return response.json();
+    return parseResponse(response, chatListSchema);
   };
 
   /**
    * Get a specific chat by ID
    */
-  const getChat = async (chatId: string): Promise<Chat> => {
-    const response = await api.get(`/chats/${chatId}`);
+  const getChat = async (
+    chatId: string,
+    { signal }: CancelOptions = {}
+  ): Promise<Chat> => {
+    const response = await api.get(`/chats/${chatId}`, { signal });
     if (!response.ok) {
-      throw new Error("Failed to fetch chat");
+      throw await ApiRequestError.fromResponse(
+        response,
+        "Failed to fetch chat"
+      );
     }
-    return response.json();
+    return parseResponse(response, chatSchema);
   };
 
   /**
@@ -59,9 +101,12 @@ export const useChatsApi = () => {
   const createDirectChat = async (targetUserId: string): Promise<Chat> => {
     const response = await api.post(`/chats/direct/${targetUserId}`);
     if (!response.ok) {
-      throw new Error("Failed to create direct chat");
+      throw await ApiRequestError.fromResponse(
+        response,
+        "Failed to create direct chat"
+      );
     }
-    return response.json();
+    return parseResponse(response, chatSchema);
   };
 
   /**
@@ -70,9 +115,12 @@ export const useChatsApi = () => {
   const createGroupChat = async (data: CreateGroupChatData): Promise<Chat> => {
     const response = await api.post("/chats/group", data);
     if (!response.ok) {
-      throw new Error("Failed to create group chat");
+      throw await ApiRequestError.fromResponse(
+        response,
+        "Failed to create group chat"
+      );
     }
-    return response.json();
+    return parseResponse(response, chatSchema);
   };
 
   /**
@@ -84,9 +132,12 @@ export const useChatsApi = () => {
   ): Promise<Chat> => {
     const response = await api.put(`/chats/${chatId}`, data);
     if (!response.ok) {
-      throw new Error("Failed to update chat");
+      throw await ApiRequestError.fromResponse(
+        response,
+        "Failed to update chat"
+      );
     }
-    return response.json();
+    return parseResponse(response, chatSchema);
   };
 
   /**
@@ -95,7 +146,10 @@ export const useChatsApi = () => {
   const deleteChat = async (chatId: string): Promise<void> => {
     const response = await api.delete(`/chats/${chatId}`);
     if (!response.ok) {
-      throw new Error("Failed to delete chat");
+      throw await ApiRequestError.fromResponse(
+        response,
+        "Failed to delete chat"
+      );
     }
   };
 
@@ -105,7 +159,10 @@ export const useChatsApi = () => {
   const leaveChat = async (chatId: string): Promise<void> => {
     const response = await api.delete(`/chats/${chatId}/leave`);
     if (!response.ok) {
-      throw new Error("Failed to leave chat");
+      throw await ApiRequestError.fromResponse(
+        response,
+        "Failed to leave chat"
+      );
     }
   };
 
@@ -114,38 +171,57 @@ export const useChatsApi = () => {
   /**
    * Search chats by name or participant name
    */
-  const searchChats = async (query: string): Promise<Chat[]> => {
+  const searchChats = async (
+    query: string,
+    { signal }: CancelOptions = {}
+  ): Promise<Chat[]> => {
     const response = await api.get(
-      `/chats/search?query=${encodeURIComponent(query)}`
+      `/chats/search?query=${encodeURIComponent(query)}`,
+      { signal }
     );
     if (!response.ok) {
-      throw new Error("Failed to search chats");
+      throw await ApiRequestError.fromResponse(
+        response,
+        "Failed to search chats"
+      );
     }
-    return response.json();
+    return parseResponse(response, chatListSchema);
   };
 
   /**
    * Search users to start new chats
    */
-  const searchUsers = async (query: string): Promise<User[]> => {
+  const searchUsers = async (
+    query: string,
+    { signal }: CancelOptions = {}
+  ): Promise<User[]> => {
     const response = await api.get(
-      `/users/search?query=${encodeURIComponent(query)}`
+      `/users/search?query=${encodeURIComponent(query)}`,
+      { signal }
     );
     if (!response.ok) {
-      throw new Error("Failed to search users");
+      throw await ApiRequestError.fromResponse(
+        response,
+        "Failed to search users"
+      );
     }
-    return response.json();
+    return parseResponse(response, userListSchema);
   };
 
   /**
    * Get suggested users based on mutual connections or activity
    */
-  const getSuggestedUsers = async (): Promise<User[]> => {
-    const response = await api.get("/users/suggestions");
+  const getSuggestedUsers = async ({ signal }: CancelOptions = {}): Promise<
+    User[]
+  > => {
+    const response = await api.get("/users/suggestions", { signal });
     if (!response.ok) {
-      throw new Error("Failed to fetch suggested users");
+      throw await ApiRequestError.fromResponse(
+        response,
+        "Failed to fetch suggested users"
+      );
     }
-    return response.json();
+    return parseResponse(response, userListSchema);
   };
 
   // ================== PINNED & FAVORITES ==================
@@ -153,12 +229,17 @@ export const useChatsApi = () => {
   /**
    * Get pinned chats
    */
-  const getPinnedChats = async (): Promise<Chat[]> => {
-    const response = await api.get("/chats/pinned");
+  const getPinnedChats = async ({ signal }: CancelOptions = {}): Promise<
+    Chat[]
+  > => {
+    const response = await api.get("/chats/pinned", { signal });
     if (!response.ok) {
-      throw new Error("Failed to fetch pinned chats");
+      throw await ApiRequestError.fromResponse(
+        response,
+        "Failed to fetch pinned chats"
+      );
     }
-    return response.json();
+    return parseResponse(response, chatListSchema);
   };
 
   /**
@@ -167,19 +248,27 @@ export const useChatsApi = () => {
   const pinChat = async (chatId: string, isPinned: boolean): Promise<void> => {
     const response = await api.put(`/chats/${chatId}/pin`, { isPinned });
     if (!response.ok) {
-      throw new Error("Failed to pin/unpin chat");
+      throw await ApiRequestError.fromResponse(
+        response,
+        "Failed to pin/unpin chat"
+      );
     }
   };
 
   /**
    * Get archived chats
    */
-  const getArchivedChats = async (): Promise<Chat[]> => {
-    const response = await api.get("/chats/archived");
+  const getArchivedChats = async ({ signal }: CancelOptions = {}): Promise<
+    Chat[]
+  > => {
+    const response = await api.get("/chats/archived", { signal });
     if (!response.ok) {
-      throw new Error("Failed to fetch archived chats");
+      throw await ApiRequestError.fromResponse(
+        response,
+        "Failed to fetch archived chats"
+      );
     }
-    return response.json();
+    return parseResponse(response, chatListSchema);
   };
 
   /**
@@ -191,7 +280,10 @@ export const useChatsApi = () => {
   ): Promise<void> => {
     const response = await api.put(`/chats/${chatId}/archive`, { isArchived });
     if (!response.ok) {
-      throw new Error("Failed to archive/unarchive chat");
+      throw await ApiRequestError.fromResponse(
+        response,
+        "Failed to archive/unarchive chat"
+      );
     }
   };
 
@@ -202,7 +294,8 @@ export const useChatsApi = () => {
    */
   const getMessages = async (
     chatId: string,
-    params?: MessageQueryParams
+    params?: MessageQueryParams,
+    { signal }: CancelOptions = {}
   ): Promise<Message[]> => {
     const queryString = new URLSearchParams();
     if (params?.limit) queryString.set("limit", params.limit.toString());
@@ -213,11 +306,14 @@ export const useChatsApi = () => {
     const url = `/chats/${chatId}/messages${
       queryString.toString() ? `?${queryString}` : ""
     }`;
-    const response = await api.get(url);
+    const response = await api.get(url, { signal });
     if (!response.ok) {
-      throw new Error("Failed to fetch messages");
+      throw await ApiRequestError.fromResponse(
+        response,
+        "Failed to fetch messages"
+      );
     }
-    return response.json();
+    return parseResponse(response, messageListSchema);
   };
 
   /**
@@ -234,9 +330,12 @@ export const useChatsApi = () => {
   ): Promise<Message> => {
     const response = await api.post(`/chats/${chatId}/messages`, data);
     if (!response.ok) {
-      throw new Error("Failed to send message");
+      throw await ApiRequestError.fromResponse(
+        response,
+        "Failed to send message"
+      );
     }
-    return response.json();
+    return parseResponse(response, messageSchema);
   };
 
   /**
@@ -248,7 +347,10 @@ export const useChatsApi = () => {
   ): Promise<void> => {
     const response = await api.delete(`/chats/${chatId}/messages/${messageId}`);
     if (!response.ok) {
-      throw new Error("Failed to delete message");
+      throw await ApiRequestError.fromResponse(
+        response,
+        "Failed to delete message"
+      );
     }
   };
 
@@ -264,9 +366,12 @@ export const useChatsApi = () => {
       text,
     });
     if (!response.ok) {
-      throw new Error("Failed to edit message");
+      throw await ApiRequestError.fromResponse(
+        response,
+        "Failed to edit message"
+      );
     }
-    return response.json();
+    return parseResponse(response, messageSchema);
   };
 
   /**
@@ -284,7 +389,10 @@ export const useChatsApi = () => {
       }
     );
     if (!response.ok) {
-      throw new Error("Failed to react to message");
+      throw await ApiRequestError.fromResponse(
+        response,
+        "Failed to react to message"
+      );
     }
   };
 
@@ -300,7 +408,10 @@ export const useChatsApi = () => {
       `/chats/${chatId}/messages/${messageId}/react/${reaction}`
     );
     if (!response.ok) {
-      throw new Error("Failed to remove reaction");
+      throw await ApiRequestError.fromResponse(
+        response,
+        "Failed to remove reaction"
+      );
     }
   };
 
@@ -312,7 +423,10 @@ export const useChatsApi = () => {
   const markAsRead = async (chatId: string): Promise<void> => {
     const response = await api.put(`/chats/${chatId}/read`);
     if (!response.ok) {
-      throw new Error("Failed to mark as read");
+      throw await ApiRequestError.fromResponse(
+        response,
+        "Failed to mark as read"
+      );
     }
   };
 
@@ -322,7 +436,10 @@ export const useChatsApi = () => {
   const markAllAsRead = async (): Promise<void> => {
     const response = await api.put(`/chats/read-all`);
     if (!response.ok) {
-      throw new Error("Failed to mark all as read");
+      throw await ApiRequestError.fromResponse(
+        response,
+        "Failed to mark all as read"
+      );
     }
   };
 
@@ -337,7 +454,10 @@ export const useChatsApi = () => {
       `/chats/${chatId}/messages/${messageId}/read`
     );
     if (!response.ok) {
-      throw new Error("Failed to mark message as read");
+      throw await ApiRequestError.fromResponse(
+        response,
+        "Failed to mark message as read"
+      );
     }
   };
 
@@ -349,9 +469,12 @@ export const useChatsApi = () => {
   ): Promise<Record<string, string[]>> => {
     const response = await api.get(`/chats/${chatId}/read-status`);
     if (!response.ok) {
-      throw new Error("Failed to fetch read status");
+      throw await ApiRequestError.fromResponse(
+        response,
+        "Failed to fetch read status"
+      );
     }
-    return response.json();
+    return parseResponse(response, readStatusSchema);
   };
 
   // ================== PARTICIPANTS MANAGEMENT ==================
@@ -359,12 +482,20 @@ export const useChatsApi = () => {
   /**
    * Get chat participants
    */
-  const getParticipants = async (chatId: string): Promise<User[]> => {
-    const response = await api.get(`/chats/${chatId}/participants`);
+  const getParticipants = async (
+    chatId: string,
+    { signal }: CancelOptions = {}
+  ): Promise<User[]> => {
+    const response = await api.get(`/chats/${chatId}/participants`, {
+      signal,
+    });
     if (!response.ok) {
-      throw new Error("Failed to fetch participants");
+      throw await ApiRequestError.fromResponse(
+        response,
+        "Failed to fetch participants"
+      );
     }
-    return response.json();
+    return parseResponse(response, userListSchema);
   };
 
   /**
@@ -378,7 +509,10 @@ export const useChatsApi = () => {
       userIds,
     });
     if (!response.ok) {
-      throw new Error("Failed to add participants");
+      throw await ApiRequestError.fromResponse(
+        response,
+        "Failed to add participants"
+      );
     }
   };
 
@@ -393,7 +527,10 @@ export const useChatsApi = () => {
       `/chats/${chatId}/participants/${userId}`
     );
     if (!response.ok) {
-      throw new Error("Failed to remove participant");
+      throw await ApiRequestError.fromResponse(
+        response,
+        "Failed to remove participant"
+      );
     }
   };
 
@@ -412,7 +549,10 @@ export const useChatsApi = () => {
       }
     );
     if (!response.ok) {
-      throw new Error("Failed to update participant role");
+      throw await ApiRequestError.fromResponse(
+        response,
+        "Failed to update participant role"
+      );
     }
   };
 
@@ -431,47 +571,40 @@ export const useChatsApi = () => {
   ): Promise<void> => {
     const response = await api.put(`/chats/${chatId}/settings`, settings);
     if (!response.ok) {
-      throw new Error("Failed to update chat settings");
+      throw await ApiRequestError.fromResponse(
+        response,
+        "Failed to update chat settings"
+      );
     }
   };
 
   /**
    * Get chat settings
    */
-  const getChatSettings = async (chatId: string): Promise<any> => {
+  const getChatSettings = async (chatId: string): Promise<ChatSettings> => {
     const response = await api.get(`/chats/${chatId}/settings`);
     if (!response.ok) {
-      throw new Error("Failed to fetch chat settings");
+      throw await ApiRequestError.fromResponse(
+        response,
+        "Failed to fetch chat settings"
+      );
     }
-    return response.json();
+    return parseResponse(response, chatSettingsSchema);
   };
 
   // ================== MEDIA & FILES ==================
 
   /**
-   * Upload file/image for a chat
+   * Upload file/image for a chat. Goes through the shared upload manager, so
+   * the file is sent in resumable chunks and shows up in the composer.
+   * Rejects if the upload fails or is cancelled.
    */
   const uploadFile = async (
     chatId: string,
     file: File,
     type: "image" | "file" | "voice"
-  ): Promise<{ url: string; filename: string; size: number }> => {
-    const formData = new FormData();
-    formData.append("file", file);
-    formData.append("type", type);
-
-    const response = await api.apiCall(`/chats/${chatId}/upload`, {
-      method: "POST",
-      body: formData,
-      headers: {
-        // Don't set Content-Type for FormData, let browser set it
-      },
-    });
-
-    if (!response.ok) {
-      throw new Error("Failed to upload file");
-    }
-    return response.json();
+  ): Promise<UploadedFile> => {
+    return uploadManager.add(chatId, file, type, account?.id).done;
   };
 
   /**
@@ -480,13 +613,16 @@ export const useChatsApi = () => {
   const getChatMedia = async (
     chatId: string,
     type?: "image" | "file" | "voice"
-  ): Promise<any[]> => {
+  ): Promise<MessageAttachment[]> => {
     const url = `/chats/${chatId}/media${type ? `?type=${type}` : ""}`;
     const response = await api.get(url);
     if (!response.ok) {
-      throw new Error("Failed to fetch chat media");
+      throw await ApiRequestError.fromResponse(
+        response,
+        "Failed to fetch chat media"
+      );
     }
-    return response.json();
+    return parseResponse(response, attachmentListSchema);
   };
 
   // ================== TYPING INDICATORS ==================
@@ -497,7 +633,10 @@ export const useChatsApi = () => {
   const sendTyping = async (chatId: string): Promise<void> => {
     const response = await api.post(`/chats/${chatId}/typing`);
     if (!response.ok) {
-      throw new Error("Failed to send typing indicator");
+      throw await ApiRequestError.fromResponse(
+        response,
+        "Failed to send typing indicator"
+      );
     }
   };
 
@@ -507,7 +646,10 @@ export const useChatsApi = () => {
   const stopTyping = async (chatId: string): Promise<void> => {
     const response = await api.delete(`/chats/${chatId}/typing`);
     if (!response.ok) {
-      throw new Error("Failed to stop typing indicator");
+      throw await ApiRequestError.fromResponse(
+        response,
+        "Failed to stop typing indicator"
+      );
     }
   };
 
@@ -542,9 +684,12 @@ export const useChatsApi = () => {
     }`;
     const response = await api.get(url);
     if (!response.ok) {
-      throw new Error("Failed to fetch chat history");
+      throw await ApiRequestError.fromResponse(
+        response,
+        "Failed to fetch chat history"
+      );
     }
-    return response.json();
+    return parseResponse(response, messagePageSchema);
   };
 
   /**
@@ -562,9 +707,12 @@ export const useChatsApi = () => {
 
     const response = await api.get(`/chats/${chatId}/search?${queryString}`);
     if (!response.ok) {
-      throw new Error("Failed to search messages");
+      throw await ApiRequestError.fromResponse(
+        response,
+        "Failed to search messages"
+      );
     }
-    return response.json();
+    return parseResponse(response, messagePageSchema);
   };
 
   // ================== NOTIFICATIONS ==================
@@ -580,7 +728,7 @@ export const useChatsApi = () => {
       duration,
     });
     if (!response.ok) {
-      throw new Error("Failed to mute chat");
+      throw await ApiRequestError.fromResponse(response, "Failed to mute chat");
     }
   };
 
@@ -590,7 +738,10 @@ export const useChatsApi = () => {
   const unmuteChat = async (chatId: string): Promise<void> => {
     const response = await api.delete(`/chats/${chatId}/mute`);
     if (!response.ok) {
-      throw new Error("Failed to unmute chat");
+      throw await ApiRequestError.fromResponse(
+        response,
+        "Failed to unmute chat"
+      );
     }
   };
 
@@ -608,7 +759,10 @@ export const useChatsApi = () => {
       targetChatIds,
     });
     if (!response.ok) {
-      throw new Error("Failed to forward messages");
+      throw await ApiRequestError.fromResponse(
+        response,
+        "Failed to forward messages"
+      );
     }
   };
 
@@ -626,9 +780,12 @@ export const useChatsApi = () => {
   }> => {
     const response = await api.get(`/chats/${chatId}/stats`);
     if (!response.ok) {
-      throw new Error("Failed to fetch chat statistics");
+      throw await ApiRequestError.fromResponse(
+        response,
+        "Failed to fetch chat statistics"
+      );
     }
-    return response.json();
+    return parseResponse(response, chatStatsSchema);
   };
 
   /**
@@ -640,7 +797,10 @@ export const useChatsApi = () => {
   ): Promise<Blob> => {
     const response = await api.get(`/chats/${chatId}/export?format=${format}`);
     if (!response.ok) {
-      throw new Error("Failed to export chat");
+      throw await ApiRequestError.fromResponse(
+        response,
+        "Failed to export chat"
+      );
     }
     return response.blob();
   };
@@ -651,7 +811,10 @@ export const useChatsApi = () => {
   const clearChatHistory = async (chatId: string): Promise<void> => {
     const response = await api.delete(`/chats/${chatId}/messages`);
     if (!response.ok) {
-      throw new Error("Failed to clear chat history");
+      throw await ApiRequestError.fromResponse(
+        response,
+        "Failed to clear chat history"
+      );
     }
   };
 
@@ -661,26 +824,37 @@ export const useChatsApi = () => {
   const blockUser = async (userId: string): Promise<void> => {
     const response = await api.post(`/users/${userId}/block`);
     if (!response.ok) {
-      throw new Error("Failed to block user");
+      throw await ApiRequestError.fromResponse(
+        response,
+        "Failed to block user"
+      );
     }
   };
 
   const unblockUser = async (userId: string): Promise<void> => {
     const response = await api.delete(`/users/${userId}/block`);
     if (!response.ok) {
-      throw new Error("Failed to unblock user");
+      throw await ApiRequestError.fromResponse(
+        response,
+        "Failed to unblock user"
+      );
     }
   };
 
   /**
    * Get blocked users
    */
-  const getBlockedUsers = async (): Promise<User[]> => {
-    const response = await api.get("/users/blocked");
+  const getBlockedUsers = async ({ signal }: CancelOptions = {}): Promise<
+    User[]
+  > => {
+    const response = await api.get("/users/blocked", { signal });
     if (!response.ok) {
-      throw new Error("Failed to fetch blocked users");
+      throw await ApiRequestError.fromResponse(
+        response,
+        "Failed to fetch blocked users"
+      );
     }
-    return response.json();
+    return parseResponse(response, userListSchema);
   };
 
   /**
@@ -694,7 +868,54 @@ export const useChatsApi = () => {
   }): Promise<void> => {
     const response = await api.post("/reports", data);
     if (!response.ok) {
-      throw new Error("Failed to report content");
+      throw await ApiRequestError.fromResponse(
+        response,
+        "Failed to report content"
+      );
+    }
+  };
+
+  // ================== SESSIONS ==================
+
+  /**
+   * Get the active sessions (signed-in devices) of the current user
+   */
+  const getSessions = async ({ signal }: CancelOptions = {}): Promise<
+    Session[]
+  > => {
+    const response = await api.get("/auth/sessions", { signal });
+    if (!response.ok) {
+      throw await ApiRequestError.fromResponse(
+        response,
+        "Failed to fetch sessions"
+      );
+    }
+    return parseResponse(response, sessionListSchema);
+  };
+
+  /**
+   * Sign out a single session on another device
+   */
+  const terminateSession = async (sessionId: string): Promise<void> => {
+    const response = await api.delete(`/auth/sessions/${sessionId}`);
+    if (!response.ok) {
+      throw await ApiRequestError.fromResponse(
+        response,
+        "Failed to terminate session"
+      );
+    }
+  };
+
+  /**
+   * Sign out every session except the current one
+   */
+  const terminateOtherSessions = async (): Promise<void> => {
+    const response = await api.delete("/auth/sessions");
+    if (!response.ok) {
+      throw await ApiRequestError.fromResponse(
+        response,
+        "Failed to terminate other sessions"
+      );
     }
   };
 
@@ -706,19 +927,27 @@ export const useChatsApi = () => {
   const updateOnlineStatus = async (isOnline: boolean): Promise<void> => {
     const response = await api.put("/user/status", { isOnline });
     if (!response.ok) {
-      throw new Error("Failed to update online status");
+      throw await ApiRequestError.fromResponse(
+        response,
+        "Failed to update online status"
+      );
     }
   };
 
   /**
    * Get online users
    */
-  const getOnlineUsers = async (): Promise<User[]> => {
-    const response = await api.get("/users/online");
+  const getOnlineUsers = async ({ signal }: CancelOptions = {}): Promise<
+    User[]
+  > => {
+    const response = await api.get("/users/online", { signal });
     if (!response.ok) {
-      throw new Error("Failed to fetch online users");
+      throw await ApiRequestError.fromResponse(
+        response,
+        "Failed to fetch online users"
+      );
     }
-    return response.json();
+    return parseResponse(response, userListSchema);
   };
 
   // ================== CHAT INVITES ==================
@@ -735,9 +964,12 @@ export const useChatsApi = () => {
   ): Promise<{ inviteCode: string; url: string }> => {
     const response = await api.post(`/chats/${chatId}/invite`, options);
     if (!response.ok) {
-      throw new Error("Failed to create invite link");
+      throw await ApiRequestError.fromResponse(
+        response,
+        "Failed to create invite link"
+      );
     }
-    return response.json();
+    return parseResponse(response, inviteLinkSchema);
   };
 
   /**
@@ -746,20 +978,23 @@ export const useChatsApi = () => {
   const joinChatByInvite = async (inviteCode: string): Promise<Chat> => {
     const response = await api.post(`/chats/join/${inviteCode}`);
     if (!response.ok) {
-      throw new Error("Failed to join chat");
+      throw await ApiRequestError.fromResponse(response, "Failed to join chat");
     }
-    return response.json();
+    return parseResponse(response, chatSchema);
   };
 
   /**
    * Get active invite links for a chat
    */
-  const getInviteLinks = async (chatId: string): Promise<any[]> => {
+  const getInviteLinks = async (chatId: string): Promise<ChatInvite[]> => {
     const response = await api.get(`/chats/${chatId}/invites`);
     if (!response.ok) {
-      throw new Error("Failed to fetch invite links");
+      throw await ApiRequestError.fromResponse(
+        response,
+        "Failed to fetch invite links"
+      );
     }
-    return response.json();
+    return parseResponse(response, chatInviteListSchema);
   };
 
   /**
@@ -771,7 +1006,10 @@ export const useChatsApi = () => {
   ): Promise<void> => {
     const response = await api.delete(`/chats/${chatId}/invites/${inviteId}`);
     if (!response.ok) {
-      throw new Error("Failed to revoke invite link");
+      throw await ApiRequestError.fromResponse(
+        response,
+        "Failed to revoke invite link"
+      );
     }
   };
 
@@ -846,6 +1084,11 @@ export const useChatsApi = () => {
     getBlockedUsers,
     reportContent,
 
+    // Sessions
+    getSessions,
+    terminateSession,
+    terminateOtherSessions,
+
     // Online Status
     updateOnlineStatus,
     getOnlineUsers,
@@ -857,3 +1100,5 @@ export const useChatsApi = () => {
     revokeInviteLink,
   };
 };
+
+export const useChatsApi = (account?: Account) => createChatsApi(account);
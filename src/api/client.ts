@@ -0,0 +1,410 @@
+// api/client.ts
+import { config } from "../config";
+import { ApiRequestError, SessionExpiredError } from "./errors";
+import { getStoredAccount } from "../utils/accountStorage";
+import { refreshAccessToken } from "../utils/tokenRefresh";
+
+export interface RequestOptions extends RequestInit {
+  // Send as this signed-in account instead of the active one
+  accountId?: string;
+  // Send with this access token; a 401 is then returned as is
+  token?: string | null;
+  // Set to false for endpoints that don't take a user token (sign-in etc.)
+  auth?: boolean;
+  // Milliseconds per attempt before the request is aborted; 0 disables
+  timeout?: number;
+  // Extra attempts after a network error, timeout or retryable status.
+  // Defaults to 2 for idempotent methods and 0 for POST/PATCH.
+  retries?: number;
+}
+
+// What React Query hands to query functions; API methods accept it so that
+// unmounting or cancelling a query aborts its request
+export interface CancelOptions {
+  signal?: AbortSignal;
+}
+
+export interface ApiRequest {
+  url: string;
+  init: RequestInit & { headers: Headers };
+  options: RequestOptions;
+  // The access token the request is sent with, if any
+  token: string | null;
+}
+
+export type RequestInterceptor = (
+  request: ApiRequest
+) => ApiRequest | Promise<ApiRequest>;
+
+export type ResponseInterceptor = (
+  response: Response,
+  request: ApiRequest
+) => Response | Promise<Response>;
+
+type SessionExpiredHandler = (accountId?: string) => void;
+
+// What actually sends a request. window.fetch unless replaced (the fake
+// backend answers requests in the browser instead)
+export type Transport = (url: string, init: RequestInit) => Promise<Response>;
+
+const defaultTransport: Transport = (url, init) => fetch(url, init);
+
+const DEFAULT_TIMEOUT = 15000;
+const DEFAULT_RETRIES = 2;
+const RETRY_BASE_DELAY = 500;
+const RETRY_MAX_DELAY = 10000;
+// Wait at most this long for a server-requested Retry-After
+const RETRY_AFTER_MAX_DELAY = 30000;
+
+const IDEMPOTENT_METHODS = ["GET", "HEAD", "OPTIONS", "PUT", "DELETE"];
+const RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504];
+
+// Exponential backoff with jitter, so clients that failed together don't
+// all retry at the same moment
+const getBackoffDelay = (attempt: number) => {
+  const delay = Math.min(RETRY_MAX_DELAY, RETRY_BASE_DELAY * 2 ** attempt);
+  return delay / 2 + Math.random() * (delay / 2);
+};
+
+// Retry-After is either a number of seconds or an HTTP date
+const getRetryAfterDelay = (response: Response) => {
+  const header = response.headers.get("Retry-After");
+  if (!header) return null;
+
+  const seconds = Number(header);
+  const delay = Number.isNaN(seconds)
+    ? new Date(header).getTime() - Date.now()
+    : seconds * 1000;
+  return Number.isNaN(delay) ? null : Math.max(0, delay);
+};
+
+const sleep = (ms: number, signal?: AbortSignal | null) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+const isTimeoutError = (error: unknown) =>
+  error instanceof DOMException && error.name === "TimeoutError";
+
+/**
+ * Run one fetch attempt with its own timeout, still honouring the caller's
+ * signal. A timeout rejects with a TimeoutError, a cancel with the caller's
+ * abort reason.
+ */
+const fetchWithTimeout = async (
+  transport: Transport,
+  url: string,
+  init: RequestInit,
+  timeout: number
+) => {
+  const callerSignal = init.signal;
+  if (!timeout) {
+    return transport(url, init);
+  }
+
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(callerSignal?.reason);
+  if (callerSignal?.aborted) {
+    onAbort();
+  } else {
+    callerSignal?.addEventListener("abort", onAbort, { once: true });
+  }
+  const timer = setTimeout(
+    () =>
+      controller.abort(
+        new DOMException("The request timed out", "TimeoutError")
+      ),
+    timeout
+  );
+
+  try {
+    return await transport(url, { ...init, signal: controller.signal });
+  } catch (error) {
+    throw controller.signal.aborted ? controller.signal.reason : error;
+  } finally {
+    clearTimeout(timer);
+    callerSignal?.removeEventListener("abort", onAbort);
+  }
+};
+
+const toBody = (data: unknown): BodyInit | undefined => {
+  if (data === undefined || data === null) return undefined;
+  if (
+    data instanceof FormData ||
+    data instanceof Blob ||
+    data instanceof URLSearchParams
+  ) {
+    return data;
+  }
+  return JSON.stringify(data);
+};
+
+const getStoredToken = (accountId?: string) =>
+  accountId
+    ? getStoredAccount(accountId)?.token ?? null
+    : localStorage.getItem("token");
+
+export class HttpClient {
+  private baseUrl: string;
+  private requestInterceptors: RequestInterceptor[] = [];
+  private responseInterceptors: ResponseInterceptor[] = [];
+  private onSessionExpired?: SessionExpiredHandler;
+  private transport: Transport = defaultTransport;
+
+  constructor(baseUrl: string) {
+    this.baseUrl = baseUrl;
+  }
+
+  /**
+   * Run a hook on every outgoing request, in registration order. Returns a
+   * function that removes it again.
+   */
+  addRequestInterceptor(interceptor: RequestInterceptor) {
+    this.requestInterceptors.push(interceptor);
+    return () => {
+      this.requestInterceptors = this.requestInterceptors.filter(
+        (current) => current !== interceptor
+      );
+    };
+  }
+
+  /**
+   * Run a hook on every response, after expired tokens have been refreshed.
+   * Returns a function that removes it again.
+   */
+  addResponseInterceptor(interceptor: ResponseInterceptor) {
+    this.responseInterceptors.push(interceptor);
+    return () => {
+      this.responseInterceptors = this.responseInterceptors.filter(
+        (current) => current !== interceptor
+      );
+    };
+  }
+
+  /**
+   * Called when a request is still rejected after refreshing its token.
+   * AuthProvider owns it; pass undefined to unregister.
+   */
+  setSessionExpiredHandler(handler?: SessionExpiredHandler) {
+    this.onSessionExpired = handler;
+  }
+
+  /**
+   * Send requests through something other than fetch; pass undefined to go
+   * back to the network.
+   */
+  setTransport(transport?: Transport) {
+    this.transport = transport ?? defaultTransport;
+  }
+
+  private async send(endpoint: string, options: RequestOptions) {
+    const {
+      accountId,
+      token: explicitToken,
+      auth = true,
+      timeout = DEFAULT_TIMEOUT,
+      retries,
+      headers,
+      ...init
+    } = options;
+    let token: string | null = null;
+    if (auth) {
+      token =
+        explicitToken !== undefined ? explicitToken : getStoredToken(accountId);
+    }
+
+    const requestHeaders = new Headers(headers);
+    requestHeaders.set("x-app-token", config.appToken);
+    if (typeof init.body === "string" && !requestHeaders.has("Content-Type")) {
+      requestHeaders.set("Content-Type", "application/json");
+    }
+    if (token) {
+      requestHeaders.set("Authorization", `Bearer ${token}`);
+      requestHeaders.set("x-user-token", token);
+    }
+
+    let request: ApiRequest = {
+      url: `${this.baseUrl}${endpoint}`,
+      init: { ...init, headers: requestHeaders },
+      options,
+      token,
+    };
+    for (const interceptor of this.requestInterceptors) {
+      request = await interceptor(request);
+    }
+
+    const response = await this.fetchWithRetry(request, timeout, retries);
+    return { request, response };
+  }
+
+  /**
+   * Send a request, retrying network errors, timeouts and retryable statuses.
+   * Only idempotent methods are retried by default, except for 429: a
+   * rate-limited request was never processed, so any method may resend it.
+   */
+  private async fetchWithRetry(
+    request: ApiRequest,
+    timeout: number,
+    retries?: number
+  ): Promise<Response> {
+    const method = (request.init.method ?? "GET").toUpperCase();
+    const isIdempotent = IDEMPOTENT_METHODS.includes(method);
+    const maxRetries = retries ?? (isIdempotent ? DEFAULT_RETRIES : 0);
+    const signal = request.init.signal;
+
+    for (let attempt = 0; ; attempt++) {
+      const canRetry = attempt < maxRetries;
+      let response: Response;
+      try {
+        response = await fetchWithTimeout(
+          this.transport,
+          request.url,
+          request.init,
+          timeout
+        );
+      } catch (error) {
+        if (signal?.aborted || !canRetry) {
+          if (isTimeoutError(error)) {
+            throw new ApiRequestError(
+              "The request timed out. Check your connection and try again.",
+              0,
+              { code: "timeout" }
+            );
+          }
+          throw error;
+        }
+        await sleep(getBackoffDelay(attempt), signal);
+        continue;
+      }
+
+      const isRetryableStatus =
+        RETRYABLE_STATUSES.includes(response.status) &&
+        (isIdempotent || response.status === 429);
+      if (!canRetry || !isRetryableStatus) {
+        return response;
+      }
+
+      let delay = getBackoffDelay(attempt);
+      if (response.status === 429 || response.status === 503) {
+        const retryAfter = getRetryAfterDelay(response);
+        if (retryAfter !== null) {
+          // Don't keep the caller waiting on a long server-side backoff
+          if (retryAfter > RETRY_AFTER_MAX_DELAY) return response;
+          delay = retryAfter;
+        }
+      }
+      await sleep(delay, signal);
+    }
+  }
+
+  async request(
+    endpoint: string,
+    options: RequestOptions = {}
+  ): Promise<Response> {
+    let { request, response } = await this.send(endpoint, options);
+
+    // Handle token expiration: refresh once, then replay the request
+    if (
+      response.status === 401 &&
+      request.token &&
+      options.auth !== false &&
+      options.token === undefined
+    ) {
+      const newToken = await refreshAccessToken(
+        request.token,
+        options.accountId
+      );
+      if (!newToken) {
+        throw new SessionExpiredError();
+      }
+
+      ({ request, response } = await this.send(endpoint, {
+        ...options,
+        token: newToken,
+      }));
+      if (response.status === 401) {
+        this.onSessionExpired?.(options.accountId);
+        throw new SessionExpiredError();
+      }
+    }
+
+    for (const interceptor of this.responseInterceptors) {
+      response = await interceptor(response, request);
+    }
+    return response;
+  }
+
+  // Convenience methods
+  get(endpoint: string, options?: RequestOptions) {
+    return this.request(endpoint, { ...options, method: "GET" });
+  }
+
+  post(endpoint: string, data?: unknown, options?: RequestOptions) {
+    return this.request(endpoint, {
+      ...options,
+      method: "POST",
+      body: toBody(data),
+    });
+  }
+
+  put(endpoint: string, data?: unknown, options?: RequestOptions) {
+    return this.request(endpoint, {
+      ...options,
+      method: "PUT",
+      body: toBody(data),
+    });
+  }
+
+  patch(endpoint: string, data?: unknown, options?: RequestOptions) {
+    return this.request(endpoint, {
+      ...options,
+      method: "PATCH",
+      body: toBody(data),
+    });
+  }
+
+  delete(endpoint: string, options?: RequestOptions) {
+    return this.request(endpoint, { ...options, method: "DELETE" });
+  }
+
+  /**
+   * The same methods with a default account, so API modules can be written
+   * once and used for any signed-in account.
+   */
+  forAccount(accountId?: string) {
+    const withAccount = (options?: RequestOptions) => ({
+      accountId,
+      ...options,
+    });
+
+    return {
+      get: (endpoint: string, options?: RequestOptions) =>
+        this.get(endpoint, withAccount(options)),
+      post: (endpoint: string, data?: unknown, options?: RequestOptions) =>
+        this.post(endpoint, data, withAccount(options)),
+      put: (endpoint: string, data?: unknown, options?: RequestOptions) =>
+        this.put(endpoint, data, withAccount(options)),
+      patch: (endpoint: string, data?: unknown, options?: RequestOptions) =>
+        this.patch(endpoint, data, withAccount(options)),
+      delete: (endpoint: string, options?: RequestOptions) =>
+        this.delete(endpoint, withAccount(options)),
+      apiCall: (endpoint: string, options?: RequestOptions) =>
+        this.request(endpoint, withAccount(options)),
+    };
+  }
+}
+
+// Shared instance for hooks and plain modules alike
+export const apiClient = new HttpClient(config.apiBaseUrl);
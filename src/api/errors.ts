@@ -0,0 +1,151 @@
+// api/errors.ts
+import { ApiError } from "../types";
+
+type FieldErrorEntry = { field?: string; property?: string; message?: string };
+
+/**
+ * A failed API request. Carries the HTTP status and whatever the server said
+ * about the failure; `fieldErrors` maps form fields to their messages.
+ */
+export class ApiRequestError extends Error implements ApiError {
+  status: number;
+  code?: string;
+  field?: string;
+  details?: unknown;
+  fieldErrors: Record<string, string>;
+
+  constructor(
+    message: string,
+    status: number,
+    error: Omit<ApiError, "message"> & {
+      fieldErrors?: Record<string, string>;
+    } = {}
+  ) {
+    super(message);
+    this.name = "ApiRequestError";
+    this.status = status;
+    this.code = error.code;
+    this.field = error.field;
+    this.details = error.details;
+    this.fieldErrors = error.fieldErrors ?? {};
+    if (this.field && !this.fieldErrors[this.field]) {
+      this.fieldErrors[this.field] = message;
+    }
+  }
+
+  /**
+   * Build an error from a non-OK response. Understands `{ message, code,
+   * field, details }` as well as validation bodies that list field errors in
+   * `errors` or `details`, or send `message` as an array of strings.
+   */
+  static async fromResponse(
+    response: Response,
+    fallbackMessage: string
+  ): Promise<ApiRequestError> {
+    let body: Record<string, unknown> = {};
+    try {
+      body = (await response.json()) ?? {};
+    } catch {
+      // Empty or non-JSON body (proxy error page etc.)
+    }
+
+    const fieldErrors: Record<string, string> = {};
+    const entries = [body.errors, body.details].find(Array.isArray) as
+      | FieldErrorEntry[]
+      | undefined;
+    entries?.forEach((entry) => {
+      const field = entry?.field ?? entry?.property;
+      if (field && entry.message && !fieldErrors[field]) {
+        fieldErrors[field] = entry.message;
+      }
+    });
+
+    const rawMessage = body.message;
+    const message = Array.isArray(rawMessage)
+      ? rawMessage.join(". ")
+      : typeof rawMessage === "string" && rawMessage
+      ? rawMessage
+      : fallbackMessage;
+
+    return new ApiRequestError(message, response.status, {
+      code: typeof body.code === "string" ? body.code : undefined,
+      field: typeof body.field === "string" ? body.field : undefined,
+      details: body.details,
+      fieldErrors,
+    });
+  }
+}
+
+/**
+ * A request the server turned down because the session is over: the access
+ * token was rejected and couldn't be refreshed. The account is signed out.
+ */
+export class SessionExpiredError extends ApiRequestError {
+  constructor() {
+    super("Session expired. Please login again.", 401, {
+      code: "session_expired",
+    });
+    this.name = "SessionExpiredError";
+  }
+}
+
+/**
+ * The server answered, but not in the shape this app expects. `issues` lists
+ * what didn't match, with paths into the payload.
+ */
+export class ContractError extends Error {
+  source: string;
+  issues: { path: (string | number)[]; message: string }[];
+
+  constructor(
+    source: string,
+    issues: { path: (string | number)[]; message: string }[]
+  ) {
+    const summary = issues
+      .slice(0, 3)
+      .map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+      .join("; ");
+    super(`Unexpected data from ${source}: ${summary}`);
+    this.name = "ContractError";
+    this.source = source;
+    this.issues = issues;
+  }
+}
+
+export const isApiRequestError = (error: unknown): error is ApiRequestError =>
+  error instanceof ApiRequestError;
+
+/**
+ * A message for showing an error to the user: says what went wrong and, where
+ * possible, what to do about it.
+ */
+export const describeError = (error: unknown): string => {
+  if (isApiRequestError(error)) {
+    if (error.status === 403) {
+      return "You don't have permission to do that.";
+    }
+    if (error.status === 404) {
+      return "It no longer exists. Refresh and try again.";
+    }
+    if (error.status === 413) {
+      return "The file is too large to upload.";
+    }
+    if (error.status === 429) {
+      return "Too many requests. Wait a moment and try again.";
+    }
+    if (error.status >= 500) {
+      return "The server ran into a problem. Try again in a moment.";
+    }
+    return error.message;
+  }
+  if (error instanceof ContractError) {
+    return "The server sent data this version of the app doesn't understand. Try reloading the page.";
+  }
+  if (error instanceof TypeError) {
+    // fetch rejects with a TypeError when the request never got a response
+    return "Can't reach the server. Check your connection and try again.";
+  }
+  return error instanceof Error && error.message
+    ? error.message
+    : "Something went wrong. Please try again.";
+};
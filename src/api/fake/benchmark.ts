@@ -0,0 +1,171 @@
+// api/fake/benchmark.ts
+import { FakeServer } from "./server";
+import { SeedOptions } from "./seed";
+
+// Frame times while scrolling a very long chat, held to a budget. In the
+// browser: open the app with `?fakeBackend&benchmark` to seed one, open it,
+// then run `fakeBackend.measureScrolling()` from the console; it rejects
+// when the frames go over SCROLL_BUDGET. `yarn benchmark`
+// (scripts/benchmark-scroll.mjs) holds the list's own work per frame to
+// WINDOWING_BUDGET in Node, without a browser.
+
+export const BENCHMARK_MESSAGES = 50_000;
+
+export interface ScrollBenchmarkOptions {
+  // Page in the chat's whole history before measuring
+  loadAll?: boolean;
+  // How long to scroll for, in milliseconds
+  duration?: number;
+  // Scrolling speed, upwards, wrapping round to the bottom at the top
+  pixelsPerFrame?: number;
+  budget?: FrameBudget;
+}
+
+export interface FrameBudget {
+  p95Ms: number;
+  maxMs: number;
+}
+
+export interface FrameStats {
+  frames: number;
+  averageMs: number;
+  p50Ms: number;
+  p95Ms: number;
+  p99Ms: number;
+  maxMs: number;
+  // Frames that took longer than a 60Hz display has between two
+  slowFrames: number;
+}
+
+export interface ScrollBenchmarkResult extends FrameStats {
+  // How many messages were in the DOM at the end
+  renderedRows: number;
+}
+
+// Steady scrolling on a 60Hz display: nearly every frame on time, and no
+// hitch longer than three of them
+export const SCROLL_BUDGET: FrameBudget = { p95Ms: 20, maxMs: 50 };
+
+// The list's own work in a frame (finding the rows in view, laying out the
+// ones just measured), which has to leave nearly all of it to React and
+// the browser
+export const WINDOWING_BUDGET: FrameBudget = { p95Ms: 2, maxMs: 8 };
+
+// A 60Hz frame, with some slack for timer jitter
+const SLOW_FRAME = 25;
+// Frames in a row without a new page before the history counts as loaded
+const SETTLE_FRAMES = 30;
+
+/**
+ * `?benchmark` in the page URL seeds a chat with 50,000 messages;
+ * `?benchmark=N` with N.
+ */
+export const benchmarkOptionsFromUrl = (): SeedOptions => {
+  const value = new URLSearchParams(window.location.search).get("benchmark");
+  if (value === null) return {};
+  return { benchmarkMessages: Number(value) || BENCHMARK_MESSAGES };
+};
+
+const nextFrame = () =>
+  new Promise<number>((resolve) => requestAnimationFrame(resolve));
+
+const percentile = (sorted: number[], fraction: number) =>
+  sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * fraction))];
+
+const round = (ms: number) => Math.round(ms * 100) / 100;
+
+export const summarizeFrames = (times: number[]): FrameStats => {
+  const sorted = [...times].sort((a, b) => a - b);
+  return {
+    frames: times.length,
+    averageMs: round(times.reduce((sum, ms) => sum + ms, 0) / times.length),
+    p50Ms: round(percentile(sorted, 0.5)),
+    p95Ms: round(percentile(sorted, 0.95)),
+    p99Ms: round(percentile(sorted, 0.99)),
+    maxMs: round(sorted[sorted.length - 1]),
+    slowFrames: times.filter((ms) => ms > SLOW_FRAME).length,
+  };
+};
+
+/**
+ * What went over the budget, e.g. "p95 24.1ms > 20ms". Empty when the
+ * frames kept to it.
+ */
+export const overBudget = (stats: FrameStats, budget: FrameBudget) => {
+  const failures: string[] = [];
+  if (stats.p95Ms > budget.p95Ms) {
+    failures.push(`p95 ${stats.p95Ms}ms > ${budget.p95Ms}ms`);
+  }
+  if (stats.maxMs > budget.maxMs) {
+    failures.push(`worst ${stats.maxMs}ms > ${budget.maxMs}ms`);
+  }
+  return failures;
+};
+
+// Keep scrolling to the top, where the chat loads older pages, until they
+// stop coming
+const loadHistory = async (list: HTMLElement) => {
+  let height = list.scrollHeight;
+  let unchanged = 0;
+  while (unchanged < SETTLE_FRAMES) {
+    list.scrollTop = 0;
+    await nextFrame();
+    if (list.scrollHeight === height) {
+      unchanged++;
+    } else {
+      height = list.scrollHeight;
+      unchanged = 0;
+    }
+  }
+};
+
+/**
+ * Scroll the open chat's messages for a while and report how long the
+ * frames took, and how many rows ended up in the DOM. Rejects when the p95
+ * or the worst frame goes over the budget.
+ */
+export const measureScrolling = async (
+  server: FakeServer,
+  {
+    loadAll = true,
+    duration = 10_000,
+    pixelsPerFrame = 40,
+    budget = SCROLL_BUDGET,
+  }: ScrollBenchmarkOptions = {}
+): Promise<ScrollBenchmarkResult> => {
+  const list = document.querySelector<HTMLElement>("[data-message-list]");
+  if (!list) throw new Error("Open a chat before measuring scrolling");
+
+  if (loadAll) {
+    const { latency } = server;
+    server.latency = 0;
+    try {
+      await loadHistory(list);
+    } finally {
+      server.latency = latency;
+    }
+  }
+
+  list.scrollTop = list.scrollHeight;
+  const times: number[] = [];
+  let last = await nextFrame();
+  const end = last + duration;
+  while (last < end) {
+    list.scrollTop =
+      list.scrollTop > 0 ? list.scrollTop - pixelsPerFrame : list.scrollHeight;
+    const now = await nextFrame();
+    times.push(now - last);
+    last = now;
+  }
+
+  const result: ScrollBenchmarkResult = {
+    ...summarizeFrames(times),
+    renderedRows: list.querySelectorAll("[data-row-key]").length,
+  };
+  console.table(result);
+  const failures = overBudget(result, budget);
+  if (failures.length) {
+    throw new Error(`Scrolling went over its budget: ${failures.join(", ")}`);
+  }
+  return result;
+};
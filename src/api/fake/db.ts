@@ -0,0 +1,252 @@
+// api/fake/db.ts
+import {
+  Chat,
+  ChatInvite,
+  ChatSettings,
+  Message,
+  MessageAttachment,
+  Session,
+  User,
+} from "../../types";
+
+// The fake backend's data. Records are stored the way a server would keep
+// them; `toChat` and `toMessage` turn them into what the API returns to a
+// given user.
+
+export interface ChatRecord {
+  id: string;
+  type: "direct" | "group";
+  name?: string;
+  description?: string;
+  participantIds: string[];
+  adminIds: string[];
+  createdAt: string;
+  updatedAt: string;
+  // Per-user state
+  pinnedBy: Set<string>;
+  archivedBy: Set<string>;
+  mutedUntil: Map<string, string | undefined>; // undefined = until unmuted
+  settings: Map<string, ChatSettings>;
+  invites: ChatInvite[];
+}
+
+export interface SessionRecord extends Omit<Session, "isCurrent"> {
+  userId: string;
+}
+
+export interface UploadRecord {
+  id: string;
+  userId: string;
+  chatId: string;
+  filename: string;
+  size: number;
+  mimeType: string;
+  type: MessageAttachment["type"];
+  chunkSize: number;
+  chunks: Map<number, Blob>;
+}
+
+export interface TwoFactorRecord {
+  secret: string;
+  enabled: boolean;
+  backupCodes: string[];
+}
+
+export const DEFAULT_CHAT_SETTINGS: ChatSettings = {
+  notifications: true,
+  sound: true,
+  preview: true,
+};
+
+export const now = () => new Date().toISOString();
+
+export class FakeDb {
+  users = new Map<string, User>();
+  passwords = new Map<string, string>(); // user id -> password
+  chats = new Map<string, ChatRecord>();
+  messages = new Map<string, Message[]>(); // chat id -> oldest first
+  blocked = new Map<string, Set<string>>(); // user id -> blocked user ids
+  sessions = new Map<string, SessionRecord>();
+  twoFactor = new Map<string, TwoFactorRecord>();
+  uploads = new Map<string, UploadRecord>();
+  attachments = new Map<string, Omit<MessageAttachment, "messageId">>();
+  reports: unknown[] = [];
+
+  private counter = 0;
+
+  nextId(prefix: string) {
+    return `${prefix}${++this.counter}`;
+  }
+
+  findUser(predicate: (user: User) => boolean) {
+    return [...this.users.values()].find(predicate);
+  }
+
+  chatsFor(userId: string) {
+    return [...this.chats.values()].filter((chat) =>
+      chat.participantIds.includes(userId)
+    );
+  }
+
+  messagesOf(chatId: string) {
+    let messages = this.messages.get(chatId);
+    if (!messages) {
+      messages = [];
+      this.messages.set(chatId, messages);
+    }
+    return messages;
+  }
+
+  findMessage(messageId: string) {
+    for (const [chatId, messages] of this.messages) {
+      const message = messages.find((current) => current.id === messageId);
+      if (message) return { chatId, message };
+    }
+    return undefined;
+  }
+
+  findDirectChat(userId: string, otherUserId: string) {
+    return this.chatsFor(userId).find(
+      (chat) =>
+        chat.type === "direct" && chat.participantIds.includes(otherUserId)
+    );
+  }
+
+  createChat(
+    fields: Pick<ChatRecord, "type" | "participantIds"> &
+      Partial<Pick<ChatRecord, "name" | "description" | "adminIds">>,
+    createdAt = now()
+  ): ChatRecord {
+    const chat: ChatRecord = {
+      id: this.nextId("c"),
+      adminIds: [],
+      ...fields,
+      createdAt,
+      updatedAt: createdAt,
+      pinnedBy: new Set(),
+      archivedBy: new Set(),
+      mutedUntil: new Map(),
+      settings: new Map(),
+      invites: [],
+    };
+    this.chats.set(chat.id, chat);
+    this.messages.set(chat.id, []);
+    return chat;
+  }
+
+  addMessage(
+    chatId: string,
+    senderId: string,
+    fields: Partial<Omit<Message, "chatId" | "senderId">>
+  ): Message {
+    const chat = this.chats.get(chatId)!;
+    const createdAt = fields.createdAt ?? now();
+    const message: Message = {
+      id: this.nextId("m"),
+      chatId,
+      senderId,
+      text: "",
+      type: "text",
+      isRead: false,
+      readBy: [senderId],
+      ...fields,
+      createdAt,
+    };
+    if (chat.type === "direct") {
+      message.receiverId = chat.participantIds.find((id) => id !== senderId);
+    }
+    this.messagesOf(chatId).push(message);
+    chat.updatedAt = createdAt;
+    return message;
+  }
+
+  // Mark every message in a chat that a user didn't send as having reached
+  // them. Returns the messages that changed.
+  markDelivered(chatId: string, userId: string) {
+    return this.messagesOf(chatId).filter((message) => {
+      if (
+        message.senderId === userId ||
+        message.deliveredTo?.includes(userId)
+      ) {
+        return false;
+      }
+      message.deliveredTo = [...(message.deliveredTo ?? []), userId];
+      return true;
+    });
+  }
+
+  // Mark everything in a chat up to and including a message (or everything)
+  // as read by a user. Returns the messages that changed.
+  markRead(chatId: string, userId: string, upToMessageId?: string) {
+    const changed: Message[] = [];
+    for (const message of this.messagesOf(chatId)) {
+      if (
+        message.senderId !== userId &&
+        !message.deliveredTo?.includes(userId)
+      ) {
+        message.deliveredTo = [...(message.deliveredTo ?? []), userId];
+      }
+      if (!message.readBy?.includes(userId)) {
+        message.readBy = [...(message.readBy ?? []), userId];
+        message.isRead = message.readBy.some((id) => id !== message.senderId);
+        changed.push(message);
+      }
+      if (message.id === upToMessageId) break;
+    }
+    return changed;
+  }
+
+  toMessage = (message: Message): Message => {
+    const replyTo = message.replyToId
+      ? this.findMessage(message.replyToId)?.message
+      : undefined;
+    return {
+      ...message,
+      sender: this.users.get(message.senderId),
+      replyTo: replyTo && {
+        ...replyTo,
+        sender: this.users.get(replyTo.senderId),
+      },
+    };
+  };
+
+  toChat(chat: ChatRecord, viewerId: string): Chat {
+    const messages = this.messagesOf(chat.id).filter(
+      (message) => !message.deletedAt
+    );
+    const lastMessage = messages[messages.length - 1];
+    const mutedUntil = chat.mutedUntil.get(viewerId);
+    const isMuted =
+      chat.mutedUntil.has(viewerId) &&
+      (!mutedUntil || new Date(mutedUntil).getTime() > Date.now());
+
+    return {
+      id: chat.id,
+      name: chat.name,
+      description: chat.description,
+      type: chat.type,
+      participants: chat.participantIds
+        .map((id) => this.users.get(id))
+        .filter((user): user is User => !!user),
+      lastMessage: lastMessage && this.toMessage(lastMessage),
+      unreadCount: messages.filter(
+        (message) =>
+          message.senderId !== viewerId && !message.readBy?.includes(viewerId)
+      ).length,
+      createdAt: chat.createdAt,
+      updatedAt: chat.updatedAt,
+      isArchived: chat.archivedBy.has(viewerId),
+      isPinned: chat.pinnedBy.has(viewerId),
+      isMuted,
+      muteUntil: isMuted ? mutedUntil : undefined,
+      settings: chat.settings.get(viewerId) ?? DEFAULT_CHAT_SETTINGS,
+      adminIds: chat.type === "group" ? chat.adminIds : undefined,
+      metadata: {
+        messageCount: messages.length,
+        mediaCount: messages.filter((message) => message.attachments?.length)
+          .length,
+        memberCount: chat.participantIds.length,
+      },
+    };
+  }
+}
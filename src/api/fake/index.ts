@@ -0,0 +1,177 @@
+// api/fake/index.ts
+import { apiClient } from "../client";
+import { setSocketFactory } from "../socket";
+import { FakeServer, FakeServerOptions } from "./server";
+import { createFakeSocket } from "./socket";
+import { DEMO_ACCOUNT, SeedOptions } from "./seed";
+import {
+  benchmarkOptionsFromUrl,
+  measureScrolling,
+  ScrollBenchmarkOptions,
+} from "./benchmark";
+
+// An in-browser backend for demos, UI work and integration tests. Once
+// installed, every API request and socket connection is answered here
+// instead of by the server. Turn it on with `fakeBackend` in config.
+
+// One step of a script; `wait` pauses, everything else acts immediately
+export type ScriptStep =
+  | { wait: number }
+  | { reply: { chatId: string; userId?: string; text?: string } }
+  | { typing: { chatId: string; userId: string; ms?: number } }
+  | { online: string }
+  | { offline: string }
+  | { dropConnection: true }
+  | { network: "online" | "offline" }
+  | { revokeSession: string };
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * What the console (as `window.fakeBackend`) and tests use to drive the fake
+ * backend: make people reply, come and go, drop the connection or fail
+ * requests.
+ */
+export class FakeBackendControls {
+  constructor(readonly server: FakeServer) {}
+
+  get demoAccount() {
+    return DEMO_ACCOUNT;
+  }
+
+  // Who and what is in the database, for finding ids to script with
+  list() {
+    const { db } = this.server;
+    console.table(
+      [...db.users.values()].map(({ id, username, email, isOnline }) => ({
+        id,
+        username,
+        email,
+        isOnline,
+      }))
+    );
+    console.table(
+      [...db.chats.values()].map((chat) => ({
+        id: chat.id,
+        type: chat.type,
+        name:
+          chat.name ??
+          chat.participantIds
+            .map((id) => db.users.get(id)?.username)
+            .join(" & "),
+        messages: db.messagesOf(chat.id).length,
+      }))
+    );
+  }
+
+  reply(
+    chatId: string,
+    options: { userId?: string; text?: string; typingMs?: number } = {}
+  ) {
+    return this.server.simulateReply(chatId, options);
+  }
+
+  async typing(chatId: string, userId: string, ms = 3000) {
+    this.server.setTyping(userId, chatId, true);
+    await wait(ms);
+    this.server.setTyping(userId, chatId, false);
+  }
+
+  setOnline(userId: string, isOnline = true) {
+    this.server.setOnline(userId, isOnline);
+  }
+
+  // Drop every socket; they reconnect after a second
+  dropConnection() {
+    this.server.dropConnections();
+  }
+
+  // Take the whole network down (requests fail, sockets can't connect) or
+  // bring it back
+  setNetwork(isOnline: boolean) {
+    this.server.networkOnline = isOnline;
+    if (!isOnline) this.server.dropConnections("transport error");
+  }
+
+  revokeSession(sessionId: string) {
+    this.server.revokeSession(sessionId);
+  }
+
+  // e.g. failNext("GET /chats", 503, 2)
+  failNext(pattern: string | RegExp, status = 500, times = 1) {
+    this.server.failNext(pattern, status, times);
+  }
+
+  set latency(ms: number) {
+    this.server.latency = ms;
+  }
+
+  get latency() {
+    return this.server.latency;
+  }
+
+  set autoReply(enabled: boolean) {
+    this.server.autoReply = enabled;
+  }
+
+  get autoReply() {
+    return this.server.autoReply;
+  }
+
+  reset(options?: SeedOptions) {
+    this.server.reset(options);
+  }
+
+  // Frame times while scrolling the open chat; see benchmark.ts
+  measureScrolling(options?: ScrollBenchmarkOptions) {
+    return measureScrolling(this.server, options);
+  }
+
+  /**
+   * Play steps one after another, e.g.
+   * run([{ online: "u2" }, { wait: 500 }, { reply: { chatId: "c1" } }])
+   */
+  async run(steps: ScriptStep[]) {
+    for (const step of steps) {
+      if ("wait" in step) await wait(step.wait);
+      else if ("reply" in step) await this.reply(step.reply.chatId, step.reply);
+      else if ("typing" in step) {
+        await this.typing(
+          step.typing.chatId,
+          step.typing.userId,
+          step.typing.ms
+        );
+      } else if ("online" in step) this.setOnline(step.online, true);
+      else if ("offline" in step) this.setOnline(step.offline, false);
+      else if ("dropConnection" in step) this.dropConnection();
+      else if ("network" in step) this.setNetwork(step.network === "online");
+      else if ("revokeSession" in step) this.revokeSession(step.revokeSession);
+    }
+  }
+}
+
+declare global {
+  interface Window {
+    fakeBackend?: FakeBackendControls;
+  }
+}
+
+/**
+ * Route the API client and sockets to a new fake backend. Returns its
+ * controls, which are also put on `window.fakeBackend`.
+ */
+export const installFakeBackend = (options: FakeServerOptions = {}) => {
+  const server = new FakeServer({ ...benchmarkOptionsFromUrl(), ...options });
+  apiClient.setTransport(server.fetch);
+  setSocketFactory((socketOptions) => createFakeSocket(server, socketOptions));
+
+  const controls = new FakeBackendControls(server);
+  window.fakeBackend = controls;
+  console.info(
+    `[fake backend] installed. Sign in as ${DEMO_ACCOUNT.email} / ${DEMO_ACCOUNT.password}; window.fakeBackend scripts it.`
+  );
+  return controls;
+};
+
+export { FakeServer } from "./server";
+export { DEMO_ACCOUNT } from "./seed";
@@ -0,0 +1,1040 @@
+// api/fake/routes.ts
+import { ChatSettings, Message, User } from "../../types";
+import type { FakeServer } from "./server";
+import { ChatRecord, DEFAULT_CHAT_SETTINGS, now } from "./db";
+
+// The REST endpoints of the fake backend: everything api/chats.ts, api/auth.ts,
+// api/uploads.ts and AuthProvider call. Routes are "METHOD /path" with
+// ":name" segments, like scripts/stub-server.mjs.
+
+// [status, body, content type for non-JSON bodies]
+export type RouteResult = [number, unknown?, string?];
+
+interface RouteContext {
+  params: Record<string, string>;
+  query: URLSearchParams;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  body: any;
+  // Only missing on PUBLIC_ROUTES
+  user: User;
+  sessionId: string;
+}
+
+type Handler = (context: RouteContext) => RouteResult | Promise<RouteResult>;
+
+interface RequestContext {
+  query: URLSearchParams;
+  body: unknown;
+  session?: { user: User; sessionId: string };
+}
+
+const PUBLIC_ROUTES = [
+  "POST /auth/signup",
+  "POST /auth/signin",
+  "POST /auth/phone/request-code",
+  "POST /auth/phone/verify",
+  "POST /auth/2fa/verify",
+  "POST /auth/refresh",
+];
+
+const E164_PATTERN = /^\+[1-9]\d{1,14}$/;
+const DEFAULT_PAGE_SIZE = 50;
+const UPLOAD_CHUNK_SIZE = 1024 * 1024;
+// The only authenticator code the fake accepts
+const TOTP_CODE = "123456";
+
+const notFound = (what: string): RouteResult => [
+  404,
+  { message: `${what} not found` },
+];
+const forbidden = (message = "You can't do that in this chat"): RouteResult => [
+  403,
+  { message },
+];
+
+const randomCode = (length: number) =>
+  Array.from({ length }, () => Math.floor(Math.random() * 10)).join("");
+
+const matches = (text: string | undefined, query: string) =>
+  !!text && text.toLowerCase().includes(query.toLowerCase());
+
+export const createRoutes = (server: FakeServer) => {
+  // Reads server.db on every call: reset() swaps the database
+  const db = () => server.db;
+
+  const chatOf = ({ params, user }: RouteContext) => {
+    const chat = db().chats.get(params.chatId);
+    return chat?.participantIds.includes(user.id) ? chat : undefined;
+  };
+
+  const chatsOf = (user: User, filter: (chat: ChatRecord) => boolean) =>
+    db()
+      .chatsFor(user.id)
+      .filter(filter)
+      .map((chat) => db().toChat(chat, user.id))
+      .sort(
+        (a, b) =>
+          Number(!!b.isPinned) - Number(!!a.isPinned) ||
+          (b.lastMessage?.createdAt ?? b.updatedAt).localeCompare(
+            a.lastMessage?.createdAt ?? a.updatedAt
+          )
+      );
+
+  const searchPage = (messages: Message[], query: URLSearchParams) => {
+    const limit = Number(query.get("limit")) || DEFAULT_PAGE_SIZE;
+    const offset = Number(query.get("offset")) || 0;
+    const newestFirst = [...messages].reverse();
+    return {
+      messages: newestFirst.slice(offset, offset + limit).map(db().toMessage),
+      total: newestFirst.length,
+      hasMore: offset + limit < newestFirst.length,
+    };
+  };
+
+  const signInResponse = (user: User) => {
+    const twoFactor = db().twoFactor.get(user.id);
+    if (twoFactor?.enabled) {
+      return {
+        twoFactorRequired: true,
+        challengeToken: `challenge.${user.id}`,
+        methods: ["totp", "backup_code"],
+      };
+    }
+    return { ...server.issueTokens(user.id), user };
+  };
+
+  const phoneCodes = new Map<string, { code: string; expiresAt: number }>();
+
+  const routes: Record<string, Handler> = {
+    // ================== AUTH ==================
+
+    "POST /auth/signup": ({ body }) => {
+      const { username, email, phone, password } = body ?? {};
+      if (!username || !email || !password) {
+        return [400, { message: "Username, email and password are required" }];
+      }
+      if (db().findUser((user) => user.email === email)) {
+        return [
+          409,
+          { message: "Email is already registered", field: "email" },
+        ];
+      }
+      const user: User = {
+        id: db().nextId("u"),
+        username,
+        email,
+        phone: phone || undefined,
+        createdAt: now(),
+        updatedAt: now(),
+      };
+      db().users.set(user.id, user);
+      db().passwords.set(user.id, password);
+      return [201, user];
+    },
+
+    "POST /auth/signin": ({ body }) => {
+      const user = db().findUser((current) => current.email === body?.email);
+      if (!user || db().passwords.get(user.id) !== body?.password) {
+        return [401, { message: "Invalid email or password" }];
+      }
+      return [200, signInResponse(user)];
+    },
+
+    "POST /auth/phone/request-code": ({ body }) => {
+      const phone: string = body?.phone ?? "";
+      if (!E164_PATTERN.test(phone)) {
+        return [400, { message: "Invalid phone number", field: "phone" }];
+      }
+      const code = randomCode(5);
+      phoneCodes.set(phone, { code, expiresAt: Date.now() + 300 * 1000 });
+      console.info(`[fake backend] sign-in code for ${phone}: ${code}`);
+      return [200, { resendIn: 30, expiresIn: 300 }];
+    },
+
+    "POST /auth/phone/verify": ({ body }) => {
+      const pending = phoneCodes.get(body?.phone);
+      if (!pending || pending.expiresAt < Date.now()) {
+        return [400, { message: "The code has expired", field: "code" }];
+      }
+      if (pending.code !== body.code) {
+        return [400, { message: "Invalid code", field: "code" }];
+      }
+      phoneCodes.delete(body.phone);
+
+      let user = db().findUser((current) => current.phone === body.phone);
+      if (!user) {
+        user = {
+          id: db().nextId("u"),
+          username: `User ${body.phone.slice(-4)}`,
+          email: "",
+          phone: body.phone,
+          createdAt: now(),
+          updatedAt: now(),
+        };
+        db().users.set(user.id, user);
+      }
+      return [200, signInResponse(user)];
+    },
+
+    "POST /auth/2fa/verify": ({ body }) => {
+      const userId = String(body?.challengeToken ?? "").replace(
+        /^challenge\./,
+        ""
+      );
+      const user = db().users.get(userId);
+      const twoFactor = db().twoFactor.get(userId);
+      if (!user || !twoFactor) {
+        return [400, { message: "The sign-in attempt has expired" }];
+      }
+      if (body.method === "backup_code") {
+        if (!twoFactor.backupCodes.includes(body.code)) {
+          return [400, { message: "Invalid backup code", field: "code" }];
+        }
+        twoFactor.backupCodes = twoFactor.backupCodes.filter(
+          (code) => code !== body.code
+        );
+      } else if (body.code !== TOTP_CODE) {
+        return [400, { message: "Invalid code", field: "code" }];
+      }
+      return [200, { ...server.issueTokens(user.id), user }];
+    },
+
+    "GET /auth/validate": ({ user }) => [200, { user }],
+
+    "POST /auth/refresh": ({ body }) => {
+      const tokens = server.refreshTokens(body?.refresh_token);
+      return tokens
+        ? [200, tokens]
+        : [401, { message: "Invalid refresh token" }];
+    },
+
+    "PATCH /users/me": ({ user, body }) => {
+      const { username, email, phone, bio, avatar, status } = body ?? {};
+      Object.assign(
+        user,
+        Object.fromEntries(
+          Object.entries({
+            username,
+            email,
+            phone,
+            bio,
+            avatar,
+            status,
+          }).filter(([, value]) => value !== undefined)
+        ),
+        { updatedAt: now() }
+      );
+      return [200, user];
+    },
+
+    "POST /auth/2fa/setup": ({ user }) => {
+      const secret = Array.from({ length: 16 }, () =>
+        "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567".charAt(
+          Math.floor(Math.random() * 32)
+        )
+      ).join("");
+      db().twoFactor.set(user.id, { secret, enabled: false, backupCodes: [] });
+      return [
+        200,
+        {
+          secret,
+          otpauthUrl: `otpauth://totp/ChatApp:${encodeURIComponent(
+            user.email || user.username
+          )}?secret=${secret}&issuer=ChatApp`,
+        },
+      ];
+    },
+
+    "POST /auth/2fa/enable": ({ user, body }) => {
+      const twoFactor = db().twoFactor.get(user.id);
+      if (!twoFactor) return [400, { message: "Start the setup first" }];
+      if (body?.code !== TOTP_CODE) {
+        return [400, { message: "Invalid code", field: "code" }];
+      }
+      twoFactor.enabled = true;
+      twoFactor.backupCodes = Array.from({ length: 8 }, () => randomCode(8));
+      user.twoFactorEnabled = true;
+      return [200, { backupCodes: twoFactor.backupCodes }];
+    },
+
+    "POST /auth/2fa/disable": ({ user, body }) => {
+      const twoFactor = db().twoFactor.get(user.id);
+      if (
+        !twoFactor ||
+        (body?.code !== TOTP_CODE &&
+          !twoFactor.backupCodes.includes(body?.code))
+      ) {
+        return [400, { message: "Invalid code", field: "code" }];
+      }
+      db().twoFactor.delete(user.id);
+      user.twoFactorEnabled = false;
+      return [204];
+    },
+
+    "GET /auth/sessions": ({ user, sessionId }) => [
+      200,
+      [...db().sessions.values()]
+        .filter((session) => session.userId === user.id)
+        .map((session) => ({
+          ...session,
+          isCurrent: session.id === sessionId,
+        })),
+    ],
+
+    "DELETE /auth/sessions/:id": ({ user, params }) => {
+      const session = db().sessions.get(params.id);
+      if (!session || session.userId !== user.id) return notFound("Session");
+      server.revokeSession(session.id);
+      return [204];
+    },
+
+    "DELETE /auth/sessions": ({ user, sessionId }) => {
+      [...db().sessions.values()]
+        .filter((session) => session.userId === user.id)
+        .filter((session) => session.id !== sessionId)
+        .forEach((session) => server.revokeSession(session.id));
+      return [204];
+    },
+
+    // ================== CHATS ==================
+
+    "GET /chats": ({ user }) => [
+      200,
+      chatsOf(user, (chat) => !chat.archivedBy.has(user.id)),
+    ],
+
+    "GET /chats/pinned": ({ user }) => [
+      200,
+      chatsOf(user, (chat) => chat.pinnedBy.has(user.id)),
+    ],
+
+    "GET /chats/archived": ({ user }) => [
+      200,
+      chatsOf(user, (chat) => chat.archivedBy.has(user.id)),
+    ],
+
+    "GET /chats/search": ({ user, query }) => {
+      const text = query.get("query") ?? "";
+      return [
+        200,
+        chatsOf(
+          user,
+          (chat) =>
+            matches(chat.name, text) ||
+            chat.participantIds.some(
+              (id) =>
+                id !== user.id && matches(db().users.get(id)?.username, text)
+            )
+        ),
+      ];
+    },
+
+    "GET /chats/:chatId": (context) => {
+      const chat = chatOf(context);
+      return chat
+        ? [200, db().toChat(chat, context.user.id)]
+        : notFound("Chat");
+    },
+
+    "POST /chats/direct/:userId": ({ user, params }) => {
+      if (!db().users.has(params.userId)) return notFound("User");
+      const chat =
+        db().findDirectChat(user.id, params.userId) ??
+        db().createChat({
+          type: "direct",
+          participantIds: [user.id, params.userId],
+        });
+      return [200, db().toChat(chat, user.id)];
+    },
+
+    "POST /chats/group": ({ user, body }) => {
+      if (!body?.name) {
+        return [400, { message: "A group needs a name", field: "name" }];
+      }
+      const chat = db().createChat({
+        type: "group",
+        name: body.name,
+        description: body.description,
+        participantIds: [
+          user.id,
+          ...(body.participantIds ?? []).filter(
+            (id: string) => id !== user.id && db().users.has(id)
+          ),
+        ],
+        adminIds: [user.id],
+      });
+      db().addMessage(chat.id, user.id, {
+        type: "system",
+        text: `${user.username} created the group`,
+      });
+      server.emitChatUpdated(chat.id);
+      return [201, db().toChat(chat, user.id)];
+    },
+
+    "PUT /chats/:chatId": (context) => {
+      const chat = chatOf(context);
+      if (!chat) return notFound("Chat");
+      if (chat.type === "group" && !chat.adminIds.includes(context.user.id)) {
+        return forbidden("Only admins can edit the group");
+      }
+      const { name, description } = context.body ?? {};
+      if (name !== undefined) chat.name = name;
+      if (description !== undefined) chat.description = description;
+      chat.updatedAt = now();
+      server.emitChatUpdated(chat.id);
+      return [200, db().toChat(chat, context.user.id)];
+    },
+
+    "DELETE /chats/:chatId": (context) => {
+      const chat = chatOf(context);
+      if (!chat) return notFound("Chat");
+      if (chat.type === "group" && !chat.adminIds.includes(context.user.id)) {
+        return forbidden("Only admins can delete the group");
+      }
+      db().chats.delete(chat.id);
+      db().messages.delete(chat.id);
+      server.emitTo(chat.participantIds, "chatDeleted", chat.id);
+      return [204];
+    },
+
+    "DELETE /chats/:chatId/leave": (context) => {
+      const chat = chatOf(context);
+      if (!chat) return notFound("Chat");
+      if (chat.type !== "group") return [400, { message: "Not a group" }];
+      const { user } = context;
+      chat.participantIds = chat.participantIds.filter((id) => id !== user.id);
+      chat.adminIds = chat.adminIds.filter((id) => id !== user.id);
+      server.emitTo(chat.participantIds, "participantRemoved", {
+        chatId: chat.id,
+        userId: user.id,
+      });
+      server.emitTo([user.id], "chatDeleted", chat.id);
+      return [204];
+    },
+
+    "PUT /chats/:chatId/pin": (context) => {
+      const chat = chatOf(context);
+      if (!chat) return notFound("Chat");
+      if (context.body?.isPinned) chat.pinnedBy.add(context.user.id);
+      else chat.pinnedBy.delete(context.user.id);
+      server.emitTo(
+        [context.user.id],
+        "chatUpdated",
+        db().toChat(chat, context.user.id)
+      );
+      return [204];
+    },
+
+    "PUT /chats/:chatId/archive": (context) => {
+      const chat = chatOf(context);
+      if (!chat) return notFound("Chat");
+      if (context.body?.isArchived) chat.archivedBy.add(context.user.id);
+      else chat.archivedBy.delete(context.user.id);
+      server.emitTo(
+        [context.user.id],
+        "chatUpdated",
+        db().toChat(chat, context.user.id)
+      );
+      return [204];
+    },
+
+    // ================== MESSAGES ==================
+
+    "GET /chats/:chatId/messages": (context) => {
+      const chat = chatOf(context);
+      if (!chat) return notFound("Chat");
+      const { query } = context;
+      return [
+        200,
+        server.pageMessages(chat.id, {
+          limit: Number(query.get("limit")) || undefined,
+          before: query.get("cursor") ?? query.get("before") ?? undefined,
+          after: query.get("after") ?? undefined,
+        }),
+      ];
+    },
+
+    "POST /chats/:chatId/messages": (context) => {
+      const chat = chatOf(context);
+      if (!chat) return notFound("Chat");
+      const { text, attachments } = context.body ?? {};
+      if (!text?.trim() && !attachments?.length) {
+        return [400, { message: "Message is empty", field: "text" }];
+      }
+      const message = server.sendMessage(context.user, chat.id, context.body);
+      return [201, db().toMessage(message)];
+    },
+
+    "PUT /chats/:chatId/messages/:messageId": ({ user, params, body }) => {
+      if (!body?.text?.trim()) {
+        return [400, { message: "Message is empty", field: "text" }];
+      }
+      const message = server.editMessage(user.id, params.messageId, body.text);
+      return message ? [200, db().toMessage(message)] : notFound("Message");
+    },
+
+    "DELETE /chats/:chatId/messages/:messageId": ({ user, params }) =>
+      server.deleteMessage(user.id, params.messageId)
+        ? [204]
+        : notFound("Message"),
+
+    "DELETE /chats/:chatId/messages": (context) => {
+      const chat = chatOf(context);
+      if (!chat) return notFound("Chat");
+      db()
+        .messagesOf(chat.id)
+        .map((message) => message.id)
+        .forEach((messageId) =>
+          server.emitTo([context.user.id], "messageDeleted", messageId, chat.id)
+        );
+      db().messages.set(chat.id, []);
+      return [204];
+    },
+
+    "POST /chats/:chatId/messages/:messageId/react": ({ user, params, body }) =>
+      server.react(user.id, params.messageId, body?.reaction, true)
+        ? [204]
+        : notFound("Message"),
+
+    "DELETE /chats/:chatId/messages/:messageId/react/:reaction": ({
+      user,
+      params,
+    }) =>
+      server.react(user.id, params.messageId, params.reaction, false)
+        ? [204]
+        : notFound("Message"),
+
+    "PUT /chats/:chatId/read": (context) => {
+      const chat = chatOf(context);
+      if (!chat) return notFound("Chat");
+      server.markRead(context.user.id, chat.id);
+      return [204];
+    },
+
+    "PUT /chats/read-all": ({ user }) => {
+      db()
+        .chatsFor(user.id)
+        .forEach((chat) => server.markRead(user.id, chat.id));
+      return [204];
+    },
+
+    "PUT /chats/:chatId/messages/:messageId/read": (context) => {
+      const chat = chatOf(context);
+      if (!chat) return notFound("Chat");
+      server.markRead(context.user.id, chat.id, context.params.messageId);
+      return [204];
+    },
+
+    "GET /chats/:chatId/read-status": (context) => {
+      const chat = chatOf(context);
+      if (!chat) return notFound("Chat");
+      return [
+        200,
+        Object.fromEntries(
+          db()
+            .messagesOf(chat.id)
+            .map((message) => [message.id, message.readBy ?? []])
+        ),
+      ];
+    },
+
+    "POST /messages/forward": ({ user, body }) => {
+      const messages = (body?.messageIds ?? [])
+        .map((id: string) => db().findMessage(id)?.message)
+        .filter(Boolean) as Message[];
+      for (const chatId of body?.targetChatIds ?? []) {
+        const chat = db().chats.get(chatId);
+        if (!chat?.participantIds.includes(user.id)) continue;
+        messages.forEach((message) => {
+          const forwarded = server.sendMessage(user, chatId, {
+            text: message.text,
+            type: message.type,
+          });
+          forwarded.metadata = {
+            isForwarded: true,
+            originalSenderId: message.senderId,
+          };
+        });
+      }
+      return [204];
+    },
+
+    "POST /chats/:chatId/typing": (context) => {
+      server.setTyping(context.user.id, context.params.chatId, true);
+      return [204];
+    },
+
+    "DELETE /chats/:chatId/typing": (context) => {
+      server.setTyping(context.user.id, context.params.chatId, false);
+      return [204];
+    },
+
+    "GET /chats/:chatId/history": (context) => {
+      const chat = chatOf(context);
+      if (!chat) return notFound("Chat");
+      const { query } = context;
+      const from = query.get("from");
+      const to = query.get("to");
+      const messages = db()
+        .messagesOf(chat.id)
+        .filter(
+          (message) =>
+            (!from || message.createdAt >= from) &&
+            (!to || message.createdAt <= to) &&
+            (!query.get("search") ||
+              matches(message.text, query.get("search")!)) &&
+            (!query.get("type") || message.type === query.get("type")) &&
+            (!query.get("senderId") ||
+              message.senderId === query.get("senderId"))
+        );
+      return [200, searchPage(messages, query)];
+    },
+
+    "GET /chats/:chatId/search": (context) => {
+      const chat = chatOf(context);
+      if (!chat) return notFound("Chat");
+      const text = context.query.get("query") ?? "";
+      const messages = db()
+        .messagesOf(chat.id)
+        .filter((message) => matches(message.text, text));
+      return [200, searchPage(messages, context.query)];
+    },
+
+    "GET /chats/:chatId/media": (context) => {
+      const chat = chatOf(context);
+      if (!chat) return notFound("Chat");
+      const type = context.query.get("type");
+      return [
+        200,
+        db()
+          .messagesOf(chat.id)
+          .flatMap((message) => message.attachments ?? [])
+          .filter((attachment) => !type || attachment.type === type),
+      ];
+    },
+
+    "GET /chats/:chatId/stats": (context) => {
+      const chat = chatOf(context);
+      if (!chat) return notFound("Chat");
+      const messages = db().messagesOf(chat.id);
+      return [
+        200,
+        {
+          messageCount: messages.length,
+          participantCount: chat.participantIds.length,
+          mediaCount: messages.filter((message) => message.attachments?.length)
+            .length,
+          createdAt: chat.createdAt,
+          lastActivity: chat.updatedAt,
+        },
+      ];
+    },
+
+    "GET /chats/:chatId/export": (context) => {
+      const chat = chatOf(context);
+      if (!chat) return notFound("Chat");
+      const messages = db().messagesOf(chat.id).map(db().toMessage);
+      if (context.query.get("format") === "txt") {
+        const lines = messages.map(
+          (message) =>
+            `[${message.createdAt}] ${message.sender?.username}: ${message.text}`
+        );
+        return [200, new Blob([lines.join("\n")]), "text/plain"];
+      }
+      const chatData = db().toChat(chat, context.user.id);
+      return [
+        200,
+        new Blob([
+          JSON.stringify(
+            {
+              chat: chatData,
+              messages,
+              participants: chatData.participants,
+              exportedAt: now(),
+              exportedBy: context.user.id,
+              format: "json",
+            },
+            null,
+            2
+          ),
+        ]),
+        "application/json",
+      ];
+    },
+
+    // ================== PARTICIPANTS ==================
+
+    "GET /chats/:chatId/participants": (context) => {
+      const chat = chatOf(context);
+      return chat
+        ? [200, db().toChat(chat, context.user.id).participants]
+        : notFound("Chat");
+    },
+
+    "POST /chats/:chatId/participants": (context) => {
+      const chat = chatOf(context);
+      if (!chat) return notFound("Chat");
+      if (!chat.adminIds.includes(context.user.id)) return forbidden();
+      const added = (context.body?.userIds ?? []).filter(
+        (id: string) => db().users.has(id) && !chat.participantIds.includes(id)
+      );
+      chat.participantIds.push(...added);
+      added.forEach((userId: string) => {
+        server.emitTo(chat.participantIds, "participantAdded", {
+          chatId: chat.id,
+          user: db().users.get(userId)!,
+        });
+      });
+      server.emitChatUpdated(chat.id);
+      return [204];
+    },
+
+    "DELETE /chats/:chatId/participants/:userId": (context) => {
+      const chat = chatOf(context);
+      if (!chat) return notFound("Chat");
+      if (!chat.adminIds.includes(context.user.id)) return forbidden();
+      const { userId } = context.params;
+      if (!chat.participantIds.includes(userId)) return notFound("Participant");
+      server.emitTo(chat.participantIds, "participantRemoved", {
+        chatId: chat.id,
+        userId,
+      });
+      chat.participantIds = chat.participantIds.filter((id) => id !== userId);
+      chat.adminIds = chat.adminIds.filter((id) => id !== userId);
+      server.emitTo([userId], "chatDeleted", chat.id);
+      return [204];
+    },
+
+    "PUT /chats/:chatId/participants/:userId/role": (context) => {
+      const chat = chatOf(context);
+      if (!chat) return notFound("Chat");
+      if (!chat.adminIds.includes(context.user.id)) return forbidden();
+      const { userId } = context.params;
+      chat.adminIds = chat.adminIds.filter((id) => id !== userId);
+      if (context.body?.role === "admin") chat.adminIds.push(userId);
+      server.emitChatUpdated(chat.id);
+      return [204];
+    },
+
+    // ================== SETTINGS & NOTIFICATIONS ==================
+
+    "GET /chats/:chatId/settings": (context) => {
+      const chat = chatOf(context);
+      if (!chat) return notFound("Chat");
+      return [200, chat.settings.get(context.user.id) ?? DEFAULT_CHAT_SETTINGS];
+    },
+
+    "PUT /chats/:chatId/settings": (context) => {
+      const chat = chatOf(context);
+      if (!chat) return notFound("Chat");
+      const settings: ChatSettings = {
+        ...(chat.settings.get(context.user.id) ?? DEFAULT_CHAT_SETTINGS),
+        ...context.body,
+      };
+      chat.settings.set(context.user.id, settings);
+      return [200, settings];
+    },
+
+    "PUT /chats/:chatId/mute": (context) => {
+      const chat = chatOf(context);
+      if (!chat) return notFound("Chat");
+      const minutes = context.body?.duration;
+      chat.mutedUntil.set(
+        context.user.id,
+        minutes
+          ? new Date(Date.now() + minutes * 60 * 1000).toISOString()
+          : undefined
+      );
+      return [204];
+    },
+
+    "DELETE /chats/:chatId/mute": (context) => {
+      const chat = chatOf(context);
+      if (!chat) return notFound("Chat");
+      chat.mutedUntil.delete(context.user.id);
+      return [204];
+    },
+
+    // ================== INVITES ==================
+
+    "POST /chats/:chatId/invite": (context) => {
+      const chat = chatOf(context);
+      if (!chat) return notFound("Chat");
+      const { expiresIn, maxUses } = context.body ?? {};
+      const inviteCode = Math.random().toString(36).slice(2, 10);
+      chat.invites.push({
+        id: db().nextId("i"),
+        chatId: chat.id,
+        inviteCode,
+        createdBy: context.user.id,
+        createdAt: now(),
+        expiresAt: expiresIn
+          ? new Date(Date.now() + expiresIn * 1000).toISOString()
+          : undefined,
+        maxUses,
+        currentUses: 0,
+        isActive: true,
+      });
+      return [
+        201,
+        {
+          inviteCode,
+          url: `${window.location.origin}/join/${inviteCode}`,
+        },
+      ];
+    },
+
+    "GET /chats/:chatId/invites": (context) => {
+      const chat = chatOf(context);
+      return chat ? [200, chat.invites] : notFound("Chat");
+    },
+
+    "DELETE /chats/:chatId/invites/:inviteId": (context) => {
+      const chat = chatOf(context);
+      const invite = chat?.invites.find(
+        (current) => current.id === context.params.inviteId
+      );
+      if (!invite) return notFound("Invite");
+      invite.isActive = false;
+      return [204];
+    },
+
+    "POST /chats/join/:inviteCode": ({ user, params }) => {
+      for (const chat of db().chats.values()) {
+        const invite = chat.invites.find(
+          (current) => current.inviteCode === params.inviteCode
+        );
+        if (!invite) continue;
+        if (
+          !invite.isActive ||
+          (invite.expiresAt && invite.expiresAt < now()) ||
+          (invite.maxUses && invite.currentUses >= invite.maxUses)
+        ) {
+          return [410, { message: "This invite link has expired" }];
+        }
+        if (!chat.participantIds.includes(user.id)) {
+          invite.currentUses++;
+          chat.participantIds.push(user.id);
+          server.emitTo(chat.participantIds, "participantAdded", {
+            chatId: chat.id,
+            user,
+          });
+        }
+        return [200, db().toChat(chat, user.id)];
+      }
+      return notFound("Invite");
+    },
+
+    // ================== USERS ==================
+
+    "GET /users/search": ({ user, query }) => {
+      const text = query.get("query") ?? "";
+      return [
+        200,
+        [...db().users.values()].filter(
+          (current) =>
+            current.id !== user.id &&
+            (matches(current.username, text) || matches(current.email, text))
+        ),
+      ];
+    },
+
+    // People the user hasn't talked to yet
+    "GET /users/suggestions": ({ user }) => [
+      200,
+      [...db().users.values()].filter(
+        (current) =>
+          current.id !== user.id && !db().findDirectChat(user.id, current.id)
+      ),
+    ],
+
+    "GET /users/online": ({ user }) => [
+      200,
+      [...db().users.values()].filter(
+        (current) => current.id !== user.id && current.isOnline
+      ),
+    ],
+
+    "GET /users/blocked": ({ user }) => [
+      200,
+      [...(db().blocked.get(user.id) ?? [])]
+        .map((id) => db().users.get(id))
+        .filter(Boolean),
+    ],
+
+    "POST /users/:userId/block": ({ user, params }) => {
+      if (!db().users.has(params.userId)) return notFound("User");
+      const blocked = db().blocked.get(user.id) ?? new Set<string>();
+      blocked.add(params.userId);
+      db().blocked.set(user.id, blocked);
+      return [204];
+    },
+
+    "DELETE /users/:userId/block": ({ user, params }) => {
+      db().blocked.get(user.id)?.delete(params.userId);
+      return [204];
+    },
+
+    "PUT /user/status": ({ user, body }) => {
+      server.setOnline(user.id, !!body?.isOnline);
+      return [204];
+    },
+
+    "POST /reports": ({ user, body }) => {
+      db().reports.push({ ...body, reporterId: user.id, createdAt: now() });
+      return [201, { status: "pending" }];
+    },
+
+    // ================== UPLOADS ==================
+
+    "POST /chats/:chatId/uploads": (context) => {
+      const chat = chatOf(context);
+      if (!chat) return notFound("Chat");
+      const { filename, size, mimeType, type, chunkSize } = context.body ?? {};
+      if (!filename || !Number.isInteger(size) || size < 0) {
+        return [400, { message: "filename and size are required" }];
+      }
+      const upload = {
+        id: db().nextId("up"),
+        userId: context.user.id,
+        chatId: chat.id,
+        filename,
+        size,
+        mimeType: mimeType ?? "application/octet-stream",
+        type: type ?? "file",
+        chunkSize: chunkSize || UPLOAD_CHUNK_SIZE,
+        chunks: new Map<number, Blob>(),
+      };
+      db().uploads.set(upload.id, upload);
+      return [
+        201,
+        {
+          uploadId: upload.id,
+          chunkSize: upload.chunkSize,
+          receivedChunks: [],
+        },
+      ];
+    },
+
+    "GET /uploads/:uploadId": ({ user, params }) => {
+      const upload = db().uploads.get(params.uploadId);
+      if (!upload || upload.userId !== user.id) return notFound("Upload");
+      return [
+        200,
+        {
+          uploadId: upload.id,
+          chunkSize: upload.chunkSize,
+          receivedChunks: [...upload.chunks.keys()].sort((a, b) => a - b),
+        },
+      ];
+    },
+
+    "PUT /uploads/:uploadId/chunks/:index": ({ user, params, body }) => {
+      const upload = db().uploads.get(params.uploadId);
+      if (!upload || upload.userId !== user.id) return notFound("Upload");
+      if (!(body instanceof Blob)) {
+        return [400, { message: "Expected the chunk as the request body" }];
+      }
+      upload.chunks.set(Number(params.index), body);
+      return [204];
+    },
+
+    "POST /uploads/:uploadId/complete": ({ user, params }) => {
+      const upload = db().uploads.get(params.uploadId);
+      if (!upload || upload.userId !== user.id) return notFound("Upload");
+      const chunkCount = Math.max(1, Math.ceil(upload.size / upload.chunkSize));
+      const missing = Array.from({ length: chunkCount }, (_, i) => i).filter(
+        (index) => !upload.chunks.has(index)
+      );
+      if (missing.length) {
+        return [
+          400,
+          {
+            message: `Missing chunks: ${missing.join(", ")}`,
+            code: "upload_incomplete",
+            details: { missing },
+          },
+        ];
+      }
+
+      const file = new Blob(
+        Array.from({ length: chunkCount }, (_, i) => upload.chunks.get(i)!),
+        { type: upload.mimeType }
+      );
+      const url = URL.createObjectURL(file);
+      db().uploads.delete(upload.id);
+      db().attachments.set(upload.id, {
+        id: upload.id,
+        filename: upload.filename,
+        originalName: upload.filename,
+        url,
+        type: upload.type,
+        size: file.size,
+        mimeType: upload.mimeType,
+        createdAt: now(),
+      });
+      return [
+        200,
+        { id: upload.id, url, filename: upload.filename, size: file.size },
+      ];
+    },
+
+    "DELETE /uploads/:uploadId": ({ user, params }) => {
+      const upload = db().uploads.get(params.uploadId);
+      if (!upload || upload.userId !== user.id) return notFound("Upload");
+      db().uploads.delete(upload.id);
+      return [204];
+    },
+  };
+
+  // Fixed paths win over parameters ("/chats/read-all" over "/chats/:chatId")
+  const table = Object.entries(routes)
+    .map(([route, handler]) => {
+      const [method, path] = route.split(" ");
+      const segments = path.split("/");
+      const paramCount = segments.filter((segment) =>
+        segment.startsWith(":")
+      ).length;
+      return { route, method, segments, paramCount, handler };
+    })
+    .sort((a, b) => a.paramCount - b.paramCount);
+
+  return {
+    async handle(
+      method: string,
+      path: string,
+      { query, body, session }: RequestContext
+    ): Promise<RouteResult> {
+      const segments = path.split("/");
+      for (const entry of table) {
+        if (
+          entry.method !== method ||
+          entry.segments.length !== segments.length
+        ) {
+          continue;
+        }
+        const params: Record<string, string> = {};
+        const isMatch = entry.segments.every((segment, i) => {
+          if (segment.startsWith(":")) {
+            params[segment.slice(1)] = decodeURIComponent(segments[i]);
+            return true;
+          }
+          return segment === segments[i];
+        });
+        if (!isMatch) continue;
+
+        if (!session && !PUBLIC_ROUTES.includes(entry.route)) {
+          return [401, { message: "Invalid token" }];
+        }
+        return entry.handler({
+          params,
+          query,
+          body,
+          user: session?.user as User,
+          sessionId: session?.sessionId ?? "",
+        });
+      }
+      return [404, { message: `No fake for ${method} ${path}` }];
+    },
+  };
+};
@@ -0,0 +1,232 @@
+// api/fake/seed.ts
+import { FakeDb } from "./db";
+
+// Sign in to the fake backend with these (phone codes are printed to the
+// console)
+export const DEMO_ACCOUNT = {
+  email: "demo@example.com",
+  password: "demo1234",
+  phone: "+15550100",
+};
+
+export interface SeedOptions {
+  // Same seed, same data
+  seed?: number;
+  // Messages in every chat instead of a random 20-120
+  messagesPerChat?: number;
+  // Add a group chat with this many messages, for measuring long chats
+  benchmarkMessages?: number;
+}
+
+const PEOPLE = [
+  ["Alice Chen", "Coffee first, questions later"],
+  ["Bob Martinez", "Building things that break"],
+  ["Chloé Dubois", "Paris · design · bikes"],
+  ["Dmitri Volkov", undefined],
+  ["Emma Schmidt", "On call this week"],
+  ["Farida Nazarova", "Tashkent ☀️"],
+  ["George Okafor", undefined],
+  ["Hana Sato", "Frontend @ somewhere nice"],
+  ["Ivan Petrov", "Back in 5"],
+  ["Julia Rossi", undefined],
+  ["Kenji Watanabe", "Photos and coffee"],
+] as const;
+
+const LINES = [
+  "Hey! How's it going?",
+  "Did you see the latest build?",
+  "I'll take a look after lunch",
+  "Sounds good 👍",
+  "Can we move the call to 3?",
+  "Just pushed a fix, let me know if it works for you",
+  "lol",
+  "That's exactly what I was thinking",
+  "Running a bit late, sorry!",
+  "Do you have the link to the doc?",
+  "Thanks, that helps a lot",
+  "Weekend plans?",
+  "Not yet, maybe hiking if the weather holds",
+  "The staging server is down again 😅",
+  "On it",
+  "Can you review my PR when you get a chance?",
+  "Approved, nice work",
+  "Let's grab coffee tomorrow",
+  "Where are we meeting?",
+  "Same place as last time",
+  "I think the issue is in the reconnect logic",
+  "Agreed, let's ship it",
+  "Happy birthday!! 🎉",
+  "Good morning ☀️",
+  "brb",
+  "ok",
+  "Any updates on the release?",
+  "Should be out by Friday",
+  "Did anyone order pizza?",
+  "Sending the slides now",
+  "Got them, thanks!",
+  "Can't make it today, can we reschedule?",
+  "No worries, next week works",
+  "This is a longer message to check how the bubbles wrap when someone has a lot to say about something that could have been a short reply.",
+];
+
+const REPLIES = [
+  "Sure!",
+  "Haha, true",
+  "Let me check and get back to you",
+  "👍",
+  "Interesting, tell me more",
+  "Makes sense",
+  "On my way",
+  "Can you send that again?",
+  "Sounds like a plan",
+  "Nice!",
+];
+
+// Small deterministic PRNG (mulberry32)
+export const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  return {
+    next,
+    int: (min: number, max: number) => min + Math.floor(next() * (max - min)),
+    pick: <T>(items: readonly T[]) => items[Math.floor(next() * items.length)],
+  };
+};
+
+export const pickReply = (random = Math.random) =>
+  REPLIES[Math.floor(random() * REPLIES.length)];
+
+/**
+ * Fill an empty database with the demo user, their contacts, direct and
+ * group chats and a history of messages going back a couple of weeks.
+ */
+export const seedFakeDb = (db: FakeDb, options: SeedOptions = {}) => {
+  const random = createRandom(options.seed ?? 42);
+  const start = Date.now() - 14 * 24 * 60 * 60 * 1000;
+  const at = (offset: number) => new Date(start + offset).toISOString();
+
+  const demo = {
+    id: db.nextId("u"),
+    username: "Demo User",
+    email: DEMO_ACCOUNT.email,
+    phone: DEMO_ACCOUNT.phone,
+    bio: "Trying out the fake backend",
+    isOnline: true,
+    status: "online" as const,
+    createdAt: at(0),
+    updatedAt: at(0),
+  };
+  db.users.set(demo.id, demo);
+  db.passwords.set(demo.id, DEMO_ACCOUNT.password);
+
+  const contacts = PEOPLE.map(([name, bio]) => {
+    const isOnline = random.next() < 0.4;
+    const user = {
+      id: db.nextId("u"),
+      username: name,
+      email: `${name.split(" ")[0].toLowerCase()}@example.com`,
+      bio,
+      isOnline,
+      status: isOnline ? ("online" as const) : ("offline" as const),
+      lastSeen: isOnline
+        ? undefined
+        : new Date(Date.now() - random.int(5, 3000) * 60 * 1000).toISOString(),
+      createdAt: at(0),
+      updatedAt: at(0),
+    };
+    db.users.set(user.id, user);
+    db.passwords.set(user.id, "password");
+    return user;
+  });
+
+  const fillHistory = (
+    chatId: string,
+    memberIds: string[],
+    count = options.messagesPerChat ?? random.int(20, 120)
+  ) => {
+    const span = Date.now() - start - 60 * 1000;
+    let time = random.int(0, span / 4);
+    const step = (span - time) / Math.max(count, 1);
+
+    for (let i = 0; i < count; i++) {
+      time += random.int(step / 4, step * 1.5);
+      const message = db.addMessage(chatId, random.pick(memberIds), {
+        text: random.pick(LINES),
+        createdAt: at(Math.min(time, span)),
+      });
+      // Everything but the last few messages has been read by everyone
+      if (i < count - random.int(0, 4)) {
+        message.readBy = [...memberIds];
+        message.isRead = true;
+      }
+    }
+  };
+
+  contacts.slice(0, 8).forEach((contact) => {
+    const chat = db.createChat(
+      { type: "direct", participantIds: [demo.id, contact.id] },
+      at(0)
+    );
+    fillHistory(chat.id, chat.participantIds);
+  });
+
+  const groups = [
+    {
+      name: "Frontend Team",
+      description: "Daily standups, reviews and memes",
+      members: contacts.slice(0, 5),
+    },
+    {
+      name: "Weekend Hikes 🥾",
+      description: "Trails, weather and carpooling",
+      members: [contacts[2], contacts[5], contacts[8], contacts[10]],
+    },
+    {
+      name: "Book Club",
+      description: undefined,
+      members: [contacts[1], contacts[3], contacts[9]],
+    },
+  ];
+  groups.forEach(({ name, description, members }) => {
+    const chat = db.createChat(
+      {
+        type: "group",
+        name,
+        description,
+        participantIds: [demo.id, ...members.map((member) => member.id)],
+        adminIds: [members[0].id, demo.id],
+      },
+      at(0)
+    );
+    fillHistory(chat.id, chat.participantIds);
+  });
+
+  // Pin the team chat so the pinned list isn't empty
+  [...db.chats.values()]
+    .find((chat) => chat.type === "group")
+    ?.pinnedBy.add(demo.id);
+
+  const { benchmarkMessages } = options;
+  if (benchmarkMessages) {
+    const count = benchmarkMessages.toLocaleString("en-US");
+    const chat = db.createChat(
+      {
+        type: "group",
+        name: `Benchmark (${count} messages)`,
+        description: "A very long history, for measuring scrolling",
+        participantIds: [demo.id, ...contacts.slice(0, 5).map(({ id }) => id)],
+        adminIds: [demo.id],
+      },
+      at(0)
+    );
+    fillHistory(chat.id, chat.participantIds, benchmarkMessages);
+  }
+
+  return { demoUserId: demo.id };
+};
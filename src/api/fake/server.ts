@@ -0,0 +1,550 @@
+// api/fake/server.ts
+import { Message, ServerToClientEvents, User } from "../../types";
+import { Transport } from "../client";
+import { FakeDb, now } from "./db";
+import { createRoutes, RouteResult } from "./routes";
+import { pickReply, seedFakeDb, SeedOptions } from "./seed";
+
+// The server side of the fake backend: authentication, the socket registry
+// and the operations that REST routes and socket events share, each of which
+// notifies connected sockets the way the real server would.
+
+const ACCESS_TOKEN_TTL = 15 * 60 * 1000;
+const REFRESH_TOKEN_TTL = 30 * 24 * 60 * 60 * 1000;
+
+// What the server needs from a connected fake socket
+export interface SocketConnection {
+  userId: string;
+  sessionId: string;
+  deliver: (event: string, ...args: unknown[]) => void;
+  drop: (reason: string) => void;
+}
+
+interface Failure {
+  pattern: string | RegExp;
+  status: number;
+  remaining: number;
+}
+
+interface PageOptions {
+  limit?: number;
+  before?: string;
+  after?: string;
+}
+
+export interface FakeServerOptions extends SeedOptions {
+  // Milliseconds every request and socket event takes
+  latency?: number;
+  // Let the other side of a chat answer the demo user's messages
+  autoReply?: boolean;
+}
+
+const sleep = (ms: number, signal?: AbortSignal | null) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+const toResponse = (url: string, [status, body, contentType]: RouteResult) => {
+  let payload: BodyInit | null = null;
+  const headers = new Headers();
+  if (status !== 204 && body !== undefined) {
+    if (body instanceof Blob || typeof body === "string") {
+      payload = body;
+      headers.set("Content-Type", contentType ?? "text/plain");
+    } else {
+      payload = JSON.stringify(body);
+      headers.set("Content-Type", "application/json");
+    }
+  }
+  const response = new Response(payload, { status, headers });
+  // Error reports name the endpoint from the response URL
+  Object.defineProperty(response, "url", { value: url });
+  return response;
+};
+
+const parseBody = (body: RequestInit["body"]) => {
+  if (typeof body !== "string") return body ?? undefined;
+  try {
+    return JSON.parse(body);
+  } catch {
+    return body;
+  }
+};
+
+export class FakeServer {
+  db = new FakeDb();
+  demoUserId: string;
+  latency: number;
+  autoReply: boolean;
+  // While false, requests fail as if the network were down and sockets can't
+  // connect
+  networkOnline = true;
+
+  private connections = new Set<SocketConnection>();
+  private revokedTokens = new Set<string>();
+  private failures: Failure[] = [];
+  private routes = createRoutes(this);
+
+  constructor(private options: FakeServerOptions = {}) {
+    this.latency = options.latency ?? 150;
+    this.autoReply = options.autoReply ?? true;
+    this.demoUserId = seedFakeDb(this.db, options).demoUserId;
+  }
+
+  // Start over with freshly seeded data, disconnecting every socket
+  reset(options: SeedOptions = {}) {
+    this.connections.forEach((connection) => connection.drop("server reset"));
+    this.db = new FakeDb();
+    this.revokedTokens.clear();
+    this.failures = [];
+    this.demoUserId = seedFakeDb(this.db, {
+      ...this.options,
+      ...options,
+    }).demoUserId;
+  }
+
+  // ===== AUTH =====
+
+  /**
+   * Start a session for a user. Tokens are self-describing, so sessions
+   * survive a page reload as long as the user is part of the seed.
+   */
+  issueTokens(userId: string, device = navigator.userAgent) {
+    const sessionId = this.db.nextId("s");
+    this.db.sessions.set(sessionId, {
+      id: sessionId,
+      userId,
+      device: device.includes("Mobile") ? "Mobile browser" : "Web browser",
+      deviceType: device.includes("Mobile") ? "mobile" : "desktop",
+      ip: "127.0.0.1",
+      location: "Localhost",
+      createdAt: now(),
+      lastActiveAt: now(),
+    });
+    return {
+      access_token: this.createToken("access", userId, sessionId),
+      refresh_token: this.createToken("refresh", userId, sessionId),
+    };
+  }
+
+  private createToken(kind: string, userId: string, sessionId: string) {
+    const ttl = kind === "access" ? ACCESS_TOKEN_TTL : REFRESH_TOKEN_TTL;
+    const nonce = Math.random().toString(36).slice(2, 8);
+    return ["fake", kind, userId, sessionId, Date.now() + ttl, nonce].join(".");
+  }
+
+  // The user and session a token belongs to, if it is still valid
+  verifyToken(token: string | null | undefined, kind = "access") {
+    const [prefix, tokenKind, userId, sessionId, expiresAt] =
+      token?.split(".") ?? [];
+    const user = this.db.users.get(userId);
+    if (
+      prefix !== "fake" ||
+      tokenKind !== kind ||
+      !user ||
+      Number(expiresAt) < Date.now() ||
+      this.revokedTokens.has(token!) ||
+      this.revokedTokens.has(`session:${sessionId}`)
+    ) {
+      return undefined;
+    }
+    // Sessions from before a reload aren't in the fresh database
+    if (!this.db.sessions.has(sessionId)) {
+      this.db.sessions.set(sessionId, {
+        id: sessionId,
+        userId,
+        device: "Web browser",
+        deviceType: "desktop",
+        createdAt: now(),
+        lastActiveAt: now(),
+      });
+    }
+    return { user, sessionId };
+  }
+
+  // Refresh tokens are single use
+  refreshTokens(refreshToken: string) {
+    const session = this.verifyToken(refreshToken, "refresh");
+    if (!session) return undefined;
+    this.revokedTokens.add(refreshToken);
+    return {
+      access_token: this.createToken(
+        "access",
+        session.user.id,
+        session.sessionId
+      ),
+      refresh_token: this.createToken(
+        "refresh",
+        session.user.id,
+        session.sessionId
+      ),
+    };
+  }
+
+  revokeSession(sessionId: string) {
+    this.db.sessions.delete(sessionId);
+    this.revokedTokens.add(`session:${sessionId}`);
+    this.connections.forEach((connection) => {
+      if (connection.sessionId === sessionId) {
+        connection.deliver("sessionRevoked", { sessionId });
+      }
+    });
+  }
+
+  // ===== SOCKETS =====
+
+  connect(connection: SocketConnection) {
+    const wasOnline = this.isConnected(connection.userId);
+    this.connections.add(connection);
+    if (!wasOnline) this.setOnline(connection.userId, true);
+  }
+
+  disconnect(connection: SocketConnection) {
+    this.connections.delete(connection);
+    if (!this.isConnected(connection.userId)) {
+      this.setOnline(connection.userId, false);
+    }
+  }
+
+  // Drop every socket, as a server restart or network loss would
+  dropConnections(reason = "transport close") {
+    this.connections.forEach((connection) => connection.drop(reason));
+  }
+
+  private isConnected(userId: string) {
+    return [...this.connections].some(
+      (connection) => connection.userId === userId
+    );
+  }
+
+  emitTo<E extends keyof ServerToClientEvents>(
+    userIds: string[],
+    event: E,
+    ...args: Parameters<ServerToClientEvents[E]>
+  ) {
+    this.connections.forEach((connection) => {
+      if (userIds.includes(connection.userId)) {
+        connection.deliver(event, ...args);
+      }
+    });
+  }
+
+  // chatUpdated carries per-user fields (unread count, pinned), so every
+  // participant gets their own copy
+  emitChatUpdated(chatId: string) {
+    const chat = this.db.chats.get(chatId);
+    if (!chat) return;
+    chat.participantIds.forEach((userId) =>
+      this.emitTo([userId], "chatUpdated", this.db.toChat(chat, userId))
+    );
+  }
+
+  // ===== OPERATIONS =====
+
+  /**
+   * A page of a chat's messages, newest first like the real API. `before`
+   * pages towards older messages; `after` returns the first `limit` messages
+   * sent after the given one.
+   */
+  pageMessages(
+    chatId: string,
+    { limit = 50, before, after }: PageOptions = {}
+  ) {
+    const messages = this.db.messagesOf(chatId);
+    const indexOf = (id: string) =>
+      messages.findIndex((message) => message.id === id);
+
+    let start = 0;
+    let end = messages.length;
+    if (before) {
+      const index = indexOf(before);
+      if (index !== -1) end = index;
+    }
+    if (after) {
+      start = indexOf(after) + 1;
+      end = Math.min(end, start + limit);
+    }
+    start = Math.max(start, end - limit);
+    return messages.slice(start, end).reverse().map(this.db.toMessage);
+  }
+
+  setOnline(userId: string, isOnline: boolean) {
+    const user = this.db.users.get(userId);
+    if (!user || user.isOnline === isOnline) return;
+    Object.assign(user, {
+      isOnline,
+      status: isOnline ? "online" : "offline",
+      lastSeen: isOnline ? undefined : now(),
+    });
+    const contactIds = new Set(
+      this.db.chatsFor(userId).flatMap((chat) => chat.participantIds)
+    );
+    contactIds.delete(userId);
+    this.emitTo(
+      [...contactIds],
+      isOnline ? "userOnline" : "userOffline",
+      userId
+    );
+    if (isOnline) {
+      this.db
+        .chatsFor(userId)
+        .forEach((chat) => this.markDelivered(userId, chat.id));
+    }
+  }
+
+  sendMessage(
+    sender: User,
+    chatId: string,
+    data: {
+      clientId?: string;
+      text?: string;
+      type?: Message["type"];
+      replyToId?: string;
+      attachments?: string[];
+    }
+  ) {
+    // A resend of a message that already arrived gets the stored copy
+    const existing =
+      data.clientId &&
+      this.db
+        .messagesOf(chatId)
+        .find(
+          (message) =>
+            message.clientId === data.clientId && message.senderId === sender.id
+        );
+    if (existing) return existing;
+
+    const chat = this.db.chats.get(chatId)!;
+    const id = this.db.nextId("m");
+    const attachments = (data.attachments ?? [])
+      .map((attachmentId) => this.db.attachments.get(attachmentId))
+      .filter((attachment) => !!attachment)
+      .map((attachment) => ({ ...attachment, messageId: id }));
+
+    const message = this.db.addMessage(chatId, sender.id, {
+      id,
+      clientId: data.clientId,
+      text: data.text ?? "",
+      type: data.type ?? (attachments[0]?.type || "text"),
+      replyToId: data.replyToId,
+      attachments: attachments.length ? attachments : undefined,
+    });
+
+    this.emitTo(chat.participantIds, "newMessage", this.db.toMessage(message));
+    chat.participantIds
+      .filter((id) => id !== sender.id && this.db.users.get(id)?.isOnline)
+      .forEach((id) => this.markDelivered(id, chatId));
+    if (this.autoReply && sender.id === this.demoUserId) {
+      this.scheduleReply(chatId);
+    }
+    return message;
+  }
+
+  editMessage(userId: string, messageId: string, text: string) {
+    const found = this.db.findMessage(messageId);
+    if (!found || found.message.senderId !== userId) return undefined;
+    const { message } = found;
+    message.metadata = {
+      ...message.metadata,
+      editHistory: [...(message.metadata?.editHistory ?? []), message.text],
+    };
+    message.text = text;
+    message.editedAt = message.updatedAt = now();
+
+    const chat = this.db.chats.get(found.chatId)!;
+    this.emitTo(
+      chat.participantIds,
+      "messageEdited",
+      this.db.toMessage(message)
+    );
+    return message;
+  }
+
+  deleteMessage(userId: string, messageId: string) {
+    const found = this.db.findMessage(messageId);
+    const chat = found && this.db.chats.get(found.chatId);
+    if (
+      !found ||
+      !chat ||
+      (found.message.senderId !== userId && !chat.adminIds.includes(userId))
+    ) {
+      return false;
+    }
+    const messages = this.db.messagesOf(found.chatId);
+    messages.splice(messages.indexOf(found.message), 1);
+    this.emitTo(chat.participantIds, "messageDeleted", messageId, chat.id);
+    return true;
+  }
+
+  react(userId: string, messageId: string, reaction: string, add: boolean) {
+    const found = this.db.findMessage(messageId);
+    if (!found) return false;
+    const { message } = found;
+    const reactions = (message.reactions ?? []).filter(
+      (current) => !(current.userId === userId && current.reaction === reaction)
+    );
+    const entry = {
+      id: this.db.nextId("r"),
+      messageId,
+      userId,
+      reaction,
+      createdAt: now(),
+      user: this.db.users.get(userId),
+    };
+    message.reactions = add ? [...reactions, entry] : reactions;
+
+    const chat = this.db.chats.get(found.chatId)!;
+    this.emitTo(chat.participantIds, "messageReaction", {
+      messageId,
+      reaction: entry,
+      removed: !add,
+    });
+    return true;
+  }
+
+  // Everyone online has the message on their device straight away; anyone
+  // else gets it when they come online
+  markDelivered(userId: string, chatId: string) {
+    const chat = this.db.chats.get(chatId);
+    if (!chat) return;
+    const changed = this.db.markDelivered(chatId, userId);
+    const last = changed[changed.length - 1];
+    if (!last) return;
+    this.emitTo(
+      chat.participantIds.filter((id) => id !== userId),
+      "messageDelivered",
+      { messageId: last.id, userId, chatId }
+    );
+  }
+
+  markRead(userId: string, chatId: string, upToMessageId?: string) {
+    const chat = this.db.chats.get(chatId);
+    if (!chat) return;
+    const changed = this.db.markRead(chatId, userId, upToMessageId);
+    const last = changed[changed.length - 1];
+    if (!last) return;
+    // Receipts are cumulative: reading a message implies everything before it
+    this.emitTo(
+      chat.participantIds.filter((id) => id !== userId),
+      "messageRead",
+      { messageId: last.id, userId, chatId }
+    );
+    this.emitChatUpdated(chatId);
+  }
+
+  setTyping(userId: string, chatId: string, isTyping: boolean) {
+    const chat = this.db.chats.get(chatId);
+    const user = this.db.users.get(userId);
+    if (!chat || !user) return;
+    this.emitTo(
+      chat.participantIds.filter((id) => id !== userId),
+      isTyping ? "typing" : "stopTyping",
+      { userId, chatId, username: user.username }
+    );
+  }
+
+  /**
+   * Have someone in a chat type for a moment and then send a message.
+   * Defaults to a random participant other than the demo user.
+   */
+  async simulateReply(
+    chatId: string,
+    options: { userId?: string; text?: string; typingMs?: number } = {}
+  ) {
+    const chat = this.db.chats.get(chatId);
+    if (!chat) throw new Error(`No chat ${chatId}`);
+    const others = chat.participantIds.filter((id) => id !== this.demoUserId);
+    const userId =
+      options.userId ?? others[Math.floor(Math.random() * others.length)];
+    const user = this.db.users.get(userId);
+    if (!user) throw new Error(`No user ${userId}`);
+
+    this.setOnline(userId, true);
+    this.markRead(userId, chatId);
+    this.setTyping(userId, chatId, true);
+    await sleep(options.typingMs ?? 1500);
+    this.setTyping(userId, chatId, false);
+    return this.sendMessage(user, chatId, {
+      text: options.text ?? pickReply(),
+    });
+  }
+
+  private scheduleReply(chatId: string) {
+    const chat = this.db.chats.get(chatId);
+    // In groups only some messages get an answer
+    if (!chat || (chat.type === "group" && Math.random() < 0.5)) return;
+    setTimeout(() => {
+      this.simulateReply(chatId, {
+        typingMs: 1000 + Math.random() * 2000,
+      }).catch((error) => console.warn("[fake backend]", error));
+    }, 800 + Math.random() * 1200);
+  }
+
+  // ===== REQUESTS =====
+
+  // Make the next matching request(s) fail with a status
+  failNext(pattern: string | RegExp, status = 500, times = 1) {
+    this.failures.push({ pattern, status, remaining: times });
+  }
+
+  private takeFailure(route: string) {
+    const failure = this.failures.find((current) =>
+      typeof current.pattern === "string"
+        ? route.includes(current.pattern)
+        : current.pattern.test(route)
+    );
+    if (!failure) return undefined;
+    if (--failure.remaining <= 0) {
+      this.failures.splice(this.failures.indexOf(failure), 1);
+    }
+    return failure;
+  }
+
+  // Answers what the HTTP client would have sent over the network
+  fetch: Transport = async (url, init) => {
+    await sleep(this.latency, init.signal);
+    if (!this.networkOnline) {
+      throw new TypeError("Failed to fetch");
+    }
+
+    const { pathname, searchParams } = new URL(url, window.location.href);
+    const method = (init.method ?? "GET").toUpperCase();
+    const path = pathname.replace(/^.*\/api\/v\d+/, "");
+    const route = `${method} ${path}`;
+
+    const failure = this.takeFailure(route);
+    if (failure) {
+      return toResponse(url, [
+        failure.status,
+        { message: `Simulated failure for ${route}` },
+      ]);
+    }
+
+    const headers = new Headers(init.headers);
+    const token = headers.get("Authorization")?.replace(/^Bearer /, "");
+    let result: RouteResult;
+    try {
+      result = await this.routes.handle(method, path, {
+        query: searchParams,
+        body: parseBody(init.body),
+        session: this.verifyToken(token),
+      });
+    } catch (error) {
+      console.error("[fake backend]", route, error);
+      result = [500, { message: (error as Error).message }];
+    }
+    return toResponse(url, result);
+  };
+}
@@ -0,0 +1,200 @@
+// api/fake/socket.ts
+import { Socket } from "socket.io-client";
+import { SocketConnectOptions } from "../socket";
+import type { FakeServer, SocketConnection } from "./server";
+
+type Listener = (...args: unknown[]) => void;
+
+const RECONNECT_DELAY = 1000;
+
+/**
+ * Stands in for a socket.io client socket: the parts of its API the app uses,
+ * wired to the fake server. Like socket.io it connects on creation and,
+ * unless `reconnection` is off, reconnects on its own after an unexpected
+ * disconnect.
+ */
+export class FakeSocket {
+  id = "";
+  connected = false;
+  auth: { token?: string };
+
+  private listeners = new Map<string, Set<Listener>>();
+  private connection?: SocketConnection;
+  private reconnectTimer?: ReturnType<typeof setTimeout>;
+  private closedByClient = false;
+  private reconnection: boolean;
+
+  constructor(private server: FakeServer, options: SocketConnectOptions) {
+    this.auth = (options.auth as { token?: string }) ?? {};
+    this.reconnection = options.reconnection ?? true;
+    this.scheduleConnect(0);
+  }
+
+  get disconnected() {
+    return !this.connected;
+  }
+
+  on(event: string, listener: Listener) {
+    if (!this.listeners.has(event)) this.listeners.set(event, new Set());
+    this.listeners.get(event)!.add(listener);
+    return this;
+  }
+
+  off(event?: string, listener?: Listener) {
+    if (!event) this.listeners.clear();
+    else if (!listener) this.listeners.delete(event);
+    else this.listeners.get(event)?.delete(listener);
+    return this;
+  }
+
+  once(event: string, listener: Listener) {
+    const wrapper = (...args: unknown[]) => {
+      this.off(event, wrapper);
+      listener(...args);
+    };
+    return this.on(event, wrapper);
+  }
+
+  connect() {
+    this.closedByClient = false;
+    if (!this.connected) this.scheduleConnect(0);
+    return this;
+  }
+
+  disconnect() {
+    this.closedByClient = true;
+    clearTimeout(this.reconnectTimer);
+    this.closeConnection("io client disconnect");
+    return this;
+  }
+
+  // Client -> server. The last argument may be an acknowledgement callback.
+  emit(event: string, ...args: unknown[]) {
+    if (!this.connected) return this;
+    const ack =
+      typeof args[args.length - 1] === "function"
+        ? (args.pop() as Listener)
+        : undefined;
+    const connection = this.connection!;
+
+    setTimeout(() => {
+      const result = this.handle(connection.userId, event, args[0]);
+      if (ack) {
+        setTimeout(() => ack(result), this.server.latency);
+      }
+    }, this.server.latency);
+    return this;
+  }
+
+  private fire(event: string, ...args: unknown[]) {
+    this.listeners.get(event)?.forEach((listener) => listener(...args));
+  }
+
+  private scheduleConnect(delay: number) {
+    clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = setTimeout(() => this.open(), delay);
+  }
+
+  private open() {
+    if (this.connected || this.closedByClient) return;
+    if (!this.server.networkOnline) {
+      this.fire("connect_error", new Error("xhr poll error"));
+      if (this.reconnection) this.scheduleConnect(RECONNECT_DELAY);
+      return;
+    }
+
+    const session = this.server.verifyToken(this.auth.token);
+    if (!session) {
+      // Like the real server: a bad token fails the handshake for good
+      this.fire("connect_error", new Error("Unauthorized"));
+      return;
+    }
+
+    this.connection = {
+      userId: session.user.id,
+      sessionId: session.sessionId,
+      deliver: (event, ...args) =>
+        setTimeout(() => {
+          if (this.connected) this.fire(event, ...args);
+        }, this.server.latency),
+      drop: (reason) => {
+        this.closeConnection(reason);
+        if (this.reconnection) this.scheduleConnect(RECONNECT_DELAY);
+      },
+    };
+    this.id = Math.random().toString(36).slice(2, 12);
+    this.connected = true;
+    this.server.connect(this.connection);
+    this.fire("connect");
+  }
+
+  private closeConnection(reason: string) {
+    if (!this.connected) return;
+    this.connected = false;
+    if (this.connection) this.server.disconnect(this.connection);
+    this.connection = undefined;
+    this.fire("disconnect", reason);
+  }
+
+  // What the server does with each client event; the return value is the
+  // acknowledgement
+  private handle(userId: string, event: string, data: unknown): unknown {
+    const { db } = this.server;
+    const user = db.users.get(userId);
+    if (!user) return undefined;
+    const payload = (data ?? {}) as Record<string, string | undefined>;
+
+    switch (event) {
+      case "sendMessage": {
+        const message = data as Parameters<FakeServer["sendMessage"]>[2] & {
+          chatId: string;
+        };
+        const chat = db.chats.get(message.chatId);
+        if (!chat?.participantIds.includes(userId)) {
+          return { error: "Chat not found" };
+        }
+        return db.toMessage(this.server.sendMessage(user, chat.id, message));
+      }
+      case "getMessages": {
+        const chat = db.chats.get(payload.chatId ?? "");
+        if (!chat?.participantIds.includes(userId)) return [];
+        return this.server.pageMessages(chat.id, {
+          limit: Number(payload.limit) || undefined,
+          before: payload.cursor,
+          after: payload.after,
+        });
+      }
+      case "editMessage": {
+        const message = this.server.editMessage(
+          userId,
+          payload.messageId ?? "",
+          payload.text ?? ""
+        );
+        return message && db.toMessage(message);
+      }
+      case "deleteMessage":
+        return this.server.deleteMessage(userId, payload.messageId ?? "");
+      case "markAsRead":
+        this.server.markRead(userId, payload.chatId ?? "", payload.messageId);
+        return true;
+      case "startTyping":
+        this.server.setTyping(userId, String(data), true);
+        return true;
+      case "stopTyping":
+        this.server.setTyping(userId, String(data), false);
+        return true;
+      case "joinChat":
+      case "leaveChat":
+        // Events reach every participant whether they joined or not
+        return true;
+      default:
+        console.warn(`[fake backend] unhandled socket event "${event}"`);
+        return undefined;
+    }
+  }
+}
+
+export const createFakeSocket = (
+  server: FakeServer,
+  options: SocketConnectOptions
+) => new FakeSocket(server, options) as unknown as Socket;
@@ -1,65 +1,9 @@
-import { useAuth } from "../context/authContext";
+import { apiClient } from "./client";
+import { Account } from "../types";
 
-export const useApi = () => {
-  const { token, logout } = useAuth();
-  const API_BASE_URL = "http://localhost:4001/api/v1";
+export { apiClient } from "./client";
+export type { RequestOptions } from "./client";
 
-  const apiCall = async (
-    endpoint: string,
-    options: RequestInit = {}
-  ): Promise<Response> => {
-    const headers = {
-      "Content-Type": "application/json",
-      "x-app-token": "123",
-      "x-user-token": `${token}`,
-      ...(token && { Authorization: `Bearer ${token}` }),
-      ...options.headers,
-    };
-
-    const response = await fetch(`${API_BASE_URL}${endpoint}`, {
-      ...options,
-      headers,
-    });
-
-    // Handle token expiration
-    if (response.status === 401) {
-      console.warn("Token expired, logging out...");
-      logout();
-      throw new Error("Session expired. Please login again.");
-    }
-
-    return response;
-  };
-
-  const get = async (endpoint: string): Promise<Response> => {
-    return apiCall(endpoint, { method: "GET" });
-  };
-
-  const post = async (endpoint: string, data?: any): Promise<Response> => {
-    return apiCall(endpoint, {
-      method: "POST",
-      body: data ? JSON.stringify(data) : undefined,
-    });
-  };
-
-  const put = async (endpoint: string, data?: any): Promise<Response> => {
-    return apiCall(endpoint, {
-      method: "PUT",
-      body: data ? JSON.stringify(data) : undefined,
-    });
-  };
-
-  // FIX: Add missing PATCH method
-  const patch = async (endpoint: string, data?: any): Promise<Response> => {
-    return apiCall(endpoint, {
-      method: "PATCH",
-      body: data ? JSON.stringify(data) : undefined,
-    });
-  };
-
-  const del = async (endpoint: string): Promise<Response> => {
-    return apiCall(endpoint, { method: "DELETE" });
-  };
-
-  return { get, post, put, patch, delete: del, apiCall };
-};
+// Requests go out as the active account unless another signed-in account is
+// passed in (e.g. to poll its unread count while another is active)
+export const useApi = (account?: Account) => apiClient.forAccount(account?.id);
@@ -0,0 +1,321 @@
+// api/schemas.ts
+import { z } from "zod";
+import {
+  Chat,
+  ChatInvite,
+  ChatSettings,
+  Message,
+  MessageAttachment,
+  MessageReaction,
+  ServerToClientEvents,
+  Session,
+  TwoFactorSetup,
+  UploadedFile,
+  UploadSession,
+  User,
+} from "../types";
+import { ContractError } from "./errors";
+import { deliveryStatusOf } from "../utils/messages";
+
+// Runtime schemas for the types in types/index.ts. Every response and socket
+// payload goes through one of these, so a backend that changes shape fails
+// here with a clear error instead of deep inside a component. Parsing also
+// normalizes: dates become ISO strings, nulls become undefined and missing
+// counters and flags get their defaults.
+
+export type Schema<T> = z.ZodType<T, z.ZodTypeDef, unknown>;
+
+// Accepts ISO strings, other parseable date strings and epoch milliseconds
+const isoDate = z
+  .union([z.string(), z.number(), z.date()])
+  .transform((value, ctx) => {
+    const date = new Date(value);
+    if (Number.isNaN(date.getTime())) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Invalid date" });
+      return z.NEVER;
+    }
+    return date.toISOString();
+  });
+
+// Optional fields may come back as null; the types only know undefined
+const optional = <T extends z.ZodTypeAny>(schema: T) =>
+  schema.nullish().transform((value) => value ?? undefined);
+
+const id = z.union([z.string(), z.number()]).transform(String);
+
+const userStatus = z.enum(["online", "offline", "away", "busy"]);
+
+export const userSchema: Schema<User> = z.object({
+  id,
+  username: z.string(),
+  email: z.string(),
+  phone: optional(z.string()),
+  avatar: optional(z.string()),
+  isOnline: optional(z.boolean()),
+  lastSeen: optional(isoDate),
+  status: optional(userStatus),
+  bio: optional(z.string()),
+  twoFactorEnabled: optional(z.boolean()),
+  createdAt: isoDate,
+  updatedAt: isoDate,
+});
+
+export const messageReactionSchema: Schema<MessageReaction> = z.object({
+  id,
+  messageId: id,
+  userId: id,
+  reaction: z.string(),
+  createdAt: isoDate,
+  user: optional(userSchema),
+});
+
+export const messageAttachmentSchema: Schema<MessageAttachment> = z.object({
+  id,
+  messageId: id,
+  filename: z.string(),
+  originalName: z.string(),
+  url: z.string(),
+  type: z.enum(["image", "file", "voice"]),
+  size: z.number(),
+  mimeType: z.string(),
+  createdAt: isoDate,
+});
+
+// The sender's delivery status is worked out from the receipts
+export const messageSchema: Schema<Message> = z.lazy(() =>
+  z
+    .object({
+      id,
+      chatId: id,
+      senderId: id,
+      receiverId: optional(id),
+      text: optional(z.string()).transform((text) => text ?? ""),
+      type: optional(
+        z.enum(["text", "image", "file", "voice", "system"])
+      ).transform((type) => type ?? "text"),
+      createdAt: isoDate,
+      updatedAt: optional(isoDate),
+      deletedAt: optional(isoDate),
+      editedAt: optional(isoDate),
+      isRead: optional(z.boolean()).transform((isRead) => isRead ?? false),
+      readBy: optional(z.array(id)),
+      deliveredTo: optional(z.array(id)),
+      sender: optional(userSchema),
+      replyToId: optional(id),
+      replyTo: optional(messageSchema),
+      clientId: optional(z.string()),
+      reactions: optional(z.array(messageReactionSchema)),
+      attachments: optional(z.array(messageAttachmentSchema)),
+      metadata: optional(
+        z.object({
+          isForwarded: optional(z.boolean()),
+          originalSenderId: optional(id),
+          editHistory: optional(z.array(z.string())),
+        })
+      ),
+    })
+    .transform((message) => ({
+      ...message,
+      status: deliveryStatusOf(message),
+    }))
+);
+
+export const chatSettingsSchema: Schema<ChatSettings> = z.object({
+  notifications: optional(z.boolean()).transform((value) => value ?? true),
+  sound: optional(z.boolean()).transform((value) => value ?? true),
+  preview: optional(z.boolean()).transform((value) => value ?? true),
+  theme: optional(z.enum(["light", "dark", "auto"])),
+  fontSize: optional(z.enum(["small", "medium", "large"])),
+  enterToSend: optional(z.boolean()),
+  readReceipts: optional(z.boolean()),
+  lastSeenVisible: optional(z.boolean()),
+  autoDownloadMedia: optional(z.boolean()),
+});
+
+export const chatSchema: Schema<Chat> = z.object({
+  id,
+  name: optional(z.string()),
+  description: optional(z.string()),
+  type: z.enum(["direct", "group"]),
+  participants: optional(z.array(userSchema)).transform(
+    (participants) => participants ?? []
+  ),
+  lastMessage: optional(messageSchema),
+  unreadCount: optional(z.number()).transform((count) => count ?? 0),
+  createdAt: isoDate,
+  updatedAt: isoDate,
+  isArchived: optional(z.boolean()),
+  isPinned: optional(z.boolean()),
+  isMuted: optional(z.boolean()),
+  muteUntil: optional(isoDate),
+  settings: optional(chatSettingsSchema),
+  adminIds: optional(z.array(id)),
+  inviteCode: optional(z.string()),
+  metadata: optional(
+    z.object({
+      messageCount: optional(z.number()),
+      mediaCount: optional(z.number()),
+      memberCount: optional(z.number()),
+    })
+  ),
+});
+
+export const chatInviteSchema: Schema<ChatInvite> = z.object({
+  id,
+  chatId: id,
+  inviteCode: z.string(),
+  createdBy: id,
+  createdAt: isoDate,
+  expiresAt: optional(isoDate),
+  maxUses: optional(z.number()),
+  currentUses: optional(z.number()).transform((uses) => uses ?? 0),
+  isActive: optional(z.boolean()).transform((isActive) => isActive ?? true),
+  chat: optional(chatSchema),
+  creator: optional(userSchema),
+});
+
+export const sessionSchema: Schema<Session> = z.object({
+  id,
+  device: z.string(),
+  deviceType: optional(z.enum(["desktop", "mobile", "tablet"])),
+  ip: optional(z.string()),
+  location: optional(z.string()),
+  createdAt: isoDate,
+  lastActiveAt: isoDate,
+  isCurrent: optional(z.boolean()).transform((isCurrent) => !!isCurrent),
+});
+
+export const twoFactorSetupSchema: Schema<TwoFactorSetup> = z.object({
+  secret: z.string(),
+  otpauthUrl: z.string(),
+  qrCode: optional(z.string()),
+});
+
+export const chatListSchema = z.array(chatSchema);
+export const userListSchema = z.array(userSchema);
+export const messageListSchema = z.array(messageSchema);
+export const sessionListSchema = z.array(sessionSchema);
+export const attachmentListSchema = z.array(messageAttachmentSchema);
+export const chatInviteListSchema = z.array(chatInviteSchema);
+
+// Message id -> ids of the users who have read it
+export const readStatusSchema = z.record(z.array(id));
+
+export const uploadSessionSchema: Schema<UploadSession> = z.object({
+  uploadId: id,
+  chunkSize: z.number().int().positive(),
+  receivedChunks: optional(z.array(z.number().int())).transform(
+    (chunks) => chunks ?? []
+  ),
+});
+
+export const uploadedFileSchema: Schema<UploadedFile> = z.object({
+  id,
+  url: z.string(),
+  filename: z.string(),
+  size: z.number(),
+});
+
+export const messagePageSchema = z.object({
+  messages: messageListSchema,
+  total: z.number(),
+  hasMore: optional(z.boolean()).transform((hasMore) => !!hasMore),
+});
+
+export const chatStatsSchema = z.object({
+  messageCount: z.number(),
+  participantCount: z.number(),
+  mediaCount: z.number(),
+  createdAt: isoDate,
+  lastActivity: isoDate,
+});
+
+export const inviteLinkSchema = z.object({
+  inviteCode: z.string(),
+  url: z.string(),
+});
+
+export const backupCodesSchema = z.object({
+  backupCodes: z.array(z.string()),
+});
+
+// Socket payloads that aren't one of the entities above
+export const sendMessageAckSchema = z.union([
+  messageSchema,
+  z.object({ error: z.string() }),
+]);
+
+const typingPayloadSchema = z.object({
+  userId: id,
+  chatId: id,
+  username: optional(z.string()),
+});
+
+const receiptSchema = z.object({ messageId: id, userId: id, chatId: id });
+
+type EventSchemas<Events> = {
+  [E in keyof Events]: Events[E] extends (...args: infer Args) => void
+    ? { [K in keyof Args]: Schema<Args[K]> }
+    : never;
+};
+
+// One schema per argument of every event the server sends
+export const serverEventSchemas: EventSchemas<ServerToClientEvents> = {
+  newMessage: [messageSchema],
+  messageDeleted: [id, id],
+  messageEdited: [messageSchema],
+  messageReaction: [
+    z.object({
+      messageId: id,
+      reaction: messageReactionSchema,
+      removed: optional(z.boolean()),
+    }),
+  ],
+  typing: [typingPayloadSchema],
+  stopTyping: [typingPayloadSchema],
+  userOnline: [id],
+  userOffline: [id],
+  chatUpdated: [chatSchema],
+  participantAdded: [z.object({ chatId: id, user: userSchema })],
+  participantRemoved: [z.object({ chatId: id, userId: id })],
+  chatDeleted: [id],
+  sessionRevoked: [z.object({ sessionId: id })],
+  messageDelivered: [receiptSchema],
+  messageRead: [receiptSchema],
+};
+
+/**
+ * Validate data that crossed the network. Throws a ContractError naming
+ * `source` (an endpoint or socket event) and what didn't match.
+ */
+export const parseWith = <T>(
+  schema: Schema<T>,
+  data: unknown,
+  source: string
+): T => {
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    throw new ContractError(source, result.error.issues);
+  }
+  return result.data;
+};
+
+// Read a JSON response body and validate it
+export const parseResponse = async <T>(
+  response: Response,
+  schema: Schema<T>
+): Promise<T> => {
+  const source = response.url ? new URL(response.url).pathname : "response";
+  return parseWith(schema, await response.json(), source);
+};
+
+// Validate the arguments of an incoming socket event
+export const parseEventArgs = <E extends keyof ServerToClientEvents>(
+  event: E,
+  args: unknown[]
+) => {
+  const schemas = serverEventSchemas[event] as readonly Schema<unknown>[];
+  return schemas.map((schema, index) =>
+    parseWith(schema, args[index], `socket event "${event}"`)
+  ) as Parameters<ServerToClientEvents[E]>;
+};
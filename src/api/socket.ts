@@ -0,0 +1,25 @@
+// api/socket.ts
+import io, { ManagerOptions, Socket, SocketOptions } from "socket.io-client";
+import { config } from "../config";
+
+export type SocketConnectOptions = Partial<ManagerOptions & SocketOptions>;
+
+// Opens a socket.io connection. Replaced by the fake backend, which hands out
+// sockets that never touch the network.
+export type SocketFactory = (options: SocketConnectOptions) => Socket;
+
+const defaultFactory: SocketFactory = (options) =>
+  io(config.socketUrl, options);
+
+let socketFactory = defaultFactory;
+
+/**
+ * Use another factory for sockets created from now on; pass undefined to go
+ * back to socket.io.
+ */
+export const setSocketFactory = (factory?: SocketFactory) => {
+  socketFactory = factory ?? defaultFactory;
+};
+
+export const connectSocket = (options: SocketConnectOptions) =>
+  socketFactory(options);
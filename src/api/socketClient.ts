@@ -0,0 +1,542 @@
+// api/socketClient.ts
+import { Socket } from "socket.io-client";
+import {
+  ClientToServerEvents,
+  Message,
+  ServerToClientEvents,
+  SocketStatus,
+} from "../types";
+import {
+  messageListSchema,
+  parseEventArgs,
+  parseWith,
+  Schema,
+  sendMessageAckSchema,
+  serverEventSchemas,
+} from "./schemas";
+import { connectSocket } from "./socket";
+import { RelayedStatus, TabRelay } from "./socketRelay";
+
+export type ServerEvent = keyof ServerToClientEvents;
+export type ClientEvent = keyof ClientToServerEvents;
+
+type ClientEventArgs<E extends ClientEvent> = Parameters<
+  ClientToServerEvents[E]
+>;
+
+// Client events the server answers, and what it answers with
+export type AckEvent = {
+  [E in ClientEvent]: ClientEventArgs<E> extends [
+    ...unknown[],
+    (response: never) => void
+  ]
+    ? E
+    : never;
+}[ClientEvent];
+
+type AckArgs<E extends AckEvent> = ClientEventArgs<E> extends [
+  ...infer Args,
+  (response: never) => void
+]
+  ? Args
+  : never;
+
+export type AckResponse<E extends AckEvent> = ClientEventArgs<E> extends [
+  ...unknown[],
+  (response: infer Response) => void
+]
+  ? Response
+  : never;
+
+type Listener = (...args: unknown[]) => void;
+
+// Messages that arrived while disconnected, by chat, oldest first. Chats in
+// `incomplete` missed more than could be fetched, so there's a gap between
+// their missed messages and the ones arriving now.
+export type ReconnectListener = (
+  missed: Map<string, Message[]>,
+  incomplete: Set<string>
+) => void;
+
+const ACK_TIMEOUT = 10000;
+const CATCH_UP_PAGE_SIZE = 50;
+// A chat that missed more than this is left to the chat list refresh and
+// the next load
+const CATCH_UP_MAX_PAGES = 10;
+// Waits between attempts to reconnect double from the first up to the last
+const RETRY_BASE_DELAY = 1000;
+const RETRY_MAX_DELAY = 30000;
+
+const ackSchemas: { [E in AckEvent]: Schema<AckResponse<E>> } = {
+  sendMessage: sendMessageAckSchema,
+  getMessages: messageListSchema,
+};
+
+const isNewer = (message: Message, than?: Message) =>
+  !than || Date.parse(message.createdAt) > Date.parse(than.createdAt);
+
+const isUnauthorized = (error: Error) =>
+  /unauthori[sz]ed|jwt|token/i.test(error.message);
+
+// With a little jitter, so clients dropped together don't return together
+const retryDelay = (attempts: number) =>
+  Math.min(RETRY_MAX_DELAY, RETRY_BASE_DELAY * 2 ** (attempts - 1)) *
+  (0.8 + Math.random() * 0.4);
+
+const isBrowserOnline = () =>
+  typeof navigator === "undefined" || navigator.onLine !== false;
+
+export interface SocketClientOptions {
+  // The handshake was rejected because the token is no longer valid. The
+  // client stays disconnected until `connect` is called with a new token.
+  onUnauthorized?: (token: string) => void;
+  // Share one connection with the other tabs using the same key (the
+  // account), where the browser supports it
+  sharedKey?: string;
+}
+
+// Stands for this tab when counting which tabs are in a room
+const OWN_TAB = "own";
+
+/**
+ * The app's socket connection, typed against the event maps in types/index.ts.
+ * Handlers are kept here rather than on the socket, so they survive
+ * reconnecting with a new token, and every payload is validated before it
+ * reaches them.
+ *
+ * The client also remembers the rooms it joined and the newest message seen
+ * in each chat. After a reconnect it rejoins the rooms and fetches whatever
+ * was sent in the meantime for the reconnect listeners.
+ *
+ * Reconnecting is up to the client rather than socket.io, so it can report
+ * its attempts through `getSnapshot` and try again on demand.
+ *
+ * With a `sharedKey`, only the tab elected leader (see socketRelay.ts) opens
+ * a socket; the others send and receive through it. Every tab still keeps
+ * its own handlers, rooms and catch-up, so a new leader taking over looks
+ * like any other reconnect.
+ */
+export class SocketClient {
+  private socket: Socket | null = null;
+  private handlers = new Map<ServerEvent, Set<Listener>>();
+  private stateListeners = new Set<() => void>();
+  private reconnectListeners = new Set<ReconnectListener>();
+  private status: SocketStatus = {
+    state: "disconnected",
+    attempts: 0,
+    nextRetryAt: null,
+    isOnline: isBrowserOnline(),
+    isUpdating: false,
+    updateFailed: false,
+  };
+  private hasConnected = false;
+  private retryTimer?: ReturnType<typeof setTimeout>;
+  private rooms = new Set<string>();
+  private lastSeen = new Map<string, Message>();
+  private token: string | null = null;
+  private relay: TabRelay | null = null;
+  // Tabs in each room the socket joined, so one tab leaving doesn't take
+  // the room away from the others
+  private roomTabs = new Map<string, Set<string>>();
+
+  constructor(private options: SocketClientOptions = {}) {}
+
+  get isConnected() {
+    return this.status.state === "connected";
+  }
+
+  // ===== CONNECTION =====
+
+  /**
+   * Connect with an access token. Calling it again with a new token
+   * reconnects with that one.
+   */
+  connect(token: string) {
+    this.token = token;
+    this.watchNetwork();
+    const { sharedKey } = this.options;
+
+    if (sharedKey && TabRelay.isSupported()) {
+      if (!this.relay) {
+        this.relay = new TabRelay(sharedKey, {
+          onLeadership: () => {
+            // Whatever the old leader last reported no longer holds
+            if (this.token) this.openSocket(this.token);
+          },
+          onState: (status) => this.setStatus(status),
+          onEvent: (event, args) => {
+            if (event in serverEventSchemas) {
+              this.dispatch(event as ServerEvent, args);
+            }
+          },
+          onEmit: (tabId, event, args, reply) =>
+            this.sendToServer(tabId, event, args, reply),
+          onReconnect: () => this.reconnectNow(),
+          onTabClosed: (tabId) => this.forgetTab(tabId),
+          onReturn: () => {
+            if (!this.isConnected) return;
+            this.rooms.forEach((chatId) => this.emit("joinChat", { chatId }));
+          },
+          getState: () => this.relayedStatus(),
+        });
+        this.setStatus({ state: "connecting" });
+        this.relay.start();
+      } else if (this.relay.isLeader) {
+        this.openSocket(token);
+      }
+      return;
+    }
+
+    this.openSocket(token);
+  }
+
+  disconnect() {
+    this.closeSocket();
+    this.relay?.stop();
+    this.relay = null;
+    this.token = null;
+    this.unwatchNetwork();
+    this.setStatus({ state: "disconnected" });
+  }
+
+  /**
+   * Try to connect right away instead of waiting for the next attempt. Does
+   * nothing while connected.
+   */
+  reconnectNow() {
+    if (this.isConnected || !this.token) return;
+    if (this.socket) {
+      clearTimeout(this.retryTimer);
+      this.setStatus({ state: "connecting", nextRetryAt: null });
+      this.socket.connect();
+    } else if (!this.relay || this.relay.isLeader) {
+      this.openSocket(this.token);
+    } else {
+      this.relay?.requestReconnect();
+    }
+  }
+
+  private openSocket(token: string) {
+    this.closeSocket();
+
+    const socket = connectSocket({
+      auth: {
+        token,
+      },
+      transports: ["websocket"],
+      reconnection: false,
+    });
+    this.socket = socket;
+    this.roomTabs.clear();
+    this.setStatus({ state: "connecting", attempts: 0, nextRetryAt: null });
+
+    socket.on("connect", () => {
+      this.setStatus({ state: "connected", attempts: 0, nextRetryAt: null });
+    });
+
+    socket.on("disconnect", (reason: string) => {
+      this.roomTabs.clear();
+      this.setStatus({ state: "disconnected" });
+      // The server closed it on purpose; wait to be asked
+      if (reason !== "io server disconnect") this.scheduleRetry();
+    });
+
+    socket.on("connect_error", (error: Error) => {
+      if (isUnauthorized(error)) {
+        this.closeSocket();
+        this.options.onUnauthorized?.(token);
+        return;
+      }
+      this.setStatus({ state: "error" });
+      this.scheduleRetry();
+    });
+
+    (Object.keys(serverEventSchemas) as ServerEvent[]).forEach((event) =>
+      socket.on(event, (...args: unknown[]) => {
+        this.relay?.broadcastEvent(event, args);
+        this.dispatch(event, args);
+      })
+    );
+  }
+
+  private closeSocket() {
+    clearTimeout(this.retryTimer);
+    if (!this.socket) return;
+    this.socket.disconnect();
+    this.socket.off();
+    this.socket = null;
+    this.setStatus({ state: "disconnected", nextRetryAt: null });
+  }
+
+  private scheduleRetry() {
+    clearTimeout(this.retryTimer);
+    const attempts = this.status.attempts + 1;
+    const delay = retryDelay(attempts);
+    this.setStatus({ attempts, nextRetryAt: Date.now() + delay });
+    this.retryTimer = setTimeout(() => {
+      this.setStatus({ state: "connecting", nextRetryAt: null });
+      this.socket?.connect();
+    }, delay);
+  }
+
+  private watchNetwork() {
+    if (typeof window === "undefined") return;
+    window.addEventListener("online", this.updateNetwork);
+    window.addEventListener("offline", this.updateNetwork);
+  }
+
+  private unwatchNetwork() {
+    if (typeof window === "undefined") return;
+    window.removeEventListener("online", this.updateNetwork);
+    window.removeEventListener("offline", this.updateNetwork);
+  }
+
+  // Back online is as good a time as any to try again
+  private updateNetwork = () => {
+    const isOnline = isBrowserOnline();
+    this.setStatus({ isOnline });
+    if (isOnline) this.reconnectNow();
+  };
+
+  // For useSyncExternalStore. A new object every time the status changes.
+  subscribe = (listener: () => void) => {
+    this.stateListeners.add(listener);
+    return () => {
+      this.stateListeners.delete(listener);
+    };
+  };
+
+  getSnapshot = () => this.status;
+
+  // ===== ROOMS =====
+
+  // Joined rooms are rejoined whenever the connection comes back
+  joinChat(chatId: string) {
+    this.rooms.add(chatId);
+    this.emit("joinChat", { chatId });
+  }
+
+  leaveChat(chatId: string) {
+    this.rooms.delete(chatId);
+    this.emit("leaveChat", { chatId });
+  }
+
+  /**
+   * Note messages that were loaded outside the socket, so a reconnect only
+   * fetches what came after them. Incoming messages are noted automatically.
+   */
+  markSeen(chatId: string, messages: Message[]) {
+    messages.forEach((message) => {
+      if (isNewer(message, this.lastSeen.get(chatId))) {
+        this.lastSeen.set(chatId, message);
+      }
+    });
+  }
+
+  /**
+   * Get the messages missed while disconnected, after every reconnect.
+   * Returns a function that removes the listener.
+   */
+  onReconnect(listener: ReconnectListener) {
+    this.reconnectListeners.add(listener);
+    return () => {
+      this.reconnectListeners.delete(listener);
+    };
+  }
+
+  // ===== EVENTS =====
+
+  /**
+   * Handle an event from the server. Returns a function that removes the
+   * handler.
+   */
+  on<E extends ServerEvent>(event: E, handler: ServerToClientEvents[E]) {
+    let handlers = this.handlers.get(event);
+    if (!handlers) {
+      handlers = new Set();
+      this.handlers.set(event, handlers);
+    }
+    handlers.add(handler as Listener);
+    return () => this.off(event, handler);
+  }
+
+  off<E extends ServerEvent>(event: E, handler: ServerToClientEvents[E]) {
+    this.handlers.get(event)?.delete(handler as Listener);
+  }
+
+  /**
+   * Send an event to the server. Returns false, and sends nothing, while
+   * disconnected.
+   */
+  emit<E extends ClientEvent>(event: E, ...args: ClientEventArgs<E>) {
+    if (!this.isConnected) return false;
+    if (this.socket) this.sendToServer(OWN_TAB, event, args);
+    else this.relay?.emit(event, args);
+    return true;
+  }
+
+  /**
+   * Send an event and wait for the server's validated answer. Rejects while
+   * disconnected or when no answer arrives in time.
+   */
+  emitWithAck<E extends AckEvent>(
+    event: E,
+    ...args: AckArgs<E>
+  ): Promise<AckResponse<E>> {
+    if (!this.isConnected) {
+      return Promise.reject(new Error("Not connected to the server"));
+    }
+
+    return new Promise((resolve, reject) => {
+      let stopWaiting: (() => void) | undefined;
+      const timer = setTimeout(() => {
+        stopWaiting?.();
+        reject(
+          new DOMException(
+            `No answer to socket event "${event}"`,
+            "TimeoutError"
+          )
+        );
+      }, ACK_TIMEOUT);
+
+      const onAck = (response: unknown) => {
+        clearTimeout(timer);
+        try {
+          resolve(
+            parseWith(ackSchemas[event], response, `socket ack "${event}"`)
+          );
+        } catch (error) {
+          reject(error);
+        }
+      };
+
+      if (this.socket) this.sendToServer(OWN_TAB, event, args, onAck);
+      else stopWaiting = this.relay?.emit(event, args, onAck);
+    });
+  }
+
+  // Emit on this tab's socket for itself or, as the leader, another tab
+  private sendToServer(
+    tabId: string,
+    event: string,
+    args: unknown[],
+    onAck?: (response: unknown) => void
+  ) {
+    if (!this.socket) return;
+
+    if (event === "joinChat" || event === "leaveChat") {
+      const { chatId } = args[0] as { chatId: string };
+      const tabs = this.roomTabs.get(chatId) ?? new Set<string>();
+      const wasJoined = tabs.size > 0;
+      if (event === "joinChat") tabs.add(tabId);
+      else tabs.delete(tabId);
+      this.roomTabs.set(chatId, tabs);
+      if (wasJoined === tabs.size > 0) {
+        onAck?.(true);
+        return;
+      }
+    }
+
+    if (onAck) this.socket.emit(event, ...args, onAck);
+    else this.socket.emit(event, ...args);
+  }
+
+  // Leave the rooms a closed tab was the last one in
+  private forgetTab(tabId: string) {
+    this.roomTabs.forEach((tabs, chatId) => {
+      if (tabs.has(tabId)) this.sendToServer(tabId, "leaveChat", [{ chatId }]);
+    });
+  }
+
+  private dispatch(event: ServerEvent, args: unknown[]) {
+    // Payloads that break the contract are dropped. No caller is waiting
+    // to show the error, so it's reported here.
+    let parsed: unknown[];
+    try {
+      parsed = parseEventArgs(event, args);
+    } catch (error) {
+      console.error(error);
+      return;
+    }
+    if (event === "newMessage") {
+      const message = parsed[0] as Message;
+      this.markSeen(message.chatId, [message]);
+    }
+    this.handlers.get(event)?.forEach((handler) => handler(...parsed));
+  }
+
+  // Fetch every seen chat's messages after the last one seen, page by page
+  private async catchUp() {
+    const missed = new Map<string, Message[]>();
+    const incomplete = new Set<string>();
+    this.setStatus({ isUpdating: true, updateFailed: false });
+    try {
+      await this.fetchMissed(missed, incomplete);
+    } finally {
+      this.setStatus({ isUpdating: false });
+    }
+    if (this.isConnected) {
+      this.reconnectListeners.forEach((listener) =>
+        listener(missed, incomplete)
+      );
+    }
+  }
+
+  private async fetchMissed(
+    missed: Map<string, Message[]>,
+    incomplete: Set<string>
+  ) {
+    for (const [chatId, lastMessage] of this.lastSeen) {
+      const messages: Message[] = [];
+      let after = lastMessage.id;
+      let complete = false;
+      try {
+        for (let page = 0; page < CATCH_UP_MAX_PAGES && !complete; page++) {
+          const batch = await this.emitWithAck("getMessages", {
+            chatId,
+            after,
+            limit: CATCH_UP_PAGE_SIZE,
+          });
+          // Pages come newest first
+          messages.push(...[...batch].reverse());
+          complete = batch.length < CATCH_UP_PAGE_SIZE;
+          if (!complete) after = batch[0].id;
+        }
+      } catch (error) {
+        console.error(`Failed to catch up on chat ${chatId}:`, error);
+        if (!this.isConnected) return;
+      }
+      if (!complete) incomplete.add(chatId);
+
+      if (messages.length) {
+        missed.set(chatId, messages);
+        this.markSeen(chatId, messages);
+      }
+    }
+  }
+
+  private relayedStatus(): RelayedStatus {
+    const { state, attempts, nextRetryAt } = this.status;
+    return { state, attempts, nextRetryAt };
+  }
+
+  private setStatus(changes: Partial<SocketStatus>) {
+    const previous = this.status;
+    const next = { ...previous, ...changes };
+    const keys = Object.keys(next) as (keyof SocketStatus)[];
+    if (keys.every((key) => next[key] === previous[key])) return;
+    this.status = next;
+    if (this.relay?.isLeader) this.relay.broadcastState(this.relayedStatus());
+    this.stateListeners.forEach((listener) => listener());
+
+    if (next.state === "connected" && previous.state !== "connected") {
+      this.rooms.forEach((chatId) => this.emit("joinChat", { chatId }));
+      if (this.hasConnected) {
+        this.catchUp().catch(() =>
+          this.setStatus({ isUpdating: false, updateFailed: true })
+        );
+      }
+      this.hasConnected = true;
+    }
+  }
+}
@@ -0,0 +1,214 @@
+// api/socketRelay.ts
+
+// Lets the tabs of one account share a single socket. The tabs elect a
+// leader with a Web Lock: the leader holds the lock for as long as it lives
+// and owns the connection, and when it goes away the browser hands the lock
+// to the next tab in line. Everything else travels over a BroadcastChannel:
+// the leader relays server events and its connection state, the other tabs
+// send their emits through it.
+import { SocketStatus } from "../types";
+
+// The part of the connection status that belongs to the leader's socket
+export type RelayedStatus = Pick<
+  SocketStatus,
+  "state" | "attempts" | "nextRetryAt"
+>;
+
+type RelayMessage =
+  | { type: "hello" }
+  | { type: "state"; status: RelayedStatus }
+  | { type: "reconnect" }
+  | { type: "event"; event: string; args: unknown[] }
+  | {
+      type: "emit";
+      tabId: string;
+      requestId?: number;
+      event: string;
+      args: unknown[];
+    }
+  | { type: "ack"; tabId: string; requestId: number; response: unknown }
+  | { type: "bye"; tabId: string };
+
+export interface RelayHandlers {
+  // This tab won the election and should open the connection
+  onLeadership: () => void;
+  // What the leader reports, on the other tabs
+  onState: (status: RelayedStatus) => void;
+  onEvent: (event: string, args: unknown[]) => void;
+  // Something another tab wants sent, on the leader. `reply` is set when
+  // the sender waits for an acknowledgement.
+  onEmit: (
+    tabId: string,
+    event: string,
+    args: unknown[],
+    reply?: (response: unknown) => void
+  ) => void;
+  // Another tab asked for an attempt to connect now, on the leader
+  onReconnect: () => void;
+  // Another tab closed, and the rooms it joined can be left, on the leader
+  onTabClosed: (tabId: string) => void;
+  // This tab came back from the back/forward cache, where the leader
+  // counted it as closed
+  onReturn: () => void;
+  // The leader's connection status, for tabs that just opened
+  getState: () => RelayedStatus;
+}
+
+const createTabId = () => Math.random().toString(36).slice(2, 12);
+
+export class TabRelay {
+  readonly tabId = createTabId();
+  private leader = false;
+  private channel: BroadcastChannel | null = null;
+  private election: AbortController | null = null;
+  private resign?: () => void;
+  private pendingAcks = new Map<number, (response: unknown) => void>();
+  private nextRequestId = 1;
+
+  constructor(private key: string, private handlers: RelayHandlers) {}
+
+  static isSupported() {
+    return (
+      typeof BroadcastChannel !== "undefined" &&
+      typeof navigator !== "undefined" &&
+      !!navigator.locks
+    );
+  }
+
+  get isLeader() {
+    return this.leader;
+  }
+
+  start() {
+    if (this.channel) return;
+    this.channel = new BroadcastChannel(`socket:${this.key}`);
+    this.channel.addEventListener("message", this.receive);
+    window.addEventListener("pagehide", this.leave);
+    window.addEventListener("pageshow", this.comeBack);
+    this.post({ type: "hello" });
+
+    this.election = new AbortController();
+    navigator.locks
+      .request(`socket:${this.key}`, { signal: this.election.signal }, () => {
+        // Won just as the election was called off
+        if (!this.channel) return Promise.resolve();
+        return new Promise<void>((resolve) => {
+          this.resign = resolve;
+          this.leader = true;
+          this.handlers.onLeadership();
+        });
+      })
+      // Rejects when the election is called off before this tab won it
+      .catch(() => {});
+  }
+
+  // Leave the election, handing the connection over if this tab had it
+  stop() {
+    this.leave();
+    this.resign?.();
+    this.election?.abort();
+    window.removeEventListener("pagehide", this.leave);
+    window.removeEventListener("pageshow", this.comeBack);
+    this.channel?.removeEventListener("message", this.receive);
+    this.channel?.close();
+    this.channel = null;
+    this.leader = false;
+    this.pendingAcks.clear();
+  }
+
+  // ===== LEADER =====
+
+  broadcastState(status: RelayedStatus) {
+    this.post({ type: "state", status });
+  }
+
+  broadcastEvent(event: string, args: unknown[]) {
+    this.post({ type: "event", event, args });
+  }
+
+  // ===== OTHER TABS =====
+
+  // Send an event through the leader. Returns a function that stops
+  // waiting for the acknowledgement, for when the sender gives up on it.
+  emit(event: string, args: unknown[], onAck?: (response: unknown) => void) {
+    let requestId: number | undefined;
+    if (onAck) {
+      requestId = this.nextRequestId++;
+      this.pendingAcks.set(requestId, onAck);
+    }
+    this.post({ type: "emit", tabId: this.tabId, requestId, event, args });
+    return () => {
+      if (requestId !== undefined) this.pendingAcks.delete(requestId);
+    };
+  }
+
+  // Ask the leader to stop waiting and connect now
+  requestReconnect() {
+    this.post({ type: "reconnect" });
+  }
+
+  // ===== CHANNEL =====
+
+  private post(message: RelayMessage) {
+    this.channel?.postMessage(message);
+  }
+
+  // Tell the other tabs this one is going away. If it held the connection,
+  // the next leader is about to open another; if not, the leader can leave
+  // the rooms only this tab was in.
+  private leave = () => {
+    if (this.leader) {
+      this.broadcastState({
+        state: "connecting",
+        attempts: 0,
+        nextRetryAt: null,
+      });
+    } else {
+      this.post({ type: "bye", tabId: this.tabId });
+    }
+  };
+
+  private comeBack = (event: PageTransitionEvent) => {
+    if (event.persisted && !this.leader) this.handlers.onReturn();
+  };
+
+  private receive = ({ data }: MessageEvent<RelayMessage>) => {
+    switch (data.type) {
+      case "hello":
+        if (this.leader) this.broadcastState(this.handlers.getState());
+        break;
+      case "state":
+        if (!this.leader) this.handlers.onState(data.status);
+        break;
+      case "reconnect":
+        if (this.leader) this.handlers.onReconnect();
+        break;
+      case "event":
+        if (!this.leader) this.handlers.onEvent(data.event, data.args);
+        break;
+      case "emit": {
+        if (!this.leader) break;
+        const { tabId, requestId } = data;
+        this.handlers.onEmit(
+          tabId,
+          data.event,
+          data.args,
+          requestId === undefined
+            ? undefined
+            : (response) =>
+                this.post({ type: "ack", tabId, requestId, response })
+        );
+        break;
+      }
+      case "bye":
+        if (this.leader) this.handlers.onTabClosed(data.tabId);
+        break;
+      case "ack":
+        if (data.tabId === this.tabId) {
+          this.pendingAcks.get(data.requestId)?.(data.response);
+          this.pendingAcks.delete(data.requestId);
+        }
+        break;
+    }
+  };
+}
@@ -0,0 +1,133 @@
+// src/api/uploads.ts
+import { apiClient } from "./client";
+import { ApiRequestError } from "./errors";
+import {
+  parseResponse,
+  uploadSessionSchema,
+  uploadedFileSchema,
+} from "./schemas";
+import { UploadSession, UploadedFile } from "../types";
+
+// Chunked uploads. These run outside React (the upload manager keeps going
+// while components mount and unmount), so they call the shared client
+// directly and name the account the upload belongs to.
+
+export interface CreateUploadData {
+  filename: string;
+  size: number;
+  mimeType: string;
+  type: "image" | "file" | "voice";
+  chunkSize: number;
+}
+
+/**
+ * Start an upload session for a file that will be sent to a chat
+ */
+export const createUploadSession = async (
+  accountId: string | undefined,
+  chatId: string,
+  data: CreateUploadData,
+  signal?: AbortSignal
+): Promise<UploadSession> => {
+  const response = await apiClient.post(`/chats/${chatId}/uploads`, data, {
+    accountId,
+    signal,
+  });
+  if (!response.ok) {
+    throw await ApiRequestError.fromResponse(
+      response,
+      "Failed to start upload"
+    );
+  }
+  return parseResponse(response, uploadSessionSchema);
+};
+
+/**
+ * Get which chunks of an upload the server already has, to resume it
+ */
+export const getUploadSession = async (
+  accountId: string | undefined,
+  uploadId: string,
+  signal?: AbortSignal
+): Promise<UploadSession> => {
+  const response = await apiClient.get(`/uploads/${uploadId}`, {
+    accountId,
+    signal,
+  });
+  if (!response.ok) {
+    throw await ApiRequestError.fromResponse(
+      response,
+      "Failed to fetch upload status"
+    );
+  }
+  return parseResponse(response, uploadSessionSchema);
+};
+
+/**
+ * Upload one chunk. PUT is idempotent, so the client retries it on flaky
+ * connections.
+ */
+export const uploadChunk = async (
+  accountId: string | undefined,
+  uploadId: string,
+  index: number,
+  chunk: Blob,
+  range: { start: number; end: number; total: number },
+  signal?: AbortSignal
+): Promise<void> => {
+  const response = await apiClient.put(
+    `/uploads/${uploadId}/chunks/${index}`,
+    chunk,
+    {
+      accountId,
+      signal,
+      headers: {
+        "Content-Type": "application/octet-stream",
+        "Content-Range": `bytes ${range.start}-${range.end - 1}/${range.total}`,
+      },
+    }
+  );
+  if (!response.ok) {
+    throw await ApiRequestError.fromResponse(response, "Failed to upload file");
+  }
+};
+
+/**
+ * Assemble the uploaded chunks into a file that can be attached to a message
+ */
+export const completeUpload = async (
+  accountId: string | undefined,
+  uploadId: string,
+  signal?: AbortSignal
+): Promise<UploadedFile> => {
+  const response = await apiClient.post(
+    `/uploads/${uploadId}/complete`,
+    undefined,
+    { accountId, signal }
+  );
+  if (!response.ok) {
+    throw await ApiRequestError.fromResponse(
+      response,
+      "Failed to finish upload"
+    );
+  }
+  return parseResponse(response, uploadedFileSchema);
+};
+
+/**
+ * Drop an unfinished upload and the chunks stored for it
+ */
+export const abortUpload = async (
+  accountId: string | undefined,
+  uploadId: string
+): Promise<void> => {
+  const response = await apiClient.delete(`/uploads/${uploadId}`, {
+    accountId,
+  });
+  if (!response.ok && response.status !== 404) {
+    throw await ApiRequestError.fromResponse(
+      response,
+      "Failed to cancel upload"
+    );
+  }
+};
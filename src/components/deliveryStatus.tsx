@@ -0,0 +1,43 @@
+import React from "react";
+import { AlertCircle, Check, CheckCheck, Clock } from "lucide-react";
+import { DeliveryStatus } from "../types";
+
+interface DeliveryStatusIconProps {
+  status: DeliveryStatus;
+  className?: string;
+}
+
+const LABELS: Record<DeliveryStatus, string> = {
+  sending: "Sending",
+  sent: "Sent",
+  delivered: "Delivered",
+  read: "Read",
+  failed: "Not sent",
+};
+
+// The ticks next to the time on the sender's own messages
+export const DeliveryStatusIcon: React.FC<DeliveryStatusIconProps> = ({
+  status,
+  className = "",
+}) => {
+  const props = {
+    className: `w-3.5 h-3.5 flex-shrink-0 ${className}`,
+    "aria-label": LABELS[status],
+  };
+
+  return (
+    <span title={LABELS[status]} className="inline-flex">
+      {status === "sending" ? (
+        <Clock {...props} />
+      ) : status === "failed" ? (
+        <AlertCircle {...props} />
+      ) : status === "sent" ? (
+        <Check {...props} />
+      ) : status === "delivered" ? (
+        <CheckCheck {...props} />
+      ) : (
+        <CheckCheck {...props} className={`${props.className} text-sky-200`} />
+      )}
+    </span>
+  );
+};
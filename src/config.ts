@@ -0,0 +1,49 @@
+// config.ts
+export interface AppConfig {
+  apiBaseUrl: string;
+  socketUrl: string;
+  appToken: string;
+  // Answer API and socket traffic in the browser (see api/fake)
+  fakeBackend: boolean;
+  // Let the open tabs of an account share one socket connection
+  sharedSocket: boolean;
+}
+
+declare global {
+  interface Window {
+    // Set by public/config.js, which deployments can replace without a rebuild
+    __APP_CONFIG__?: Partial<AppConfig>;
+  }
+}
+
+const DEFAULT_API_BASE_URL = "http://localhost:4001/api/v1";
+
+const runtimeConfig =
+  (typeof window !== "undefined" && window.__APP_CONFIG__) || {};
+
+const apiBaseUrl = (
+  runtimeConfig.apiBaseUrl ||
+  import.meta.env.VITE_API_BASE_URL ||
+  DEFAULT_API_BASE_URL
+).replace(/\/+$/, "");
+
+/**
+ * Where the app talks to. Runtime config (window.__APP_CONFIG__) wins over
+ * the VITE_* variables baked in at build time, which win over the local
+ * defaults. The socket URL defaults to the origin of the API URL.
+ * `?fakeBackend` in the page URL also turns the fake backend on, for demos.
+ */
+export const config: AppConfig = {
+  apiBaseUrl,
+  socketUrl:
+    runtimeConfig.socketUrl ||
+    import.meta.env.VITE_SOCKET_URL ||
+    new URL(apiBaseUrl, window.location.href).origin,
+  appToken: runtimeConfig.appToken || import.meta.env.VITE_APP_TOKEN || "123",
+  fakeBackend:
+    runtimeConfig.fakeBackend ??
+    (import.meta.env.VITE_FAKE_BACKEND === "true" ||
+      new URLSearchParams(window.location.search).has("fakeBackend")),
+  sharedSocket:
+    runtimeConfig.sharedSocket ?? import.meta.env.VITE_SHARED_SOCKET === "true",
+};
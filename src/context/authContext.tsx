@@ -1,11 +1,67 @@
-import React, { createContext, useContext, useReducer, useEffect } from "react";
-import { User, AuthState } from "../types";
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useReducer,
+  useEffect,
+} from "react";
+import {
+  User,
+  AuthState,
+  UpdateProfileData,
+  Account,
+  PhoneCodeRequest,
+  TwoFactorChallenge,
+  TwoFactorMethod,
+} from "../types";
+import { apiClient } from "../api/client";
+import { ApiRequestError } from "../api/errors";
+import { parseResponse, parseWith, userSchema } from "../api/schemas";
+import { refreshAccessToken, setRefreshHandler } from "../utils/tokenRefresh";
+import {
+  StoredAccount,
+  getActiveAccountId,
+  getStoredAccount,
+  getStoredAccounts,
+  removeStoredAccount,
+  saveStoredAccount,
+  setActiveAccount,
+  updateStoredAccount,
+} from "../utils/accountStorage";
+import {
+  broadcastAuthEvent,
+  subscribeToAuthEvents,
+} from "../utils/authChannel";
+import { deleteLocalCache } from "../utils/localCache";
+import { clearOutbox } from "../utils/outbox";
+import { uploadManager } from "../utils/uploadManager";
 
 interface AuthContextType extends AuthState {
-  login: (email: string, password: string) => Promise<void>;
+  // Resolve to a challenge when a second factor is required, null otherwise
+  login: (
+    email: string,
+    password: string
+  ) => Promise<TwoFactorChallenge | null>;
+  requestPhoneCode: (phone: string) => Promise<PhoneCodeRequest>;
+  verifyPhoneCode: (
+    phone: string,
+    code: string
+  ) => Promise<TwoFactorChallenge | null>;
+  verifyTwoFactor: (
+    challengeToken: string,
+    code: string,
+    method: TwoFactorMethod
+  ) => Promise<void>;
   logout: () => void;
+  logoutAll: () => void;
+  refreshUser: () => Promise<User | null>;
+  updateProfile: (data: UpdateProfileData) => Promise<User>;
+  switchAccount: (accountId: string) => void;
+  removeAccount: (accountId: string) => void;
+  addAccount: () => void;
+  cancelAddAccount: () => void;
+  isAddingAccount: boolean;
   register: (
-
     username: string,
     email: string,
     phone: string,
@@ -16,31 +72,107 @@ interface AuthContextType extends AuthState {
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+type AuthReducerState = AuthState & {
+  isLoading: boolean;
+  isAddingAccount: boolean;
+};
+
+type SessionPayload = { token: string; user: User; accounts: Account[] };
+
+type SessionTokens = {
+  access_token: string;
+  refresh_token: string;
+  user?: User;
+};
+
+type SignInResponse =
+  | SessionTokens
+  | {
+      twoFactorRequired: true;
+      challengeToken: string;
+      methods?: TwoFactorMethod[];
+    };
+
 type AuthAction =
-  | { type: "LOGIN_SUCCESS"; payload: { token: string } }
+  | { type: "LOGIN_SUCCESS"; payload: SessionPayload }
   | { type: "LOGOUT" }
-  | { type: "RESTORE_SESSION"; payload: { token: string } }
+  | { type: "RESTORE_SESSION"; payload: SessionPayload }
+  | { type: "SWITCH_ACCOUNT"; payload: SessionPayload }
+  | { type: "SYNC_SESSION"; payload: SessionPayload }
+  | { type: "TOKEN_REFRESHED"; payload: { token: string } }
+  | { type: "SET_USER"; payload: User }
+  | { type: "SET_ACCOUNTS"; payload: Account[] }
+  | { type: "SET_ADDING_ACCOUNT"; payload: boolean }
   | { type: "SET_LOADING"; payload: boolean };
 
+const toAccounts = (stored: StoredAccount[]): Account[] =>
+  stored.map(({ id, token, user }) => ({ id, token, user }));
+
+// Signing out of an account leaves nothing of it on this device
+const forgetAccount = (accountId: string) => {
+  removeStoredAccount(accountId);
+  deleteLocalCache(accountId);
+  clearOutbox(accountId);
+  uploadManager.forgetAccount(accountId);
+};
+
 const authReducer = (
-  state: AuthState & { isLoading: boolean },
+  state: AuthReducerState,
   action: AuthAction
-): AuthState & { isLoading: boolean } => {
+): AuthReducerState => {
   switch (action.type) {
     case "LOGIN_SUCCESS":
     case "RESTORE_SESSION":
+    case "SWITCH_ACCOUNT":
       return {
-        user: null,
+        user: action.payload.user,
+        token: action.payload.token,
+        isAuthenticated: true,
+        accounts: action.payload.accounts,
+        activeAccountId: action.payload.user.id,
+        isLoading: false,
+        isAddingAccount: false,
+      };
+    case "SYNC_SESSION":
+      // Same as a switch, but a sign-in form this tab has open stays open
+      return {
+        ...state,
+        user: action.payload.user,
         token: action.payload.token,
         isAuthenticated: true,
+        accounts: action.payload.accounts,
+        activeAccountId: action.payload.user.id,
         isLoading: false,
       };
+    case "TOKEN_REFRESHED":
+      return {
+        ...state,
+        token: action.payload.token,
+      };
+    case "SET_USER":
+      return {
+        ...state,
+        user: action.payload,
+      };
+    case "SET_ACCOUNTS":
+      return {
+        ...state,
+        accounts: action.payload,
+      };
+    case "SET_ADDING_ACCOUNT":
+      return {
+        ...state,
+        isAddingAccount: action.payload,
+      };
     case "LOGOUT":
       return {
         user: null,
         token: null,
         isAuthenticated: false,
+        accounts: [],
+        activeAccountId: null,
         isLoading: false,
+        isAddingAccount: false,
       };
     case "SET_LOADING":
       return {
@@ -52,11 +184,17 @@ const authReducer = (
   }
 };
 
-const initialState: AuthState & { isLoading: boolean } = {
+// Answers to a refresh that mean the refresh token is no good
+const REFRESH_REJECTED_STATUSES = [400, 401, 403];
+
+const initialState: AuthReducerState = {
   user: null,
   token: null,
   isAuthenticated: false,
+  accounts: [],
+  activeAccountId: null,
   isLoading: true, // Start with loading true
+  isAddingAccount: false,
 };
 
 export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
@@ -64,30 +202,206 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
 }) => {
   const [state, dispatch] = useReducer(authReducer, initialState);
 
-  // API configuration
-  const API_BASE_URL = "http://localhost:4001/api/v1";
-
-  // Token validation function
-  // const validateToken = async (token: string): Promise<User | null> => {
-  //   try {
-  //     const response = await fetch(`${API_BASE_URL}/auth/validate`, {
-  //       method: "GET",
-  //       headers: {
-  //         Authorization: `Bearer ${token}`,
-  //         "x-app-token": "123",
-  //       },
-  //     });
-
-  //     if (response.ok) {
-  //       const data = await response.json();
-  //       return data.user;
-  //     }
-  //     return null;
-  //   } catch (error) {
-  //     console.error("Token validation error:", error);
-  //     return null;
-  //   }
-  // };
+  // Token validation function. Resolves to the user the token belongs to, or
+  // null if the backend rejects it.
+  const validateToken = useCallback(
+    async (token: string): Promise<User | null> => {
+      const response = await apiClient.get("/auth/validate", { token });
+
+      if (response.ok) {
+        const data = await response.json();
+        return parseWith(userSchema, data?.user, "/auth/validate");
+      }
+      if (response.status === 401 || response.status === 403) {
+        return null;
+      }
+      throw await ApiRequestError.fromResponse(
+        response,
+        `Token validation failed with status ${response.status}`
+      );
+    },
+    []
+  );
+
+  // Validate a token, refreshing it once if it has expired
+  const loadSessionUser = useCallback(
+    async (token: string): Promise<{ token: string; user: User } | null> => {
+      const user = await validateToken(token);
+      if (user) {
+        return { token, user };
+      }
+
+      const newToken = await refreshAccessToken(token);
+      if (!newToken) {
+        return null;
+      }
+      const refreshedUser = await validateToken(newToken);
+      return refreshedUser ? { token: newToken, user: refreshedUser } : null;
+    },
+    [validateToken]
+  );
+
+  // Store an account, make it the active one and return the session payload
+  const activateAccount = useCallback(
+    (account: StoredAccount): SessionPayload => {
+      saveStoredAccount(account);
+      setActiveAccount(account);
+      return {
+        token: account.token,
+        user: account.user,
+        accounts: toAccounts(getStoredAccounts()),
+      };
+    },
+    []
+  );
+
+  // Sign out of the active account and fall back to the next signed-in one
+  const logout = useCallback(() => {
+    const activeAccountId = getActiveAccountId();
+    if (activeAccountId) {
+      forgetAccount(activeAccountId);
+    }
+
+    const [nextAccount] = getStoredAccounts();
+    if (nextAccount) {
+      dispatch({
+        type: "SWITCH_ACCOUNT",
+        payload: activateAccount(nextAccount),
+      });
+    } else {
+      // Clear all auth-related data
+      setActiveAccount(null);
+      dispatch({ type: "LOGOUT" });
+    }
+    broadcastAuthEvent("logout");
+  }, [activateAccount]);
+
+  const removeAccount = useCallback(
+    (accountId: string) => {
+      if (accountId === getActiveAccountId()) {
+        logout();
+        return;
+      }
+      forgetAccount(accountId);
+      dispatch({
+        type: "SET_ACCOUNTS",
+        payload: toAccounts(getStoredAccounts()),
+      });
+      broadcastAuthEvent("accounts_changed");
+    },
+    [logout]
+  );
+
+  useEffect(() => {
+    // Exchange an account's refresh token for a new access token. Only a
+    // rejected refresh signs the account out; network and server errors
+    // propagate to the caller, and the session stays. Without an account id the single-session keys are used, which
+    // covers sessions stored before multi-account support.
+    const refreshSession = async (
+      accountId?: string
+    ): Promise<string | null> => {
+      const account = accountId ? getStoredAccount(accountId) : undefined;
+      const isActive = !accountId || accountId === getActiveAccountId();
+      const refreshToken = account
+        ? account.refreshToken
+        : localStorage.getItem("refreshToken");
+
+      const endSession = () => {
+        if (isActive) {
+          logout();
+        } else if (accountId) {
+          removeAccount(accountId);
+        }
+      };
+
+      if (!refreshToken) {
+        endSession();
+        return null;
+      }
+
+      const response = await apiClient.post(
+        "/auth/refresh",
+        { refresh_token: refreshToken },
+        { auth: false }
+      );
+
+      if (!response.ok) {
+        if (!REFRESH_REJECTED_STATUSES.includes(response.status)) {
+          throw await ApiRequestError.fromResponse(
+            response,
+            `Token refresh failed with status ${response.status}`
+          );
+        }
+        endSession();
+        return null;
+      }
+
+      const data = await response.json();
+      // Servers that rotate refresh tokens send a new one with every refresh
+      const nextRefreshToken: string = data.refresh_token ?? refreshToken;
+
+      if (account) {
+        updateStoredAccount(account.id, {
+          token: data.access_token,
+          refreshToken: nextRefreshToken,
+        });
+        dispatch({
+          type: "SET_ACCOUNTS",
+          payload: toAccounts(getStoredAccounts()),
+        });
+      }
+
+      if (isActive) {
+        localStorage.setItem("token", data.access_token);
+        localStorage.setItem("refreshToken", nextRefreshToken);
+        dispatch({
+          type: "TOKEN_REFRESHED",
+          payload: { token: data.access_token },
+        });
+      }
+      broadcastAuthEvent("token_refreshed");
+      return data.access_token;
+    };
+
+    setRefreshHandler(refreshSession);
+    // A request still rejected after a refresh ends that account's session
+    apiClient.setSessionExpiredHandler((accountId) => {
+      if (accountId && accountId !== getActiveAccountId()) {
+        removeAccount(accountId);
+      } else {
+        logout();
+      }
+    });
+    return () => {
+      setRefreshHandler(null);
+      apiClient.setSessionExpiredHandler(undefined);
+    };
+  }, [logout, removeAccount]);
+
+  useEffect(() => {
+    // Follow sign-ins, sign-outs, account switches and token refreshes made
+    // in other tabs. The session itself always comes from localStorage.
+    return subscribeToAuthEvents(() => {
+      const activeAccountId = getActiveAccountId();
+      const account = activeAccountId
+        ? getStoredAccount(activeAccountId)
+        : undefined;
+
+      if (!account) {
+        dispatch({ type: "LOGOUT" });
+        return;
+      }
+
+      dispatch({
+        type: "SYNC_SESSION",
+        payload: {
+          token: account.token,
+          user: account.user,
+          accounts: toAccounts(getStoredAccounts()),
+        },
+      });
+    });
+  }, []);
 
   useEffect(() => {
     // Restore session from localStorage on app start
@@ -99,63 +413,192 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
       if (token) {
         try {
           // Validate token with backend
-          const validUser = true;
+          const session = await loadSessionUser(token);
 
-          if (validUser) {
-            // Token is valid, restore session
+          if (session) {
+            // Token is valid, restore session. Sessions stored before
+            // multi-account support become the first account here.
+            const existing = getStoredAccount(session.user.id);
             dispatch({
               type: "RESTORE_SESSION",
-              payload: { token },
+              payload: activateAccount({
+                id: session.user.id,
+                token: session.token,
+                refreshToken: localStorage.getItem("refreshToken"),
+                user: session.user,
+                loginTime:
+                  existing?.loginTime ??
+                  (Number(localStorage.getItem("loginTime")) || Date.now()),
+              }),
             });
-          } else {
-            // Token is invalid, clear storage
-            localStorage.removeItem("token");
-            localStorage.removeItem("user");
-            dispatch({ type: "SET_LOADING", payload: false });
+          } else if (localStorage.getItem("token") === token) {
+            // Token is invalid, sign this account out (a failed refresh may
+            // already have done so)
+            logout();
           }
         } catch (error) {
+          // Backend unreachable: fall back to the cached profile, if any
           console.error("Session restore error:", error);
-          localStorage.removeItem("token");
-          localStorage.removeItem("user");
-          dispatch({ type: "SET_LOADING", payload: false });
+          const cachedUser = localStorage.getItem("user");
+          if (cachedUser) {
+            dispatch({
+              type: "RESTORE_SESSION",
+              payload: {
+                token,
+                user: JSON.parse(cachedUser),
+                accounts: toAccounts(getStoredAccounts()),
+              },
+            });
+          } else {
+            logout();
+          }
         }
       } else {
-        dispatch({ type: "SET_LOADING", payload: false });
+        const [account] = getStoredAccounts();
+        if (account) {
+          dispatch({
+            type: "RESTORE_SESSION",
+            payload: activateAccount(account),
+          });
+        } else {
+          dispatch({ type: "SET_LOADING", payload: false });
+        }
       }
     };
 
     initializeAuth();
-  }, []);
+  }, [loadSessionUser, activateAccount, logout]);
+
+  // Turn a successful sign-in response into the active session
+  const completeSignIn = async (data: SessionTokens) => {
+    // Load the profile before storing anything, so a failure leaves no
+    // half-initialized session behind
+    const user: User | null = data.user
+      ? parseWith(userSchema, data.user, "sign-in response")
+      : await validateToken(data.access_token);
+    if (!user) {
+      throw new Error("Login failed: could not load user profile");
+    }
+
+    // Store the account (replacing an earlier session of the same user)
+    // along with the login timestamp, and switch to it
+    dispatch({
+      type: "LOGIN_SUCCESS",
+      payload: activateAccount({
+        id: user.id,
+        token: data.access_token,
+        refreshToken: data.refresh_token,
+        user,
+        loginTime: Date.now(),
+      }),
+    });
+    broadcastAuthEvent("login");
+  };
+
+  // A sign-in response either carries the session or, for accounts with
+  // two-factor authentication, a challenge the user still has to answer
+  const handleSignInResponse = async (
+    data: SignInResponse
+  ): Promise<TwoFactorChallenge | null> => {
+    if ("twoFactorRequired" in data) {
+      return {
+        challengeToken: data.challengeToken,
+        methods: data.methods ?? ["totp", "backup_code"],
+      };
+    }
+    await completeSignIn(data);
+    return null;
+  };
 
   const login = async (email: string, password: string) => {
     try {
-      const response = await fetch(`${API_BASE_URL}/auth/signin`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "x-app-token": "123",
-        },
-        body: JSON.stringify({ email, password }),
-      });
+      const response = await apiClient.post(
+        "/auth/signin",
+        { email, password },
+        { auth: false }
+      );
+
+      if (!response.ok) {
+        throw await ApiRequestError.fromResponse(response, "Login failed");
+      }
 
       const data = await response.json();
 
+      return await handleSignInResponse(data);
+    } catch (error) {
+      console.error("Login error:", error);
+      throw error;
+    }
+  };
+
+  // Send a one-time sign-in code to an E.164 phone number
+  const requestPhoneCode = async (phone: string): Promise<PhoneCodeRequest> => {
+    try {
+      const response = await apiClient.post(
+        "/auth/phone/request-code",
+        { phone },
+        { auth: false }
+      );
+
       if (!response.ok) {
-        throw new Error(data.message || "Login failed");
+        throw await ApiRequestError.fromResponse(
+          response,
+          "Failed to send code"
+        );
       }
 
-      // Store in localStorage with expiration check
-      localStorage.setItem("token", data.access_token);
+      const data = await response.json();
 
-      // Also store login timestamp for additional validation
-      localStorage.setItem("loginTime", Date.now().toString());
+      return { resendIn: data.resendIn ?? 60, expiresIn: data.expiresIn };
+    } catch (error) {
+      console.error("Phone code request error:", error);
+      throw error;
+    }
+  };
 
-      dispatch({
-        type: "LOGIN_SUCCESS",
-        payload: { token: data.access_token },
-      });
+  const verifyPhoneCode = async (phone: string, code: string) => {
+    try {
+      const response = await apiClient.post(
+        "/auth/phone/verify",
+        { phone, code },
+        { auth: false }
+      );
+
+      if (!response.ok) {
+        throw await ApiRequestError.fromResponse(response, "Invalid code");
+      }
+
+      const data = await response.json();
+
+      return await handleSignInResponse(data);
     } catch (error) {
-      console.error("Login error:", error);
+      console.error("Phone code verification error:", error);
+      throw error;
+    }
+  };
+
+  // Answer a two-factor challenge with an authenticator or backup code
+  const verifyTwoFactor = async (
+    challengeToken: string,
+    code: string,
+    method: TwoFactorMethod
+  ) => {
+    try {
+      const response = await apiClient.post(
+        "/auth/2fa/verify",
+        { challengeToken, code, method },
+        { auth: false }
+      );
+
+      if (!response.ok) {
+        throw await ApiRequestError.fromResponse(response, "Invalid code");
+      }
+
+      const data = await response.json();
+
+      await completeSignIn(data);
+    } catch (error) {
+      console.error("Two-factor verification error:", error);
       throw error;
     }
   };
@@ -167,21 +610,21 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
     password: string
   ) => {
     try {
-      const response = await fetch(`${API_BASE_URL}/auth/signup`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "x-app-token": "123",
-        },
-        body: JSON.stringify({ username, email, phone, password }),
-      });
-
-      const data = await response.json();
+      const response = await apiClient.post(
+        "/auth/signup",
+        { username, email, phone, password },
+        { auth: false }
+      );
 
       if (!response.ok) {
-        throw new Error(data.message || "Registration failed");
+        throw await ApiRequestError.fromResponse(
+          response,
+          "Registration failed"
+        );
       }
 
+      const data = await response.json();
+
       // Registration successful - data should contain user info
       return data;
     } catch (error) {
@@ -190,13 +633,76 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
     }
   };
 
-  const logout = () => {
-    // Clear all auth-related data
-    localStorage.removeItem("token");
-    localStorage.removeItem("user");
-    localStorage.removeItem("loginTime");
-
+  // Sign out of every stored account at once
+  const logoutAll = () => {
+    getStoredAccounts().forEach((account) => forgetAccount(account.id));
+    setActiveAccount(null);
     dispatch({ type: "LOGOUT" });
+    broadcastAuthEvent("logout");
+  };
+
+  const switchAccount = (accountId: string) => {
+    const account = getStoredAccount(accountId);
+    if (!account || accountId === getActiveAccountId()) {
+      return;
+    }
+    dispatch({ type: "SWITCH_ACCOUNT", payload: activateAccount(account) });
+    broadcastAuthEvent("account_switched");
+  };
+
+  // Show the sign-in form on top of the current session
+  const addAccount = () => {
+    dispatch({ type: "SET_ADDING_ACCOUNT", payload: true });
+  };
+
+  const cancelAddAccount = () => {
+    dispatch({ type: "SET_ADDING_ACCOUNT", payload: false });
+  };
+
+  const setUser = (user: User) => {
+    localStorage.setItem("user", JSON.stringify(user));
+    updateStoredAccount(user.id, { user });
+    dispatch({ type: "SET_USER", payload: user });
+    dispatch({
+      type: "SET_ACCOUNTS",
+      payload: toAccounts(getStoredAccounts()),
+    });
+    broadcastAuthEvent("accounts_changed");
+  };
+
+  // Re-fetch the current user's profile from the backend
+  const refreshUser = async (): Promise<User | null> => {
+    const token = localStorage.getItem("token");
+    if (!token) {
+      return null;
+    }
+
+    const session = await loadSessionUser(token);
+    if (!session) {
+      if (localStorage.getItem("token") === token) {
+        logout();
+      }
+      return null;
+    }
+
+    setUser(session.user);
+    return session.user;
+  };
+
+  const updateProfile = async (data: UpdateProfileData): Promise<User> => {
+    const response = await apiClient.patch("/users/me", data);
+
+    if (!response.ok) {
+      throw await ApiRequestError.fromResponse(
+        response,
+        "Failed to update profile"
+      );
+    }
+
+    const result = await parseResponse(response, userSchema);
+
+    setUser(result);
+    return result;
   };
 
   return (
@@ -204,8 +710,18 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
       value={{
         ...state,
         login,
+        requestPhoneCode,
+        verifyPhoneCode,
+        verifyTwoFactor,
         logout,
+        logoutAll,
         register,
+        refreshUser,
+        updateProfile,
+        switchAccount,
+        removeAccount,
+        addAccount,
+        cancelAddAccount,
         isLoading: state.isLoading,
       }}
     >
@@ -0,0 +1,27 @@
+import { createContext, useContext } from "react";
+
+export interface LockContextType {
+  isLocked: boolean;
+  hasPasscode: boolean;
+  autoLockMinutes: number;
+  remainingAttempts: number;
+  lock: () => void;
+  // Resolves to false on a wrong passcode
+  unlock: (passcode: string) => Promise<boolean>;
+  setPasscode: (passcode: string, autoLockMinutes: number) => Promise<void>;
+  removePasscode: () => void;
+  setAutoLockMinutes: (minutes: number) => void;
+}
+
+// Provided by LockProvider (see lockContext.tsx)
+export const LockContext = createContext<LockContextType | undefined>(
+  undefined
+);
+
+export const useLock = () => {
+  const context = useContext(LockContext);
+  if (context === undefined) {
+    throw new Error("useLock must be used within a LockProvider");
+  }
+  return context;
+};
@@ -0,0 +1,155 @@
+import React, { useEffect, useState } from "react";
+import { useAuth } from "./authContext";
+import { LockContext } from "./lock";
+import {
+  PasscodeRecord,
+  createPasscodeRecord,
+  loadPasscodeRecord,
+  savePasscodeRecord,
+  verifyPasscode,
+} from "../utils/passcode";
+
+const FAILED_ATTEMPTS_KEY = "passcodeFailedAttempts";
+const MAX_FAILED_ATTEMPTS = 5;
+const ACTIVITY_EVENTS = [
+  "mousemove",
+  "mousedown",
+  "keydown",
+  "touchstart",
+  "wheel",
+] as const;
+
+export const LockProvider: React.FC<{ children: React.ReactNode }> = ({
+  children,
+}) => {
+  const { isAuthenticated, logoutAll } = useAuth();
+  const [passcode, setPasscodeRecord] = useState<PasscodeRecord | null>(
+    loadPasscodeRecord
+  );
+  // With a passcode set, the app always starts locked
+  const [isLocked, setIsLocked] = useState(() => !!loadPasscodeRecord());
+  const [failedAttempts, setFailedAttempts] = useState(
+    () => Number(localStorage.getItem(FAILED_ATTEMPTS_KEY)) || 0
+  );
+
+  const autoLockMinutes = passcode?.autoLockMinutes ?? 0;
+
+  // Idle auto-lock. Timers are throttled in background tabs, so the idle
+  // time is also checked when the tab becomes visible again.
+  useEffect(() => {
+    if (!passcode || !autoLockMinutes || isLocked || !isAuthenticated) {
+      return;
+    }
+
+    const idleLimit = autoLockMinutes * 60 * 1000;
+    let lastActivity = Date.now();
+    let timeout = setTimeout(() => setIsLocked(true), idleLimit);
+
+    const handleActivity = () => {
+      lastActivity = Date.now();
+      clearTimeout(timeout);
+      timeout = setTimeout(() => setIsLocked(true), idleLimit);
+    };
+
+    const handleVisibilityChange = () => {
+      if (
+        document.visibilityState === "visible" &&
+        Date.now() - lastActivity >= idleLimit
+      ) {
+        setIsLocked(true);
+      }
+    };
+
+    ACTIVITY_EVENTS.forEach((event) =>
+      window.addEventListener(event, handleActivity, { passive: true })
+    );
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+
+    return () => {
+      clearTimeout(timeout);
+      ACTIVITY_EVENTS.forEach((event) =>
+        window.removeEventListener(event, handleActivity)
+      );
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+    };
+  }, [passcode, autoLockMinutes, isLocked, isAuthenticated]);
+
+  const updateFailedAttempts = (attempts: number) => {
+    localStorage.setItem(FAILED_ATTEMPTS_KEY, attempts.toString());
+    setFailedAttempts(attempts);
+  };
+
+  const lock = () => {
+    if (passcode) {
+      setIsLocked(true);
+    }
+  };
+
+  const unlock = async (attempt: string) => {
+    if (!passcode) {
+      setIsLocked(false);
+      return true;
+    }
+
+    if (await verifyPasscode(attempt, passcode)) {
+      updateFailedAttempts(0);
+      setIsLocked(false);
+      return true;
+    }
+
+    const attempts = failedAttempts + 1;
+    if (attempts >= MAX_FAILED_ATTEMPTS) {
+      // Too many wrong guesses: drop the passcode and sign out everywhere
+      console.warn("Too many failed passcode attempts, logging out...");
+      localStorage.removeItem(FAILED_ATTEMPTS_KEY);
+      setFailedAttempts(0);
+      savePasscodeRecord(null);
+      setPasscodeRecord(null);
+      setIsLocked(false);
+      logoutAll();
+    } else {
+      updateFailedAttempts(attempts);
+    }
+    return false;
+  };
+
+  const setPasscode = async (newPasscode: string, minutes: number) => {
+    const record = await createPasscodeRecord(newPasscode, minutes);
+    savePasscodeRecord(record);
+    setPasscodeRecord(record);
+    updateFailedAttempts(0);
+  };
+
+  const removePasscode = () => {
+    savePasscodeRecord(null);
+    setPasscodeRecord(null);
+    setIsLocked(false);
+    updateFailedAttempts(0);
+  };
+
+  const setAutoLockMinutes = (minutes: number) => {
+    if (!passcode) return;
+
+    const record = { ...passcode, autoLockMinutes: minutes };
+    savePasscodeRecord(record);
+    setPasscodeRecord(record);
+  };
+
+  return (
+    <LockContext.Provider
+      value={{
+        isLocked: isLocked && !!passcode && isAuthenticated,
+        hasPasscode: !!passcode,
+        autoLockMinutes,
+        remainingAttempts: MAX_FAILED_ATTEMPTS - failedAttempts,
+        lock,
+        unlock,
+        setPasscode,
+        removePasscode,
+        setAutoLockMinutes,
+      }}
+    >
+      {children}
+    </LockContext.Provider>
+  );
+};
@@ -0,0 +1,23 @@
+import { createContext, useContext } from "react";
+import { SocketClient } from "../api/socketClient";
+import { Outbox } from "../utils/outbox";
+import { MessageStore } from "../utils/messageStore";
+
+export interface SocketContextType {
+  client: SocketClient;
+  outbox: Outbox;
+  messageStore: MessageStore;
+}
+
+// Provided by SocketProvider (see socketContext.tsx)
+export const SocketContext = createContext<SocketContextType | undefined>(
+  undefined
+);
+
+export const useSocketContext = () => {
+  const context = useContext(SocketContext);
+  if (context === undefined) {
+    throw new Error("useSocketContext must be used within a SocketProvider");
+  }
+  return context;
+};
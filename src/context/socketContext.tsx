@@ -0,0 +1,89 @@
+import React, { useEffect, useRef, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "./authContext";
+import { SocketContext } from "./socket";
+import { SocketClient } from "../api/socketClient";
+import { config } from "../config";
+import { refreshAccessToken } from "../utils/tokenRefresh";
+import { Outbox } from "../utils/outbox";
+import { MessageStore } from "../utils/messageStore";
+import { LocalCache } from "../utils/localCache";
+import { Session } from "../types";
+
+/**
+ * Keeps the signed-in account's socket connected, its outbox sending and
+ * its loaded messages up to date (and saved on the device), for everything
+ * rendered inside it. Mount one per account, inside its QueryClientProvider.
+ */
+export const SocketProvider: React.FC<{ children: React.ReactNode }> = ({
+  children,
+}) => {
+  const { token, isAuthenticated, user, logout } = useAuth();
+  const queryClient = useQueryClient();
+  // An expired token rejects the handshake. Refreshing it changes `token`,
+  // which reconnects with the new one.
+  const [client] = useState(
+    () =>
+      new SocketClient({
+        onUnauthorized: (staleToken) =>
+          refreshAccessToken(staleToken).catch((refreshError) =>
+            console.error("Socket token refresh error:", refreshError)
+          ),
+        // Each tab runs its own fake backend, so there's nothing to share
+        sharedKey:
+          config.sharedSocket && !config.fakeBackend ? user?.id : undefined,
+      })
+  );
+
+  const [outbox] = useState(() => new Outbox(client, user?.id ?? ""));
+
+  const [messageStore] = useState(() => new MessageStore(client, outbox));
+
+  useEffect(() => outbox.start(), [outbox]);
+
+  const [localCache] = useState(() => new LocalCache(user?.id ?? ""));
+
+  useEffect(() => messageStore.start(), [messageStore]);
+
+  useEffect(
+    () => localCache.start(queryClient, messageStore),
+    [localCache, queryClient, messageStore]
+  );
+
+  useEffect(() => {
+    if (!isAuthenticated || !token) return;
+    client.connect(token);
+    return () => client.disconnect();
+  }, [client, isAuthenticated, token]);
+
+  // This session was terminated from another device. The server only tells
+  // the revoked session's sockets, so unless the session list already loaded
+  // here names a different session, sign out.
+  const handleSessionRevoked = (sessionId: string) => {
+    const current = queryClient
+      .getQueryData<Session[]>(["sessions"])
+      ?.find((session) => session.isCurrent);
+    if (current && current.id !== sessionId) return;
+    client.disconnect();
+    logout();
+  };
+  const sessionRevokedRef = useRef(handleSessionRevoked);
+
+  useEffect(() => {
+    sessionRevokedRef.current = handleSessionRevoked;
+  });
+
+  useEffect(
+    () =>
+      client.on("sessionRevoked", ({ sessionId }) =>
+        sessionRevokedRef.current(sessionId)
+      ),
+    [client]
+  );
+
+  return (
+    <SocketContext.Provider value={{ client, outbox, messageStore }}>
+      {children}
+    </SocketContext.Provider>
+  );
+};
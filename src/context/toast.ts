@@ -0,0 +1,38 @@
+import { createContext, useContext } from "react";
+
+export type ToastType = "error" | "success" | "info";
+
+export interface ToastAction {
+  label: string;
+  onClick: () => void;
+}
+
+export interface ToastOptions {
+  type?: ToastType;
+  title?: string;
+  message: string;
+  action?: ToastAction;
+  // Milliseconds before the toast closes itself; 0 keeps it open
+  duration?: number;
+}
+
+export interface ToastContextType {
+  showToast: (options: ToastOptions) => number;
+  // Shorthand for a failed action: the title says what failed, the message
+  // comes from the error, and `retry` adds a "Try again" button
+  showError: (title: string, error: unknown, retry?: () => void) => number;
+  dismissToast: (id: number) => void;
+}
+
+// Provided by ToastProvider (see toastContext.tsx)
+export const ToastContext = createContext<ToastContextType | undefined>(
+  undefined
+);
+
+export const useToast = () => {
+  const context = useContext(ToastContext);
+  if (context === undefined) {
+    throw new Error("useToast must be used within a ToastProvider");
+  }
+  return context;
+};
@@ -0,0 +1,109 @@
+import React, { useCallback, useMemo, useRef, useState } from "react";
+import { describeError } from "../api/errors";
+import { ToastContext, ToastOptions, ToastType } from "./toast";
+import { AlertCircle, CheckCircle, Info, X } from "lucide-react";
+
+interface Toast extends ToastOptions {
+  id: number;
+  type: ToastType;
+}
+
+const DEFAULT_DURATION = 5000;
+const MAX_TOASTS = 3;
+
+const toastStyles = {
+  error: { icon: AlertCircle, className: "text-red-500" },
+  success: { icon: CheckCircle, className: "text-green-500" },
+  info: { icon: Info, className: "text-blue-500" },
+};
+
+export const ToastProvider: React.FC<{ children: React.ReactNode }> = ({
+  children,
+}) => {
+  const [toasts, setToasts] = useState<Toast[]>([]);
+  const nextId = useRef(1);
+
+  const dismissToast = useCallback((id: number) => {
+    setToasts((prev) => prev.filter((toast) => toast.id !== id));
+  }, []);
+
+  const showToast = useCallback(
+    ({
+      type = "info",
+      duration = DEFAULT_DURATION,
+      ...options
+    }: ToastOptions) => {
+      const id = nextId.current++;
+      setToasts((prev) =>
+        [...prev, { ...options, id, type, duration }].slice(-MAX_TOASTS)
+      );
+      if (duration > 0) {
+        setTimeout(() => dismissToast(id), duration);
+      }
+      return id;
+    },
+    [dismissToast]
+  );
+
+  const showError = useCallback(
+    (title: string, error: unknown, retry?: () => void) =>
+      showToast({
+        type: "error",
+        title,
+        message: describeError(error),
+        action: retry && { label: "Try again", onClick: retry },
+      }),
+    [showToast]
+  );
+
+  const value = useMemo(
+    () => ({ showToast, showError, dismissToast }),
+    [showToast, showError, dismissToast]
+  );
+
+  return (
+    <ToastContext.Provider value={value}>
+      {children}
+      <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-30 w-full max-w-sm px-4 space-y-2">
+        {toasts.map((toast) => {
+          const { icon: Icon, className } = toastStyles[toast.type];
+          return (
+            <div
+              key={toast.id}
+              role={toast.type === "error" ? "alert" : "status"}
+              className="bg-white rounded-lg shadow-lg border border-gray-200 p-3 flex items-start space-x-3"
+            >
+              <Icon className={`w-5 h-5 flex-shrink-0 ${className}`} />
+              <div className="flex-1 min-w-0">
+                {toast.title && (
+                  <p className="text-sm font-medium text-gray-900">
+                    {toast.title}
+                  </p>
+                )}
+                <p className="text-sm text-gray-600">{toast.message}</p>
+                {toast.action && (
+                  <button
+                    onClick={() => {
+                      dismissToast(toast.id);
+                      toast.action?.onClick();
+                    }}
+                    className="mt-1 text-sm font-medium text-blue-500 hover:text-blue-600 transition-colors"
+                  >
+                    {toast.action.label}
+                  </button>
+                )}
+              </div>
+              <button
+                onClick={() => dismissToast(toast.id)}
+                className="p-1 hover:bg-gray-100 rounded-full transition-colors"
+                title="Dismiss"
+              >
+                <X className="w-4 h-4 text-gray-400" />
+              </button>
+            </div>
+          );
+        })}
+      </div>
+    </ToastContext.Provider>
+  );
+};
@@ -0,0 +1,161 @@
+import React, { useState } from "react";
+import { useQueries } from "@tanstack/react-query";
+import { Avatar } from "../../components/avatar";
+import { useAuth } from "../../context/authContext";
+import { createChatsApi } from "../../api/chats";
+import { useSocket } from "../../hooks/useSocket";
+import { describeConnection } from "../../utils/connectionStatus";
+import { Account, Chat } from "../../types";
+import { Check, ChevronDown, UserPlus, X } from "lucide-react";
+
+const countUnread = (chats: Chat[]) =>
+  chats.reduce((count, chat) => count + chat.unreadCount, 0);
+
+const formatUnread = (count: number) => (count > 99 ? "99+" : count);
+
+// A signed-in account that isn't the active one
+const InactiveAccountRow: React.FC<{
+  account: Account;
+  unreadCount: number;
+  onSelect: () => void;
+  onRemove: () => void;
+}> = ({ account, unreadCount, onSelect, onRemove }) => {
+  return (
+    <div className="group flex items-center px-3 py-2 hover:bg-gray-50">
+      <button
+        onClick={onSelect}
+        className="flex-1 flex items-center space-x-3 min-w-0 text-left"
+      >
+        <Avatar
+          src={account.user.avatar}
+          alt={account.user.username}
+          size="sm"
+        />
+        <span className="flex-1 text-sm text-gray-900 truncate">
+          {account.user.username}
+        </span>
+        {unreadCount > 0 && (
+          <span className="bg-blue-500 text-white text-xs rounded-full px-2 py-0.5 min-w-[1.25rem] text-center">
+            {formatUnread(unreadCount)}
+          </span>
+        )}
+      </button>
+      <button
+        onClick={onRemove}
+        className="ml-2 p-1 rounded-full text-gray-400 hover:text-gray-600 hover:bg-gray-100 opacity-0 group-hover:opacity-100 transition-opacity"
+        title="Sign out of this account"
+      >
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
+
+export const AccountSwitcher: React.FC = () => {
+  const {
+    user,
+    accounts,
+    activeAccountId,
+    switchAccount,
+    removeAccount,
+    addAccount,
+  } = useAuth();
+  const { status } = useSocket();
+  const [isOpen, setIsOpen] = useState(false);
+
+  const inactiveAccounts = accounts.filter((a) => a.id !== activeAccountId);
+
+  // Polled while the menu is closed too, so the button can say there's
+  // something to read elsewhere
+  const unreadCounts = useQueries({
+    queries: inactiveAccounts.map((account) => ({
+      queryKey: ["accounts", account.id, "unread"],
+      queryFn: async ({ signal }) =>
+        countUnread(await createChatsApi(account).getChats({ signal })),
+      refetchInterval: 60000, // Refresh every minute
+    })),
+    combine: (results) => results.map(({ data = 0 }) => data),
+  });
+  const otherUnreadCount = unreadCounts.reduce((sum, count) => sum + count, 0);
+
+  if (!user) return null;
+
+  // Updating is still online, as far as anyone else can tell
+  const isOnline = status.state === "connected";
+
+  return (
+    <div className="relative mt-3">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center space-x-3 rounded-lg hover:bg-gray-50 transition-colors"
+        title="Switch account"
+      >
+        <Avatar src={user.avatar} alt={user.username} size="sm" />
+        <div className="flex-1 text-left">
+          <p className="text-sm font-medium text-gray-900">{user.username}</p>
+          <p
+            className={`text-xs flex items-center ${
+              isOnline ? "text-green-600" : "text-gray-500"
+            }`}
+          >
+            <span
+              className={`w-2 h-2 rounded-full mr-1 ${
+                isOnline ? "bg-green-500" : "bg-gray-400"
+              }`}
+            ></span>
+            {isOnline ? "Online" : describeConnection(status)}
+          </p>
+        </div>
+        {!isOpen && otherUnreadCount > 0 && (
+          <span
+            className="bg-blue-500 text-white text-xs rounded-full px-2 py-0.5 min-w-[1.25rem] text-center"
+            title="Unread in your other accounts"
+          >
+            {formatUnread(otherUnreadCount)}
+          </span>
+        )}
+        <ChevronDown
+          className={`w-4 h-4 text-gray-500 transition-transform ${
+            isOpen ? "rotate-180" : ""
+          }`}
+        />
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 right-0 mt-2 bg-white border border-gray-200 rounded-lg shadow-lg z-10 py-1">
+          <div className="flex items-center px-3 py-2 space-x-3">
+            <Avatar src={user.avatar} alt={user.username} size="sm" />
+            <span className="flex-1 text-sm font-medium text-gray-900 truncate">
+              {user.username}
+            </span>
+            <Check className="w-4 h-4 text-blue-500" />
+          </div>
+
+          {inactiveAccounts.map((account, index) => (
+            <InactiveAccountRow
+              key={account.id}
+              account={account}
+              unreadCount={unreadCounts[index]}
+              onSelect={() => {
+                setIsOpen(false);
+                switchAccount(account.id);
+              }}
+              onRemove={() => removeAccount(account.id)}
+            />
+          ))}
+
+          <button
+            onClick={() => {
+              setIsOpen(false);
+              addAccount();
+            }}
+            className="w-full flex items-center px-3 py-2 space-x-3 text-sm text-blue-500 hover:bg-gray-50 border-t border-gray-100"
+          >
+            <UserPlus className="w-4 h-4" />
+            <span>Add account</span>
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,208 @@
+import React, { useEffect, useState } from "react";
+import { useAuth } from "../../context/authContext";
+import { TwoFactorChallenge } from "../../types";
+import { AlertCircle } from "lucide-react";
+
+const E164_PATTERN = /^\+[1-9]\d{1,14}$/;
+
+// Strip the spaces, dashes and parentheses people type into phone numbers
+const normalizePhone = (value: string) => value.replace(/[\s\-()]/g, "");
+
+interface PhoneLoginFormProps {
+  onTwoFactorRequired: (challenge: TwoFactorChallenge) => void;
+}
+
+export const PhoneLoginForm: React.FC<PhoneLoginFormProps> = ({
+  onTwoFactorRequired,
+}) => {
+  const [phone, setPhone] = useState("");
+  const [code, setCode] = useState("");
+  const [codeSent, setCodeSent] = useState(false);
+  const [resendCountdown, setResendCountdown] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+
+  const { requestPhoneCode, verifyPhoneCode } = useAuth();
+
+  // Tick the resend countdown down once per second
+  useEffect(() => {
+    if (resendCountdown <= 0) return;
+
+    const timeout = setTimeout(
+      () => setResendCountdown((seconds) => seconds - 1),
+      1000
+    );
+    return () => clearTimeout(timeout);
+  }, [resendCountdown]);
+
+  const sendCode = async () => {
+    const normalizedPhone = normalizePhone(phone);
+    if (!E164_PATTERN.test(normalizedPhone)) {
+      setFieldErrors({
+        phone: "Enter the number in international format, e.g. +14155552671",
+      });
+      return;
+    }
+
+    setError("");
+    setFieldErrors({});
+    setLoading(true);
+
+    try {
+      const { resendIn } = await requestPhoneCode(normalizedPhone);
+      setPhone(normalizedPhone);
+      setCodeSent(true);
+      setCode("");
+      setResendCountdown(resendIn);
+    } catch (error) {
+      setError(
+        error instanceof Error ? error.message : "Failed to send the code"
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!codeSent) {
+      await sendCode();
+      return;
+    }
+
+    if (!/^\d{4,8}$/.test(code)) {
+      setFieldErrors({ code: "Enter the code from the SMS" });
+      return;
+    }
+
+    setError("");
+    setFieldErrors({});
+    setLoading(true);
+
+    try {
+      const challenge = await verifyPhoneCode(phone, code);
+      if (challenge) {
+        setLoading(false);
+        onTwoFactorRequired(challenge);
+      }
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Invalid code");
+      setLoading(false);
+    }
+  };
+
+  const changeNumber = () => {
+    setCodeSent(false);
+    setCode("");
+    setError("");
+    setFieldErrors({});
+    setResendCountdown(0);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      {error && (
+        <div className="p-4 rounded-lg flex items-center space-x-2 bg-red-50 text-red-700 border border-red-200">
+          <AlertCircle className="w-5 h-5 flex-shrink-0" />
+          <span className="text-sm">{error}</span>
+        </div>
+      )}
+
+      {!codeSent ? (
+        <div>
+          <label
+            htmlFor="loginPhone"
+            className="block text-sm font-medium text-gray-700 mb-2"
+          >
+            Phone Number *
+          </label>
+          <input
+            type="tel"
+            id="loginPhone"
+            value={phone}
+            onChange={(e) => setPhone(e.target.value)}
+            className={`w-full px-4 py-3 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all ${
+              fieldErrors.phone ? "border-red-300" : "border-gray-300"
+            }`}
+            placeholder="+1 415 555 2671"
+            autoComplete="tel"
+            required
+          />
+          {fieldErrors.phone && (
+            <p className="mt-1 text-sm text-red-600">{fieldErrors.phone}</p>
+          )}
+        </div>
+      ) : (
+        <div>
+          <label
+            htmlFor="loginCode"
+            className="block text-sm font-medium text-gray-700 mb-2"
+          >
+            Code sent to {phone}
+          </label>
+          <input
+            type="text"
+            id="loginCode"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            value={code}
+            onChange={(e) => setCode(e.target.value.replace(/\D/g, ""))}
+            className={`w-full px-4 py-3 border rounded-lg tracking-widest text-center focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all ${
+              fieldErrors.code ? "border-red-300" : "border-gray-300"
+            }`}
+            placeholder="Enter code"
+            maxLength={8}
+            autoFocus
+            required
+          />
+          {fieldErrors.code && (
+            <p className="mt-1 text-sm text-red-600">{fieldErrors.code}</p>
+          )}
+          <div className="mt-2 flex items-center justify-between text-sm">
+            <button
+              type="button"
+              onClick={changeNumber}
+              className="text-gray-500 hover:text-gray-700 transition-colors"
+              disabled={loading}
+            >
+              Change number
+            </button>
+            {resendCountdown > 0 ? (
+              <span className="text-gray-500">
+                Resend code in {resendCountdown}s
+              </span>
+            ) : (
+              <button
+                type="button"
+                onClick={sendCode}
+                className="text-blue-500 hover:text-blue-600 font-medium transition-colors"
+                disabled={loading}
+              >
+                Resend code
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      <button
+        type="submit"
+        disabled={loading}
+        className="w-full bg-blue-500 hover:bg-blue-600 disabled:bg-blue-300 text-white font-semibold py-3 px-4 rounded-lg transition-colors disabled:cursor-not-allowed flex items-center justify-center"
+      >
+        {loading ? (
+          <div className="flex items-center space-x-2">
+            <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+            <span>Processing...</span>
+          </div>
+        ) : codeSent ? (
+          "Verify Code"
+        ) : (
+          "Send Code"
+        )}
+      </button>
+    </form>
+  );
+};
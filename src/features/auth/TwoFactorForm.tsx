@@ -0,0 +1,137 @@
+import React, { useState } from "react";
+import { useAuth } from "../../context/authContext";
+import { TwoFactorChallenge, TwoFactorMethod } from "../../types";
+import { AlertCircle, ShieldCheck } from "lucide-react";
+
+interface TwoFactorFormProps {
+  challenge: TwoFactorChallenge;
+  onCancel: () => void;
+}
+
+export const TwoFactorForm: React.FC<TwoFactorFormProps> = ({
+  challenge,
+  onCancel,
+}) => {
+  const [method, setMethod] = useState<TwoFactorMethod>(challenge.methods[0]);
+  const [code, setCode] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  const { verifyTwoFactor } = useAuth();
+
+  const isBackupCode = method === "backup_code";
+  const canUseBackupCode = challenge.methods.includes("backup_code");
+  const canUseTotp = challenge.methods.includes("totp");
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const trimmedCode = code.trim();
+    if (!isBackupCode && !/^\d{6}$/.test(trimmedCode)) {
+      setError("Enter the 6-digit code from your authenticator app");
+      return;
+    }
+    if (isBackupCode && !trimmedCode) {
+      setError("Enter one of your backup codes");
+      return;
+    }
+
+    setError("");
+    setLoading(true);
+
+    try {
+      await verifyTwoFactor(challenge.challengeToken, trimmedCode, method);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Invalid code");
+      setLoading(false);
+    }
+  };
+
+  const switchMethod = (nextMethod: TwoFactorMethod) => {
+    setMethod(nextMethod);
+    setCode("");
+    setError("");
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <div className="flex items-center space-x-3 text-gray-700">
+        <ShieldCheck className="w-6 h-6 text-blue-500 flex-shrink-0" />
+        <p className="text-sm">
+          {isBackupCode
+            ? "Enter one of the backup codes you saved when you turned on two-step verification."
+            : "Enter the code from your authenticator app to finish signing in."}
+        </p>
+      </div>
+
+      {error && (
+        <div className="p-4 rounded-lg flex items-center space-x-2 bg-red-50 text-red-700 border border-red-200">
+          <AlertCircle className="w-5 h-5 flex-shrink-0" />
+          <span className="text-sm">{error}</span>
+        </div>
+      )}
+
+      <div>
+        <label
+          htmlFor="twoFactorCode"
+          className="block text-sm font-medium text-gray-700 mb-2"
+        >
+          {isBackupCode ? "Backup code" : "Authentication code"}
+        </label>
+        <input
+          type="text"
+          id="twoFactorCode"
+          inputMode={isBackupCode ? "text" : "numeric"}
+          autoComplete="one-time-code"
+          value={code}
+          onChange={(e) =>
+            setCode(
+              isBackupCode ? e.target.value : e.target.value.replace(/\D/g, "")
+            )
+          }
+          className="w-full px-4 py-3 border border-gray-300 rounded-lg tracking-widest text-center focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all"
+          placeholder={isBackupCode ? "xxxx-xxxx" : "123456"}
+          maxLength={isBackupCode ? 32 : 6}
+          autoFocus
+          required
+        />
+        {canUseBackupCode && canUseTotp && (
+          <button
+            type="button"
+            onClick={() => switchMethod(isBackupCode ? "totp" : "backup_code")}
+            className="mt-2 text-sm text-blue-500 hover:text-blue-600 font-medium transition-colors"
+            disabled={loading}
+          >
+            {isBackupCode
+              ? "Use your authenticator app instead"
+              : "Use a backup code instead"}
+          </button>
+        )}
+      </div>
+
+      <button
+        type="submit"
+        disabled={loading}
+        className="w-full bg-blue-500 hover:bg-blue-600 disabled:bg-blue-300 text-white font-semibold py-3 px-4 rounded-lg transition-colors disabled:cursor-not-allowed flex items-center justify-center"
+      >
+        {loading ? (
+          <div className="flex items-center space-x-2">
+            <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+            <span>Verifying...</span>
+          </div>
+        ) : (
+          "Verify"
+        )}
+      </button>
+
+      <button
+        type="button"
+        onClick={onCancel}
+        className="block mx-auto text-sm text-gray-500 hover:text-gray-700 transition-colors"
+        disabled={loading}
+      >
+        Back to sign in
+      </button>
+    </form>
+  );
+};
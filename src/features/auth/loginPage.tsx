@@ -1,14 +1,25 @@
 import React, { useState } from "react";
 import { useAuth } from "../../context/authContext";
+import { PhoneLoginForm } from "./PhoneLoginForm";
+import { TwoFactorForm } from "./TwoFactorForm";
+import { TwoFactorChallenge } from "../../types";
+import { config } from "../../config";
+import { isApiRequestError } from "../../api/errors";
 import { MessageCircle, Eye, EyeOff, AlertCircle } from "lucide-react";
 
-interface ApiError {
-  message: string;
-  field?: string;
-}
+const FORM_FIELDS = ["username", "email", "phone", "password"];
+
+// Keep the server's field errors that match an input on this form
+const pickFormFieldErrors = (errors: Record<string, string>) =>
+  Object.fromEntries(
+    Object.entries(errors).filter(([field]) => FORM_FIELDS.includes(field))
+  );
 
 export const LoginPage: React.FC = () => {
   const [isLogin, setIsLogin] = useState(true);
+  const [loginMethod, setLoginMethod] = useState<"email" | "phone">("email");
+  const [twoFactorChallenge, setTwoFactorChallenge] =
+    useState<TwoFactorChallenge | null>(null);
   const [username, setUsername] = useState("");
   const [email, setEmail] = useState("");
   const [phone, setPhone] = useState("");
@@ -19,10 +30,7 @@ export const LoginPage: React.FC = () => {
   const [error, setError] = useState<string>("");
   const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
 
-  const { login, register } = useAuth();
-
-  // API configuration
-  const API_BASE_URL = "http://localhost:4001/api/v1";
+  const { login, register, isAddingAccount, cancelAddAccount } = useAuth();
 
   const validateForm = () => {
     const errors: Record<string, string> = {};
@@ -79,7 +87,12 @@ export const LoginPage: React.FC = () => {
     try {
       if (isLogin) {
         // Use authContext login method for signin
-        await login(email, password);
+        const challenge = await login(email, password);
+        if (challenge) {
+          // Second factor required: LOGIN_SUCCESS waits for TwoFactorForm
+          setPassword("");
+          setTwoFactorChallenge(challenge);
+        }
       } else {
         // Use authContext register method for signup
         await register(username, email, phone, password);
@@ -92,7 +105,15 @@ export const LoginPage: React.FC = () => {
       }
     } catch (error: any) {
       console.error("Authentication error:", error);
-      setError(error.message || "An error occurred. Please try again.");
+      // Show server-side validation errors next to the inputs they belong to
+      const serverFieldErrors = isApiRequestError(error)
+        ? pickFormFieldErrors(error.fieldErrors)
+        : {};
+      if (Object.keys(serverFieldErrors).length > 0) {
+        setFieldErrors(serverFieldErrors);
+      } else {
+        setError(error.message || "An error occurred. Please try again.");
+      }
     } finally {
       setLoading(false);
     }
@@ -124,7 +145,11 @@ export const LoginPage: React.FC = () => {
           </div>
           <h1 className="text-3xl font-bold text-gray-900">ChatApp</h1>
           <p className="text-gray-600 mt-2">
-            {isLogin ? "Sign in to your account" : "Create a new account"}
+            {isAddingAccount
+              ? "Sign in to another account"
+              : isLogin
+              ? "Sign in to your account"
+              : "Create a new account"}
           </p>
         </div>
 
@@ -141,183 +166,244 @@ export const LoginPage: React.FC = () => {
           </div>
         )}
 
-        <form onSubmit={handleSubmit} className="space-y-6">
-          {!isLogin && (
-            <div>
-              <label
-                htmlFor="username"
-                className="block text-sm font-medium text-gray-700 mb-2"
-              >
-                Username *
-              </label>
-              <input
-                type="text"
-                id="username"
-                value={username}
-                onChange={(e) => setUsername(e.target.value)}
-                className={`w-full px-4 py-3 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all ${
-                  fieldErrors.username ? "border-red-300" : "border-gray-300"
-                }`}
-                placeholder="Enter your username"
-                required
-              />
-              {fieldErrors.username && (
-                <p className="mt-1 text-sm text-red-600">
-                  {fieldErrors.username}
-                </p>
-              )}
-            </div>
-          )}
-
-          <div>
-            <label
-              htmlFor="email"
-              className="block text-sm font-medium text-gray-700 mb-2"
-            >
-              Email *
-            </label>
-            <input
-              type="email"
-              id="email"
-              value={email}
-              onChange={(e) => setEmail(e.target.value)}
-              className={`w-full px-4 py-3 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all ${
-                fieldErrors.email ? "border-red-300" : "border-gray-300"
-              }`}
-              placeholder="Enter your email"
-              required
-            />
-            {fieldErrors.email && (
-              <p className="mt-1 text-sm text-red-600">{fieldErrors.email}</p>
+        {twoFactorChallenge ? (
+          <TwoFactorForm
+            challenge={twoFactorChallenge}
+            onCancel={() => setTwoFactorChallenge(null)}
+          />
+        ) : (
+          <>
+            {isLogin && (
+              <div className="mb-6 grid grid-cols-2 bg-gray-100 rounded-lg p-1">
+                {(["email", "phone"] as const).map((method) => (
+                  <button
+                    key={method}
+                    type="button"
+                    onClick={() => {
+                      setLoginMethod(method);
+                      setError("");
+                      setFieldErrors({});
+                    }}
+                    className={`py-2 text-sm font-medium rounded-md transition-colors ${
+                      loginMethod === method
+                        ? "bg-white text-gray-900 shadow-sm"
+                        : "text-gray-500 hover:text-gray-700"
+                    }`}
+                    disabled={loading}
+                  >
+                    {method === "email" ? "Email" : "Phone"}
+                  </button>
+                ))}
+              </div>
             )}
-          </div>
 
-          {!isLogin && (
-            <div>
-              <label
-                htmlFor="phone"
-                className="block text-sm font-medium text-gray-700 mb-2"
-              >
-                Phone Number *
-              </label>
-              <input
-                type="tel"
-                id="phone"
-                value={phone}
-                onChange={(e) => setPhone(e.target.value)}
-                className={`w-full px-4 py-3 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all ${
-                  fieldErrors.phone ? "border-red-300" : "border-gray-300"
-                }`}
-                placeholder="Enter your phone number"
-                required
-              />
-              {fieldErrors.phone && (
-                <p className="mt-1 text-sm text-red-600">{fieldErrors.phone}</p>
-              )}
-            </div>
-          )}
+            {isLogin && loginMethod === "phone" ? (
+              <PhoneLoginForm onTwoFactorRequired={setTwoFactorChallenge} />
+            ) : (
+              <form onSubmit={handleSubmit} className="space-y-6">
+                {!isLogin && (
+                  <div>
+                    <label
+                      htmlFor="username"
+                      className="block text-sm font-medium text-gray-700 mb-2"
+                    >
+                      Username *
+                    </label>
+                    <input
+                      type="text"
+                      id="username"
+                      value={username}
+                      onChange={(e) => setUsername(e.target.value)}
+                      className={`w-full px-4 py-3 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all ${
+                        fieldErrors.username
+                          ? "border-red-300"
+                          : "border-gray-300"
+                      }`}
+                      placeholder="Enter your username"
+                      required
+                    />
+                    {fieldErrors.username && (
+                      <p className="mt-1 text-sm text-red-600">
+                        {fieldErrors.username}
+                      </p>
+                    )}
+                  </div>
+                )}
 
-          <div>
-            <label
-              htmlFor="password"
-              className="block text-sm font-medium text-gray-700 mb-2"
-            >
-              Password *
-            </label>
-            <div className="relative">
-              <input
-                type={showPassword ? "text" : "password"}
-                id="password"
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
-                className={`w-full px-4 py-3 pr-12 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all ${
-                  fieldErrors.password ? "border-red-300" : "border-gray-300"
-                }`}
-                placeholder="Enter your password"
-                required
-              />
-              <button
-                type="button"
-                onClick={() => setShowPassword(!showPassword)}
-                className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-gray-600"
-              >
-                {showPassword ? (
-                  <EyeOff className="w-5 h-5" />
-                ) : (
-                  <Eye className="w-5 h-5" />
+                <div>
+                  <label
+                    htmlFor="email"
+                    className="block text-sm font-medium text-gray-700 mb-2"
+                  >
+                    Email *
+                  </label>
+                  <input
+                    type="email"
+                    id="email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    className={`w-full px-4 py-3 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all ${
+                      fieldErrors.email ? "border-red-300" : "border-gray-300"
+                    }`}
+                    placeholder="Enter your email"
+                    required
+                  />
+                  {fieldErrors.email && (
+                    <p className="mt-1 text-sm text-red-600">
+                      {fieldErrors.email}
+                    </p>
+                  )}
+                </div>
+
+                {!isLogin && (
+                  <div>
+                    <label
+                      htmlFor="phone"
+                      className="block text-sm font-medium text-gray-700 mb-2"
+                    >
+                      Phone Number *
+                    </label>
+                    <input
+                      type="tel"
+                      id="phone"
+                      value={phone}
+                      onChange={(e) => setPhone(e.target.value)}
+                      className={`w-full px-4 py-3 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all ${
+                        fieldErrors.phone ? "border-red-300" : "border-gray-300"
+                      }`}
+                      placeholder="Enter your phone number"
+                      required
+                    />
+                    {fieldErrors.phone && (
+                      <p className="mt-1 text-sm text-red-600">
+                        {fieldErrors.phone}
+                      </p>
+                    )}
+                  </div>
                 )}
-              </button>
-            </div>
-            {fieldErrors.password && (
-              <p className="mt-1 text-sm text-red-600">
-                {fieldErrors.password}
-              </p>
-            )}
-          </div>
 
-          {!isLogin && (
-            <div>
-              <label
-                htmlFor="confirmPassword"
-                className="block text-sm font-medium text-gray-700 mb-2"
-              >
-                Confirm Password *
-              </label>
-              <input
-                type="password"
-                id="confirmPassword"
-                value={confirmPassword}
-                onChange={(e) => setConfirmPassword(e.target.value)}
-                className={`w-full px-4 py-3 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all ${
-                  fieldErrors.confirmPassword
-                    ? "border-red-300"
-                    : "border-gray-300"
-                }`}
-                placeholder="Confirm your password"
-                required
-              />
-              {fieldErrors.confirmPassword && (
-                <p className="mt-1 text-sm text-red-600">
-                  {fieldErrors.confirmPassword}
-                </p>
-              )}
-            </div>
-          )}
+                <div>
+                  <label
+                    htmlFor="password"
+                    className="block text-sm font-medium text-gray-700 mb-2"
+                  >
+                    Password *
+                  </label>
+                  <div className="relative">
+                    <input
+                      type={showPassword ? "text" : "password"}
+                      id="password"
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      className={`w-full px-4 py-3 pr-12 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all ${
+                        fieldErrors.password
+                          ? "border-red-300"
+                          : "border-gray-300"
+                      }`}
+                      placeholder="Enter your password"
+                      required
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setShowPassword(!showPassword)}
+                      className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-gray-600"
+                    >
+                      {showPassword ? (
+                        <EyeOff className="w-5 h-5" />
+                      ) : (
+                        <Eye className="w-5 h-5" />
+                      )}
+                    </button>
+                  </div>
+                  {fieldErrors.password && (
+                    <p className="mt-1 text-sm text-red-600">
+                      {fieldErrors.password}
+                    </p>
+                  )}
+                </div>
 
-          <button
-            type="submit"
-            disabled={loading}
-            className="w-full bg-blue-500 hover:bg-blue-600 disabled:bg-blue-300 text-white font-semibold py-3 px-4 rounded-lg transition-colors disabled:cursor-not-allowed flex items-center justify-center"
-          >
-            {loading ? (
-              <div className="flex items-center space-x-2">
-                <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
-                <span>Processing...</span>
-              </div>
-            ) : isLogin ? (
-              "Sign In"
-            ) : (
-              "Sign Up"
+                {!isLogin && (
+                  <div>
+                    <label
+                      htmlFor="confirmPassword"
+                      className="block text-sm font-medium text-gray-700 mb-2"
+                    >
+                      Confirm Password *
+                    </label>
+                    <input
+                      type="password"
+                      id="confirmPassword"
+                      value={confirmPassword}
+                      onChange={(e) => setConfirmPassword(e.target.value)}
+                      className={`w-full px-4 py-3 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all ${
+                        fieldErrors.confirmPassword
+                          ? "border-red-300"
+                          : "border-gray-300"
+                      }`}
+                      placeholder="Confirm your password"
+                      required
+                    />
+                    {fieldErrors.confirmPassword && (
+                      <p className="mt-1 text-sm text-red-600">
+                        {fieldErrors.confirmPassword}
+                      </p>
+                    )}
+                  </div>
+                )}
+
+                <button
+                  type="submit"
+                  disabled={loading}
+                  className="w-full bg-blue-500 hover:bg-blue-600 disabled:bg-blue-300 text-white font-semibold py-3 px-4 rounded-lg transition-colors disabled:cursor-not-allowed flex items-center justify-center"
+                >
+                  {loading ? (
+                    <div className="flex items-center space-x-2">
+                      <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+                      <span>Processing...</span>
+                    </div>
+                  ) : isLogin ? (
+                    "Sign In"
+                  ) : (
+                    "Sign Up"
+                  )}
+                </button>
+              </form>
             )}
-          </button>
-        </form>
+          </>
+        )}
 
         <div className="mt-6 text-center">
-          <button
-            type="button"
-            onClick={toggleMode}
-            className="text-blue-500 hover:text-blue-600 font-medium transition-colors"
-            disabled={loading}
-          >
-            {isLogin
-              ? "Don't have an account? Sign up"
-              : "Already have an account? Sign in"}
-          </button>
+          {!twoFactorChallenge && (
+            <button
+              type="button"
+              onClick={toggleMode}
+              className="text-blue-500 hover:text-blue-600 font-medium transition-colors"
+              disabled={loading}
+            >
+              {isLogin
+                ? "Don't have an account? Sign up"
+                : "Already have an account? Sign in"}
+            </button>
+          )}
+          {isAddingAccount && (
+            <button
+              type="button"
+              onClick={cancelAddAccount}
+              className="block mx-auto mt-3 text-sm text-gray-500 hover:text-gray-700 transition-colors"
+              disabled={loading}
+            >
+              Back to chats
+            </button>
+          )}
         </div>
 
         <div className="mt-8 text-center text-sm text-gray-500 bg-gray-50 p-3 rounded-lg">
           <p className="font-medium mb-1">Development Mode</p>
-          <p>API URL: {API_BASE_URL}</p>
+          {config.fakeBackend ? (
+            <p>Fake backend: sign in as demo@example.com / demo1234</p>
+          ) : (
+            <p>API URL: {config.apiBaseUrl}</p>
+          )}
         </div>
       </div>
     </div>
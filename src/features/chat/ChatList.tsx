@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from "react";
 import { Avatar } from "../../components/avatar";
+import { useAuth } from "../../context/authContext";
 import { Chat } from "../../types";
 import { Search, Plus } from "lucide-react";
 
@@ -18,6 +19,7 @@ export const ChatList: React.FC<ChatListProps> = ({
   onNewChat,
   onSearchChats,
 }) => {
+  const { user } = useAuth();
   const [searchQuery, setSearchQuery] = useState("");
     const handleSearchChange = (e: React.ChangeEvent<HTMLInputElement>) => {
       const value = e.target.value;
@@ -100,7 +102,7 @@ export const ChatList: React.FC<ChatListProps> = ({
           filteredChats.map((chat) => {
             // Get the other participant (assuming 1-on-1 chats for now)
             const otherParticipant =
-              chat.participants.find((p) => p.id !== "current-user-id") ||
+              chat.participants.find((p) => p.id !== user?.id) ||
               chat.participants[0];
             const isSelected = selectedChatId === chat.id;
 
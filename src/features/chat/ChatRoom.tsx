@@ -1,39 +1,171 @@
-import React, {  useEffect, useRef } from "react";
+import React, {  useCallback, useEffect, useLayoutEffect, useMemo, useRef } from "react";
 import { Avatar } from "../../components/avatar";
 import { MessageInput } from "./MessageInput";
-import { Message, User } from "../../types";
+import { Message, MessageAttachment, User } from "../../types";
 import { useAuth } from "../../context/authContext";
-import { MoreVertical, Phone, Video } from "lucide-react";
+import { DeliveryStatusIcon } from "../../components/deliveryStatus";
+import { useChatMessages, useOlderMessages } from "../../hooks/useMessages";
+import { useOutbox } from "../../hooks/useOutbox";
+import { useVirtualList } from "../../hooks/useVirtualList";
+import { deliveryStatusOf, mergeMessages } from "../../utils/messages";
+import {
+  MoreVertical,
+  Phone,
+  RotateCw,
+  Trash2,
+  Video,
+} from "lucide-react";
+
+// Within this many pixels of the bottom counts as being at the bottom
+const AT_BOTTOM_THRESHOLD = 80;
+// Older messages start loading this many pixels before reaching the top
+const LOAD_OLDER_THRESHOLD = 300;
+// A one-line message, for rows that haven't been rendered yet
+const ESTIMATED_ROW_HEIGHT = 72;
 
 interface ChatRoomProps {
   chatId: string;
-  messages: Message[];
   otherParticipant: User;
-  onSendMessage: (content: string) => void;
+  onSendMessage: (content: string, attachments?: MessageAttachment[]) => void;
+  // For messages that failed to send, by client id
+  onRetryMessage?: (clientId: string) => void;
+  onDiscardMessage?: (clientId: string) => void;
   onTyping: () => void;
   onStopTyping: () => void;
   typingUsers: string[];
 }
 
 export const ChatRoom: React.FC<ChatRoomProps> = ({
-  // chatId,
-  messages,
+  chatId,
   otherParticipant,
   onSendMessage,
+  onRetryMessage,
+  onDiscardMessage,
   onTyping,
   onStopTyping,
   typingUsers,
 }) => {
   const { user } = useAuth();
-  const messagesEndRef = useRef<HTMLDivElement>(null);
   const messagesContainerRef = useRef<HTMLDivElement>(null);
+  const messagesListRef = useRef<HTMLDivElement>(null);
+  // Where the user was before the latest render: at the bottom, or reading
+  // the message at the top of the viewport, this far below its top edge
+  const isAtBottomRef = useRef(true);
+  const anchorRef = useRef<{ id: string; offset: number } | null>(null);
+  const scrollOnSendRef = useRef(false);
+  const shownChatIdRef = useRef<string | null>(null);
+
+  // Read straight from the store, so other chats' messages don't re-render
+  // this one. Unsent messages show up as pending until the server has them.
+  const storedMessages = useChatMessages(chatId);
+  const { messages: pendingMessages } = useOutbox(chatId);
+  const messages = useMemo(
+    () => mergeMessages(storedMessages, pendingMessages),
+    [storedMessages, pendingMessages]
+  );
+
+  const { hasMore, loadMore, loadingMore } = useOlderMessages(chatId);
+
+  // Only the rows near the viewport are rendered; the rest are spacers
+  const messageIds = useMemo(
+    () => messages.map((message) => message.id),
+    [messages]
+  );
+  const {
+    start,
+    end,
+    paddingTop,
+    paddingBottom,
+    measureRow,
+    update: updateWindow,
+    offsetOf,
+    indexAt,
+  } = useVirtualList({
+    containerRef: messagesContainerRef,
+    listRef: messagesListRef,
+    keys: messageIds,
+    estimatedHeight: ESTIMATED_ROW_HEIGHT,
+    // Rows measured taller or shorter than guessed mustn't move the view
+    onResize: () => keepScrollPosition(),
+  });
+
+  // From the row positions rather than the DOM, as the anchor's row may
+  // not be rendered
+  const rememberScrollPosition = useCallback(() => {
+    const container = messagesContainerRef.current;
+    const list = messagesListRef.current;
+    if (!container) return;
+    isAtBottomRef.current =
+      container.scrollHeight - container.scrollTop - container.clientHeight <
+      AT_BOTTOM_THRESHOLD;
+
+    if (!list || !messageIds.length) {
+      anchorRef.current = null;
+      return;
+    }
+    const top = container.scrollTop - list.offsetTop;
+    const index = indexAt(top);
+    anchorRef.current = {
+      id: messageIds[index],
+      offset: offsetOf(index) - top,
+    };
+  }, [messageIds, indexAt, offsetOf]);
+
+  const keepScrollPosition = useCallback(() => {
+    const container = messagesContainerRef.current;
+    const list = messagesListRef.current;
+    if (!container) return;
+
+    if (isAtBottomRef.current || scrollOnSendRef.current) {
+      scrollOnSendRef.current = false;
+      container.scrollTop = container.scrollHeight;
+    } else if (list && anchorRef.current) {
+      const { id, offset } = anchorRef.current;
+      const index = messageIds.indexOf(id);
+      if (index !== -1) {
+        container.scrollTop = list.offsetTop + offsetOf(index) - offset;
+      }
+    }
+    updateWindow();
+    rememberScrollPosition();
+  }, [messageIds, offsetOf, updateWindow, rememberScrollPosition]);
 
+  // Before paint, so nothing visibly jumps: a new chat opens at its latest
+  // message, someone at the bottom stays there, and anyone reading further
+  // up keeps their message in place while older pages are added above it
+  useLayoutEffect(() => {
+    if (shownChatIdRef.current !== chatId) {
+      shownChatIdRef.current = chatId;
+      isAtBottomRef.current = true;
+      scrollOnSendRef.current = false;
+    }
+    keepScrollPosition();
+  }, [chatId, keepScrollPosition, messages, typingUsers.length, loadingMore]);
+
+  // Keep going while the loaded messages don't reach past the top, e.g.
+  // when they don't fill the screen
   useEffect(() => {
-    scrollToBottom();
-  }, [messages]);
+    const container = messagesContainerRef.current;
+    if (container && hasMore && container.scrollTop < LOAD_OLDER_THRESHOLD) {
+      loadMore();
+    }
+  }, [messages, hasMore, loadMore]);
 
-  const scrollToBottom = () => {
-    messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
+  const handleScroll = () => {
+    rememberScrollPosition();
+    const container = messagesContainerRef.current;
+    if (container && hasMore && container.scrollTop < LOAD_OLDER_THRESHOLD) {
+      loadMore();
+    }
+  };
+
+  // The user wants to see what they sent, wherever they had scrolled to
+  const handleSendMessage = (
+    content: string,
+    attachments?: MessageAttachment[]
+  ) => {
+    scrollOnSendRef.current = true;
+    onSendMessage(content, attachments);
   };
 
   const formatMessageTime = (timestamp: string) => {
@@ -136,7 +268,9 @@ export const ChatRoom: React.FC<ChatRoomProps> = ({
       {/* Messages */}
       <div
         ref={messagesContainerRef}
-        className="flex-1 overflow-y-auto p-4 space-y-1"
+        onScroll={handleScroll}
+        data-message-list
+        className="relative flex-1 overflow-y-auto p-4 space-y-1"
       >
         {messages.length === 0 ? (
           <div className="flex items-center justify-center h-full">
@@ -155,92 +289,132 @@ export const ChatRoom: React.FC<ChatRoomProps> = ({
           </div>
         ) : (
           <>
-            {messages.map((message, index) => {
-              const previousMessage = messages[index - 1];
-              const isOwnMessage = message.senderId === user?.id;
-              const showDateHeader = shouldShowDateHeader(
-                message,
-                previousMessage
-              );
-              const isGrouped = shouldGroupMessage(message, previousMessage);
-
-              return (
-                <div key={message.id}>
-                  {/* Date header */}
-                  {showDateHeader && (
-                    <div className="flex justify-center my-4">
-                      <span className="bg-gray-200 text-gray-600 text-xs px-3 py-1 rounded-full">
-                        {formatDateHeader(message.createdAt)}
-                      </span>
-                    </div>
-                  )}
+            {loadingMore && (
+              <div className="flex justify-center py-2">
+                <div className="w-5 h-5 border-2 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
+              </div>
+            )}
 
-                  {/* Message */}
+            <div
+              ref={messagesListRef}
+              style={{ paddingTop, paddingBottom }}
+            >
+              {messages.slice(start, end).map((message, offset) => {
+                const index = start + offset;
+                const previousMessage = messages[index - 1];
+                const isOwnMessage = message.senderId === user?.id;
+                const showDateHeader = shouldShowDateHeader(
+                  message,
+                  previousMessage
+                );
+                const isGrouped = shouldGroupMessage(message, previousMessage);
+
+                return (
                   <div
-                    className={`flex ${
-                      isOwnMessage ? "justify-end" : "justify-start"
-                    } ${isGrouped ? "mb-1" : "mb-4"}`}
+                    key={message.id}
+                    ref={measureRow}
+                    data-row-key={message.id}
+                    className={`flow-root ${index > 0 ? "pt-1" : ""}`}
                   >
+                    {/* Date header */}
+                    {showDateHeader && (
+                      <div className="flex justify-center my-4">
+                        <span className="bg-gray-200 text-gray-600 text-xs px-3 py-1 rounded-full">
+                          {formatDateHeader(message.createdAt)}
+                        </span>
+                      </div>
+                    )}
+
+                    {/* Message */}
                     <div
-                      className={`flex items-end space-x-2 max-w-xs lg:max-w-md ${
-                        isOwnMessage ? "flex-row-reverse space-x-reverse" : ""
-                      }`}
+                      className={`flex ${
+                        isOwnMessage ? "justify-end" : "justify-start"
+                      } ${isGrouped ? "mb-1" : "mb-4"}`}
                     >
-                      {/* Avatar (only show if not grouped or if first in group) */}
-                      {!isOwnMessage && !isGrouped && (
-                        <Avatar
-                          src={otherParticipant.avatar}
-                          alt={otherParticipant.username}
-                          size="sm"
-                        />
-                      )}
-
-                      {/* Spacer for grouped messages */}
-                      {!isOwnMessage && isGrouped && <div className="w-8" />}
-
-                      {/* Message bubble */}
                       <div
-                        className={`relative px-4 py-2 rounded-2xl ${
-                          isOwnMessage
-                            ? "bg-blue-500 text-white"
-                            : "bg-white text-gray-900 border border-gray-200"
-                        } ${
-                          isGrouped
-                            ? isOwnMessage
-                              ? "rounded-br-md"
-                              : "rounded-bl-md"
-                            : ""
+                        className={`flex items-end space-x-2 max-w-xs lg:max-w-md ${
+                          isOwnMessage ? "flex-row-reverse space-x-reverse" : ""
                         }`}
                       >
-                        {message.deletedAt ? (
-                          <p className="text-sm italic text-gray-500">
-                            This message was deleted
-                          </p>
-                        ) : (
-                          <p className="text-sm whitespace-pre-wrap">
-                            {message.text}
-                          </p>
+                        {/* Avatar (only show if not grouped or if first in group) */}
+                        {!isOwnMessage && !isGrouped && (
+                          <Avatar
+                            src={otherParticipant.avatar}
+                            alt={otherParticipant.username}
+                            size="sm"
+                          />
                         )}
+
+                        {/* Spacer for grouped messages */}
+                        {!isOwnMessage && isGrouped && <div className="w-8" />}
+
+                        {/* Message bubble */}
                         <div
-                          className={`flex items-center justify-end space-x-1 mt-1 ${
-                            isOwnMessage ? "text-blue-100" : "text-gray-500"
+                          className={`relative px-4 py-2 rounded-2xl ${
+                            isOwnMessage
+                              ? message.status === "failed"
+                                ? "bg-red-500 text-white"
+                                : "bg-blue-500 text-white"
+                              : "bg-white text-gray-900 border border-gray-200"
+                          } ${
+                            isGrouped
+                              ? isOwnMessage
+                                ? "rounded-br-md"
+                                : "rounded-bl-md"
+                              : ""
                           }`}
                         >
-                          <span className="text-xs">
-                            {formatMessageTime(message.createdAt)}
-                          </span>
-                          {isOwnMessage && (
+                          {message.deletedAt ? (
+                            <p className="text-sm italic text-gray-500">
+                              This message was deleted
+                            </p>
+                          ) : (
+                            <p className="text-sm whitespace-pre-wrap">
+                              {message.text}
+                            </p>
+                          )}
+                          <div
+                            className={`flex items-center justify-end space-x-1 mt-1 ${
+                              isOwnMessage ? "text-blue-100" : "text-gray-500"
+                            }`}
+                          >
                             <span className="text-xs">
-                              {message.isRead ? "✓✓" : "✓"}
+                              {formatMessageTime(message.createdAt)}
                             </span>
+                            {isOwnMessage && (
+                              <DeliveryStatusIcon
+                                status={message.status ?? deliveryStatusOf(message)}
+                              />
+                            )}
+                          </div>
+                          {message.status === "failed" && message.clientId && (
+                            <div className="flex items-center justify-end space-x-3 mt-1 pt-1 border-t border-red-400 text-xs">
+                              <span className="mr-auto">Not sent</span>
+                              <button
+                                onClick={() => onRetryMessage?.(message.clientId!)}
+                                className="flex items-center space-x-1 hover:underline"
+                              >
+                                <RotateCw className="w-3 h-3" />
+                                <span>Retry</span>
+                              </button>
+                              <button
+                                onClick={() =>
+                                  onDiscardMessage?.(message.clientId!)
+                                }
+                                className="flex items-center space-x-1 hover:underline"
+                              >
+                                <Trash2 className="w-3 h-3" />
+                                <span>Delete</span>
+                              </button>
+                            </div>
                           )}
                         </div>
                       </div>
                     </div>
                   </div>
-                </div>
-              );
-            })}
+                );
+              })}
+            </div>
 
             {/* Typing indicator */}
             {typingUsers.length > 0 && (
@@ -267,15 +441,14 @@ export const ChatRoom: React.FC<ChatRoomProps> = ({
                 </div>
               </div>
             )}
-
-            <div ref={messagesEndRef} />
           </>
         )}
       </div>
 
       {/* Message Input */}
       <MessageInput
-        onSendMessage={onSendMessage}
+        chatId={chatId}
+        onSendMessage={handleSendMessage}
         onTyping={onTyping}
         onStopTyping={onStopTyping}
       />
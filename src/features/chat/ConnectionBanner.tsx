@@ -0,0 +1,64 @@
+import React, { useEffect, useState } from "react";
+import { AlertCircle, RefreshCw, WifiOff } from "lucide-react";
+import { useSocket } from "../../hooks/useSocket";
+import {
+  describeConnection,
+  secondsUntilRetry,
+} from "../../utils/connectionStatus";
+
+// Shown under the app's header while the socket is down or catching up, or
+// when catching up failed
+export const ConnectionBanner: React.FC = () => {
+  const { status, reconnectNow } = useSocket();
+  const [now, setNow] = useState(() => Date.now());
+
+  // Count down to the next attempt
+  useEffect(() => {
+    if (status.nextRetryAt === null) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [status.nextRetryAt]);
+
+  const label = describeConnection(status);
+  if (!label) return null;
+
+  const seconds = secondsUntilRetry(status, now);
+  const canReconnect = status.state !== "connected";
+
+  return (
+    <div
+      role="status"
+      className="mt-3 flex items-center space-x-2 rounded-lg bg-blue-50 px-3 py-2 text-sm text-blue-700"
+    >
+      {!status.isOnline ? (
+        <WifiOff className="w-4 h-4 flex-shrink-0" />
+      ) : status.state === "connected" &&
+        status.updateFailed &&
+        !status.isUpdating ? (
+        <AlertCircle className="w-4 h-4 flex-shrink-0" />
+      ) : (
+        <div className="w-4 h-4 flex-shrink-0 border-2 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
+      )}
+      <div className="flex-1 min-w-0">
+        <p className="font-medium truncate">{label}</p>
+        {seconds !== null && (
+          <p className="text-xs text-blue-500">
+            Retrying in {seconds}s
+            {status.attempts > 1 && ` · tried ${status.attempts} times`}
+          </p>
+        )}
+      </div>
+      {canReconnect && (
+        <button
+          onClick={reconnectNow}
+          className="flex items-center space-x-1 rounded-md px-2 py-1 text-xs font-medium hover:bg-blue-100 transition-colors"
+          title="Reconnect now"
+        >
+          <RefreshCw className="w-3.5 h-3.5" />
+          <span>Reconnect now</span>
+        </button>
+      )}
+    </div>
+  );
+};
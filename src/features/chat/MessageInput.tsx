@@ -1,14 +1,113 @@
 import React, { useState, useRef, useEffect } from "react";
-import { Send, Paperclip, Smile } from "lucide-react";
+import {
+  Send,
+  Paperclip,
+  Smile,
+  Pause,
+  Play,
+  X,
+  RotateCw,
+  Check,
+  File as FileIcon,
+} from "lucide-react";
+import { ProgressRing } from "../../components/progressRing";
+import { useUploads } from "../../hooks/useUploads";
+import { Upload, toAttachment } from "../../utils/uploadManager";
+import { MessageAttachment } from "../../types";
 
 interface MessageInputProps {
-  onSendMessage: (content: string) => void;
+  chatId?: string;
+  onSendMessage: (content: string, attachments?: MessageAttachment[]) => void;
   disabled?: boolean;
   onTyping?: () => void;
   onStopTyping?: () => void;
 }
 
+const formatSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const UploadPreview: React.FC<{
+  upload: Upload;
+  onPause: () => void;
+  onResume: () => void;
+  onCancel: () => void;
+}> = ({ upload, onPause, onResume, onCancel }) => {
+  const { status, progress, file } = upload;
+  const isActive = status === "uploading" || status === "queued";
+
+  return (
+    <div className="flex items-center space-x-2 bg-gray-100 rounded-xl pl-1 pr-2 py-1 max-w-[220px]">
+      <ProgressRing
+        progress={progress}
+        className={status === "failed" ? "text-red-500" : "text-blue-500"}
+      >
+        {status === "completed" ? (
+          <Check className="w-4 h-4 text-blue-500" />
+        ) : isActive ? (
+          <button
+            type="button"
+            onClick={onPause}
+            className="p-1 hover:bg-gray-200 rounded-full transition-colors"
+            title="Pause upload"
+          >
+            <Pause className="w-3 h-3 text-gray-600" />
+          </button>
+        ) : (
+          <button
+            type="button"
+            onClick={onResume}
+            className="p-1 hover:bg-gray-200 rounded-full transition-colors"
+            title={status === "failed" ? "Retry upload" : "Resume upload"}
+          >
+            {status === "failed" ? (
+              <RotateCw className="w-3 h-3 text-red-500" />
+            ) : (
+              <Play className="w-3 h-3 text-gray-600" />
+            )}
+          </button>
+        )}
+      </ProgressRing>
+
+      <div className="min-w-0 flex-1">
+        <p className="text-sm text-gray-900 truncate flex items-center">
+          <FileIcon className="w-3 h-3 mr-1 flex-shrink-0 text-gray-500" />
+          {file.name}
+        </p>
+        <p
+          className={`text-xs truncate ${
+            status === "failed" ? "text-red-500" : "text-gray-500"
+          }`}
+          title={upload.error}
+        >
+          {status === "failed"
+            ? upload.error || "Upload failed"
+            : status === "paused"
+            ? `Paused · ${formatSize(upload.uploadedBytes)} of ${formatSize(
+                file.size
+              )}`
+            : status === "completed"
+            ? formatSize(file.size)
+            : `${formatSize(upload.uploadedBytes)} of ${formatSize(file.size)}`}
+        </p>
+      </div>
+
+      <button
+        type="button"
+        onClick={onCancel}
+        className="p-1 hover:bg-gray-200 rounded-full transition-colors"
+        title="Remove"
+      >
+        <X className="w-4 h-4 text-gray-500" />
+      </button>
+    </div>
+  );
+};
+
 export const MessageInput: React.FC<MessageInputProps> = ({
+  chatId,
   onSendMessage,
   disabled = false,
   onTyping,
@@ -17,6 +116,9 @@ export const MessageInput: React.FC<MessageInputProps> = ({
   const [message, setMessage] = useState("");
   const [isTyping, setIsTyping] = useState(false);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { uploads, addFiles, pause, resume, cancel, remove } =
+    useUploads(chatId);
   const typingTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   useEffect(() => {
@@ -63,11 +165,44 @@ export const MessageInput: React.FC<MessageInputProps> = ({
     }, 1000);
   };
 
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files) {
+      addFiles(e.target.files);
+    }
+    // Allow picking the same file again
+    e.target.value = "";
+  };
+
+  const handleCancelUpload = (upload: Upload) => {
+    if (upload.status === "completed") {
+      remove(upload.id);
+    } else {
+      cancel(upload.id);
+    }
+  };
+
+  // Attachments go out with the message once every upload has finished
+  const completedUploads = uploads.filter(
+    (upload) => upload.status === "completed" && upload.result
+  );
+  const uploadsPending = completedUploads.length !== uploads.length;
+  const canSend =
+    !disabled &&
+    !uploadsPending &&
+    (!!message.trim() || completedUploads.length > 0);
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
 
-    if (message.trim() && !disabled) {
-      onSendMessage(message.trim());
+    if (canSend) {
+      const attachments = completedUploads.map((upload) =>
+        toAttachment(upload, upload.result!)
+      );
+      onSendMessage(
+        message.trim(),
+        attachments.length ? attachments : undefined
+      );
+      completedUploads.forEach((upload) => remove(upload.id));
       setMessage("");
 
       // Stop typing indicator
@@ -92,15 +227,38 @@ export const MessageInput: React.FC<MessageInputProps> = ({
 
   return (
     <div className="p-4 border-t border-gray-200 bg-white">
+      {uploads.length > 0 && (
+        <div className="flex flex-wrap gap-2 mb-3">
+          {uploads.map((upload) => (
+            <UploadPreview
+              key={upload.id}
+              upload={upload}
+              onPause={() => pause(upload.id)}
+              onResume={() => resume(upload.id)}
+              onCancel={() => handleCancelUpload(upload)}
+            />
+          ))}
+        </div>
+      )}
+
       <form onSubmit={handleSubmit} className="flex items-end space-x-3">
         {/* Attachment button */}
         <button
           type="button"
-          className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-full transition-colors"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={disabled || !chatId}
+          className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-full transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
           title="Attach file"
         >
           <Paperclip className="w-5 h-5" />
         </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          multiple
+          onChange={handleFileChange}
+          className="hidden"
+        />
 
         {/* Message input */}
         <div className="flex-1 relative">
@@ -128,9 +286,9 @@ export const MessageInput: React.FC<MessageInputProps> = ({
         {/* Send button */}
         <button
           type="submit"
-          disabled={!message.trim() || disabled}
+          disabled={!canSend}
           className="p-3 bg-blue-500 text-white rounded-full hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-          title="Send message"
+          title={uploadsPending ? "Waiting for uploads" : "Send message"}
         >
           <Send className="w-5 h-5" />
         </button>
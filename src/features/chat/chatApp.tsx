@@ -2,14 +2,36 @@ import React, { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { ChatList } from "./ChatList";
 import { ChatRoom } from "./ChatRoom";
-import { useSocket } from "../../hooks/useSocket";
+import {
+  useSocket,
+  useSocketEvent,
+  useSocketReconnect,
+} from "../../hooks/useSocket";
+import { useOutbox } from "../../hooks/useOutbox";
+import { useLoadMessages, useMessageStore } from "../../hooks/useMessages";
+import { useChatListUpdates } from "../../hooks/useChatList";
 import { useAuth } from "../../context/authContext";
+import { useLock } from "../../context/lock";
 import { useChatsApi } from "../../api/chats";
-import { Message, Chat } from "../../types";
-import { LogOut, MessageCircle } from "lucide-react";
+import { AccountSwitcher } from "../auth/AccountSwitcher";
+import { ConnectionBanner } from "./ConnectionBanner";
+import { Chat, MessageAttachment } from "../../types";
+import { TwoFactorSettings } from "../settings/TwoFactorSettings";
+import { ActiveSessions } from "../settings/ActiveSessions";
+import { PasscodeSettings } from "../settings/PasscodeSettings";
+import { LockScreen } from "../lock/LockScreen";
+import {
+  KeyRound,
+  Lock,
+  LogOut,
+  MessageCircle,
+  MonitorSmartphone,
+  Shield,
+} from "lucide-react";
 
 export const ChatApp: React.FC = () => {
   const { user, logout } = useAuth();
+  const { isLocked, hasPasscode, lock } = useLock();
   // const chatsApi = useChatsApi();
   const chatsApi = useChatsApi();
   const [searchQuery, setSearchQuery] = useState("");
@@ -40,80 +62,106 @@ export const ChatApp: React.FC = () => {
     enabled: !!user,
   });
 
-  const [messages, setMessages] = useState<Record<string, Message[]>>({});
+  // Messages live in the store; ChatRoom reads the selected chat's itself
+  const messageStore = useMessageStore();
   const [selectedChatId, setSelectedChatId] = useState<string | null>(null);
   const [typingUsers, setTypingUsers] = useState<string[]>([]);
+  const [showSecuritySettings, setShowSecuritySettings] = useState(false);
+  const [showActiveSessions, setShowActiveSessions] = useState(false);
+  const [showPasscodeSettings, setShowPasscodeSettings] = useState(false);
 
   const {
     sendMessage: socketSendMessage,
     joinChat,
     leaveChat,
-    getMessages,
-  } = useSocket({
-    onMessage: (message: Message) => {
-      setMessages((prev) => ({
-        ...prev,
-        [message.chatId]: [...(prev[message.chatId] || []), message],
-      }));
-      // Refetch chats to update last message and unread count
-      refetchChats();
-    },
-    onUserOnline: (userId: string) => {
-      // Update user online status
-      console.log(`User ${userId} is now online`);
-    },
-    onUserOffline: (userId: string) => {
-      // Update user offline status
-      console.log(`User ${userId} is now offline`);
-    },
-    onTyping: (data: { userId: string; chatId: string }) => {
-      if (data.chatId === selectedChatId) {
-        setTypingUsers((prev) => [
-          ...prev.filter((id) => id !== data.userId),
-          data.userId,
-        ]);
-      }
-    },
-    onStopTyping: (data: { userId: string; chatId: string }) => {
-      if (data.chatId === selectedChatId) {
-        setTypingUsers((prev) => prev.filter((id) => id !== data.userId));
-      }
-    },
+  } = useSocket();
+  // Over HTTP while the socket is down; failures are shown with a retry
+  const { loadMessages, cancel: cancelMessageLoad } = useLoadMessages();
+
+  useSocketEvent("newMessage", () => {
+    // Refetch chats to update last message and unread count
+    refetchChats();
+  });
+
+  useSocketEvent("userOnline", (userId) => {
+    // Update user online status
+    console.log(`User ${userId} is now online`);
+  });
+
+  useSocketEvent("userOffline", (userId) => {
+    // Update user offline status
+    console.log(`User ${userId} is now offline`);
+  });
+
+  useSocketEvent("typing", (data) => {
+    if (data.chatId === selectedChatId) {
+      setTypingUsers((prev) => [
+        ...prev.filter((id) => id !== data.userId),
+        data.userId,
+      ]);
+    }
+  });
+
+  useSocketEvent("stopTyping", (data) => {
+    if (data.chatId === selectedChatId) {
+      setTypingUsers((prev) => prev.filter((id) => id !== data.userId));
+    }
+  });
+
+  // The store updates the messages themselves, this the chat list
+  useChatListUpdates();
+
+  useSocketEvent("chatDeleted", (chatId) => {
+    if (selectedChatId === chatId) {
+      cancelMessageLoad(chatId);
+      leaveChat(chatId);
+      setSelectedChatId(null);
+      setTypingUsers([]);
+    }
   });
 
-  const handleSendMessage = (text: string) => {
+  // The store catches up on missed messages; the previews need a refresh
+  useSocketReconnect(() => {
+    refetchChats();
+  });
+
+  // Failed messages can be retried or discarded from the chat
+  const outbox = useOutbox(selectedChatId ?? undefined);
+
+  const handleSendMessage = (
+    text: string,
+    attachments?: MessageAttachment[]
+  ) => {
     if (!selectedChatId || !user) return;
 
-    // Send via socket
-    socketSendMessage(selectedChatId, text);
+    // Queued in the outbox and sent over the socket
+    socketSendMessage(
+      selectedChatId,
+      text,
+      undefined,
+      undefined,
+      attachments
+    );
   };
 
   const handleChatSelect = (chatId: string) => {
     if (selectedChatId) {
       leaveChat(selectedChatId);
     }
+    // A slow answer for the chat being left is dropped
+    if (selectedChatId && selectedChatId !== chatId) {
+      cancelMessageLoad(selectedChatId);
+    }
     setSelectedChatId(chatId);
     joinChat(chatId);
     setTypingUsers([]);
 
     // Load messages for this chat if not already loaded
-    if (!messages[chatId]) {
+    if (!messageStore.isLoaded(chatId)) {
       loadMessages(chatId);
     }
   };
 
-  const loadMessages = async (chatId: string) => {
-    try {
-      const chatMessages = (await getMessages(chatId, 50)) as Message[];
-      setMessages((prev) => ({
-        ...prev,
-        [chatId]: chatMessages.reverse(), // Reverse because backend returns in desc order
-      }));
-    } catch (error) {
-      console.error("Failed to load messages:", error);
-    }
-  };
-
   const handleTyping = () => {
     if (selectedChatId) {
       // socket.startTyping(selectedChatId);
@@ -132,11 +180,15 @@ export const ChatApp: React.FC = () => {
   };
 
   const selectedChat = chats.find((chat) => chat.id === selectedChatId);
-  const selectedMessages = selectedChatId ? messages[selectedChatId] || [] : [];
   const otherParticipant =
     selectedChat?.participants.find((p) => p.id !== user?.id) ||
     selectedChat?.participants[0];
 
+  // The socket and state stay alive while locked, but nothing is rendered
+  if (isLocked) {
+    return <LockScreen />;
+  }
+
   return (
     <div className="flex h-screen bg-gray-100">
       {/* Sidebar */}
@@ -150,32 +202,48 @@ export const ChatApp: React.FC = () => {
                 <span className="font-semibold text-gray-900">ChatApp</span>
               </div>
             </div>
-            <button
-              onClick={logout}
-              className="p-2 hover:bg-gray-100 rounded-full transition-colors"
-              title="Logout"
-            >
-              <LogOut className="w-5 h-5 text-gray-600" />
-            </button>
-          </div>
-          {user && (
-            <div className="mt-3 flex items-center space-x-3">
-              <div className="w-8 h-8 rounded-full bg-blue-500 flex items-center justify-center">
-                <span className="text-white text-sm font-medium">
-                  {user.username[0].toUpperCase()}
-                </span>
-              </div>
-              <div>
-                <p className="text-sm font-medium text-gray-900">
-                  {user.username}
-                </p>
-                <p className="text-xs text-green-600 flex items-center">
-                  <span className="w-2 h-2 bg-green-500 rounded-full mr-1"></span>
-                  Online
-                </p>
-              </div>
+            <div className="flex items-center">
+              {hasPasscode && (
+                <button
+                  onClick={lock}
+                  className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+                  title="Lock now"
+                >
+                  <Lock className="w-5 h-5 text-gray-600" />
+                </button>
+              )}
+              <button
+                onClick={() => setShowPasscodeSettings(true)}
+                className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+                title="Passcode lock"
+              >
+                <KeyRound className="w-5 h-5 text-gray-600" />
+              </button>
+              <button
+                onClick={() => setShowActiveSessions(true)}
+                className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+                title="Active sessions"
+              >
+                <MonitorSmartphone className="w-5 h-5 text-gray-600" />
+              </button>
+              <button
+                onClick={() => setShowSecuritySettings(true)}
+                className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+                title="Two-step verification"
+              >
+                <Shield className="w-5 h-5 text-gray-600" />
+              </button>
+              <button
+                onClick={logout}
+                className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+                title="Logout"
+              >
+                <LogOut className="w-5 h-5 text-gray-600" />
+              </button>
             </div>
-          )}
+          </div>
+          <ConnectionBanner />
+          <AccountSwitcher />
         </div>
 
         {/* Chat List */}
@@ -192,9 +260,10 @@ export const ChatApp: React.FC = () => {
       {selectedChatId && selectedChat && otherParticipant ? (
         <ChatRoom
           chatId={selectedChatId}
-          messages={selectedMessages}
           otherParticipant={otherParticipant}
           onSendMessage={handleSendMessage}
+          onRetryMessage={outbox.retry}
+          onDiscardMessage={outbox.remove}
           onTyping={handleTyping}
           onStopTyping={handleStopTyping}
           typingUsers={typingUsers}
@@ -208,6 +277,16 @@ export const ChatApp: React.FC = () => {
           </div>
         </div>
       )}
+
+      {showSecuritySettings && (
+        <TwoFactorSettings onClose={() => setShowSecuritySettings(false)} />
+      )}
+      {showActiveSessions && (
+        <ActiveSessions onClose={() => setShowActiveSessions(false)} />
+      )}
+      {showPasscodeSettings && (
+        <PasscodeSettings onClose={() => setShowPasscodeSettings(false)} />
+      )}
     </div>
   );
 };
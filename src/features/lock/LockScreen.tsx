@@ -0,0 +1,86 @@
+import React, { useState } from "react";
+import { useAuth } from "../../context/authContext";
+import { useLock } from "../../context/lock";
+import { AlertCircle, Lock } from "lucide-react";
+
+export const LockScreen: React.FC = () => {
+  const { user, logoutAll } = useAuth();
+  const { unlock, removePasscode, remainingAttempts } = useLock();
+  const [passcode, setPasscode] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+    setLoading(true);
+
+    try {
+      if (!(await unlock(passcode))) {
+        setPasscode("");
+        setError("Incorrect passcode");
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // The passcode can't be recovered, so forgetting it means signing in again
+  const handleForgotPasscode = () => {
+    removePasscode();
+    logoutAll();
+  };
+
+  return (
+    <div className="h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-indigo-100 p-4">
+      <div className="bg-white rounded-2xl shadow-xl p-8 w-full max-w-sm text-center">
+        <div className="w-16 h-16 bg-blue-500 rounded-full flex items-center justify-center mx-auto mb-4">
+          <Lock className="w-8 h-8 text-white" />
+        </div>
+        <h1 className="text-2xl font-bold text-gray-900 mb-1">ChatApp</h1>
+        <p className="text-gray-600 mb-6">
+          Enter your passcode{user ? `, ${user.username}` : ""}
+        </p>
+
+        {error && (
+          <div className="mb-4 p-4 rounded-lg flex items-center space-x-2 bg-red-50 text-red-700 border border-red-200 text-left">
+            <AlertCircle className="w-5 h-5 flex-shrink-0" />
+            <span className="text-sm">
+              {error}.{" "}
+              {remainingAttempts === 1
+                ? "One attempt left before you are signed out."
+                : `${remainingAttempts} attempts left.`}
+            </span>
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <input
+            type="password"
+            autoComplete="off"
+            value={passcode}
+            onChange={(e) => setPasscode(e.target.value)}
+            className="w-full px-4 py-3 border border-gray-300 rounded-lg tracking-widest text-center focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all"
+            placeholder="Passcode"
+            autoFocus
+            required
+          />
+          <button
+            type="submit"
+            disabled={loading || !passcode}
+            className="w-full bg-blue-500 hover:bg-blue-600 disabled:bg-blue-300 text-white font-semibold py-3 px-4 rounded-lg transition-colors disabled:cursor-not-allowed"
+          >
+            {loading ? "Checking..." : "Unlock"}
+          </button>
+        </form>
+
+        <button
+          onClick={handleForgotPasscode}
+          className="mt-4 text-sm text-gray-500 hover:text-gray-700 transition-colors"
+        >
+          Forgot passcode? Log out
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,177 @@
+import React from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useChatsApi } from "../../api/chats";
+import { Session } from "../../types";
+import { Monitor, Smartphone, Tablet, X } from "lucide-react";
+
+interface ActiveSessionsProps {
+  onClose: () => void;
+}
+
+const deviceIcons = {
+  desktop: Monitor,
+  mobile: Smartphone,
+  tablet: Tablet,
+};
+
+const formatLastActive = (timestamp: string) => {
+  const minutes = Math.floor(
+    (Date.now() - new Date(timestamp).getTime()) / 60000
+  );
+
+  if (minutes < 1) return "just now";
+  if (minutes < 60) return `${minutes} min ago`;
+  if (minutes < 24 * 60) return `${Math.floor(minutes / 60)} h ago`;
+  return new Date(timestamp).toLocaleDateString([], {
+    month: "short",
+    day: "numeric",
+  });
+};
+
+const SessionRow: React.FC<{
+  session: Session;
+  onTerminate?: () => void;
+  isTerminating?: boolean;
+}> = ({ session, onTerminate, isTerminating }) => {
+  const Icon = deviceIcons[session.deviceType ?? "desktop"];
+  const details = [session.location, session.ip].filter(Boolean).join(" · ");
+
+  return (
+    <div className="flex items-center space-x-3 py-3">
+      <div className="w-10 h-10 rounded-full bg-blue-50 flex items-center justify-center flex-shrink-0">
+        <Icon className="w-5 h-5 text-blue-500" />
+      </div>
+      <div className="flex-1 min-w-0">
+        <p className="text-sm font-medium text-gray-900 truncate">
+          {session.device}
+        </p>
+        {details && <p className="text-xs text-gray-500 truncate">{details}</p>}
+        <p
+          className={`text-xs ${
+            session.isCurrent ? "text-blue-500" : "text-gray-500"
+          }`}
+        >
+          {session.isCurrent
+            ? "This device"
+            : `Last active ${formatLastActive(session.lastActiveAt)}`}
+        </p>
+      </div>
+      {onTerminate && (
+        <button
+          onClick={onTerminate}
+          disabled={isTerminating}
+          className="text-sm text-red-600 hover:text-red-700 disabled:opacity-50 transition-colors"
+        >
+          {isTerminating ? "Ending..." : "Terminate"}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export const ActiveSessions: React.FC<ActiveSessionsProps> = ({ onClose }) => {
+  const chatsApi = useChatsApi();
+  const queryClient = useQueryClient();
+
+  const {
+    data: sessions = [],
+    isLoading,
+    error,
+  } = useQuery({
+    queryKey: ["sessions"],
+    queryFn: chatsApi.getSessions,
+  });
+
+  const terminateSessionMutation = useMutation({
+    mutationFn: chatsApi.terminateSession,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["sessions"] });
+    },
+  });
+
+  const terminateOtherSessionsMutation = useMutation({
+    mutationFn: chatsApi.terminateOtherSessions,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["sessions"] });
+    },
+  });
+
+  const currentSession = sessions.find((session) => session.isCurrent);
+  const otherSessions = sessions.filter((session) => !session.isCurrent);
+  const mutationError =
+    terminateSessionMutation.error || terminateOtherSessionsMutation.error;
+
+  return (
+    <div className="fixed inset-0 bg-black/40 flex items-center justify-center p-4 z-20">
+      <div className="bg-white rounded-2xl shadow-xl p-6 w-full max-w-md max-h-[80vh] flex flex-col">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-semibold text-gray-900">
+            Active sessions
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+            title="Close"
+          >
+            <X className="w-5 h-5 text-gray-600" />
+          </button>
+        </div>
+
+        {(error || mutationError) && (
+          <p className="mb-4 text-sm text-red-600">
+            {(error || mutationError)?.message}
+          </p>
+        )}
+
+        {isLoading ? (
+          <div className="py-8 text-center text-gray-500">
+            Loading sessions...
+          </div>
+        ) : (
+          <div className="overflow-y-auto">
+            {currentSession && <SessionRow session={currentSession} />}
+
+            {otherSessions.length > 0 && (
+              <>
+                <button
+                  onClick={() => terminateOtherSessionsMutation.mutate()}
+                  disabled={terminateOtherSessionsMutation.isPending}
+                  className="w-full my-2 border border-red-300 text-red-600 hover:bg-red-50 disabled:opacity-50 font-semibold py-2 px-4 rounded-lg transition-colors"
+                >
+                  {terminateOtherSessionsMutation.isPending
+                    ? "Terminating..."
+                    : "Terminate all other sessions"}
+                </button>
+
+                <h3 className="mt-4 text-xs font-semibold uppercase text-gray-500">
+                  Other sessions
+                </h3>
+                <div className="divide-y divide-gray-100">
+                  {otherSessions.map((session) => (
+                    <SessionRow
+                      key={session.id}
+                      session={session}
+                      onTerminate={() =>
+                        terminateSessionMutation.mutate(session.id)
+                      }
+                      isTerminating={
+                        terminateSessionMutation.isPending &&
+                        terminateSessionMutation.variables === session.id
+                      }
+                    />
+                  ))}
+                </div>
+              </>
+            )}
+
+            {otherSessions.length === 0 && (
+              <p className="py-4 text-sm text-center text-gray-500">
+                You're not signed in on any other device.
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,173 @@
+import React, { useState } from "react";
+import { useLock } from "../../context/lock";
+import { AlertCircle, X } from "lucide-react";
+
+interface PasscodeSettingsProps {
+  onClose: () => void;
+}
+
+const AUTO_LOCK_OPTIONS = [
+  { minutes: 0, label: "Disabled" },
+  { minutes: 1, label: "In 1 min" },
+  { minutes: 5, label: "In 5 min" },
+  { minutes: 15, label: "In 15 min" },
+  { minutes: 60, label: "In 1 hour" },
+];
+
+const MIN_PASSCODE_LENGTH = 4;
+
+export const PasscodeSettings: React.FC<PasscodeSettingsProps> = ({
+  onClose,
+}) => {
+  const {
+    hasPasscode,
+    autoLockMinutes,
+    setPasscode,
+    removePasscode,
+    setAutoLockMinutes,
+  } = useLock();
+
+  const [isEditing, setIsEditing] = useState(!hasPasscode);
+  const [passcode, setPasscodeValue] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+
+    if (passcode.length < MIN_PASSCODE_LENGTH) {
+      setError(
+        `Passcode must be at least ${MIN_PASSCODE_LENGTH} characters long`
+      );
+      return;
+    }
+    if (passcode !== confirmation) {
+      setError("Passcodes don't match");
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await setPasscode(passcode, hasPasscode ? autoLockMinutes : 15);
+      setPasscodeValue("");
+      setConfirmation("");
+      setIsEditing(false);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Something went wrong");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRemove = () => {
+    removePasscode();
+    setIsEditing(true);
+  };
+
+  const inputClassName =
+    "w-full px-4 py-3 border border-gray-300 rounded-lg tracking-widest text-center focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all";
+
+  return (
+    <div className="fixed inset-0 bg-black/40 flex items-center justify-center p-4 z-20">
+      <div className="bg-white rounded-2xl shadow-xl p-6 w-full max-w-md">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-semibold text-gray-900">Passcode lock</h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+            title="Close"
+          >
+            <X className="w-5 h-5 text-gray-600" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-4 rounded-lg flex items-center space-x-2 bg-red-50 text-red-700 border border-red-200">
+            <AlertCircle className="w-5 h-5 flex-shrink-0" />
+            <span className="text-sm">{error}</span>
+          </div>
+        )}
+
+        {isEditing ? (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <p className="text-sm text-gray-700">
+              The passcode is only stored on this device. You'll need it to open
+              the app after it locks.
+            </p>
+            <input
+              type="password"
+              autoComplete="new-password"
+              value={passcode}
+              onChange={(e) => setPasscodeValue(e.target.value)}
+              className={inputClassName}
+              placeholder="New passcode"
+              autoFocus
+              required
+            />
+            <input
+              type="password"
+              autoComplete="new-password"
+              value={confirmation}
+              onChange={(e) => setConfirmation(e.target.value)}
+              className={inputClassName}
+              placeholder="Repeat passcode"
+              required
+            />
+            <button
+              type="submit"
+              disabled={loading || !passcode || !confirmation}
+              className="w-full bg-blue-500 hover:bg-blue-600 disabled:bg-blue-300 text-white font-semibold py-3 px-4 rounded-lg transition-colors disabled:cursor-not-allowed"
+            >
+              {loading ? "Saving..." : "Save passcode"}
+            </button>
+            {hasPasscode && (
+              <button
+                type="button"
+                onClick={() => setIsEditing(false)}
+                className="w-full text-sm text-gray-500 hover:text-gray-700 transition-colors"
+              >
+                Cancel
+              </button>
+            )}
+          </form>
+        ) : (
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Auto-lock
+              </label>
+              <select
+                value={autoLockMinutes}
+                onChange={(e) => setAutoLockMinutes(Number(e.target.value))}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all"
+              >
+                {AUTO_LOCK_OPTIONS.map((option) => (
+                  <option key={option.minutes} value={option.minutes}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+              <p className="mt-1 text-xs text-gray-500">
+                Lock the app after this much time without activity.
+              </p>
+            </div>
+            <button
+              onClick={() => setIsEditing(true)}
+              className="w-full bg-blue-500 hover:bg-blue-600 text-white font-semibold py-3 px-4 rounded-lg transition-colors"
+            >
+              Change passcode
+            </button>
+            <button
+              onClick={handleRemove}
+              className="w-full border border-red-300 text-red-600 hover:bg-red-50 font-semibold py-3 px-4 rounded-lg transition-colors"
+            >
+              Turn off passcode
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,208 @@
+import React, { useState } from "react";
+import { useAuth } from "../../context/authContext";
+import { useAuthApi } from "../../api/auth";
+import { TwoFactorSetup } from "../../types";
+import { AlertCircle, ShieldCheck, ShieldOff, X } from "lucide-react";
+
+interface TwoFactorSettingsProps {
+  onClose: () => void;
+}
+
+type Step = "overview" | "setup" | "backupCodes" | "disable";
+
+export const TwoFactorSettings: React.FC<TwoFactorSettingsProps> = ({
+  onClose,
+}) => {
+  const { user, refreshUser } = useAuth();
+  const authApi = useAuthApi();
+
+  const [step, setStep] = useState<Step>("overview");
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [backupCodes, setBackupCodes] = useState<string[]>([]);
+  const [code, setCode] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  const isEnabled = !!user?.twoFactorEnabled;
+
+  const run = async (action: () => Promise<void>) => {
+    setError("");
+    setLoading(true);
+    try {
+      await action();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Something went wrong");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const startSetup = () =>
+    run(async () => {
+      setSetup(await authApi.setupTwoFactor());
+      setCode("");
+      setStep("setup");
+    });
+
+  const confirmSetup = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      const result = await authApi.enableTwoFactor(code.trim());
+      setBackupCodes(result.backupCodes);
+      setStep("backupCodes");
+      await refreshUser();
+    });
+  };
+
+  const confirmDisable = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      await authApi.disableTwoFactor(code.trim());
+      await refreshUser();
+      setCode("");
+      setStep("overview");
+    });
+  };
+
+  const codeInput = (
+    <input
+      type="text"
+      inputMode="numeric"
+      autoComplete="one-time-code"
+      value={code}
+      onChange={(e) => setCode(e.target.value)}
+      className="w-full px-4 py-3 border border-gray-300 rounded-lg tracking-widest text-center focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all"
+      placeholder="123456"
+      autoFocus
+      required
+    />
+  );
+
+  const submitButton = (label: string) => (
+    <button
+      type="submit"
+      disabled={loading || !code.trim()}
+      className="w-full bg-blue-500 hover:bg-blue-600 disabled:bg-blue-300 text-white font-semibold py-3 px-4 rounded-lg transition-colors disabled:cursor-not-allowed"
+    >
+      {loading ? "Processing..." : label}
+    </button>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/40 flex items-center justify-center p-4 z-20">
+      <div className="bg-white rounded-2xl shadow-xl p-6 w-full max-w-md">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-semibold text-gray-900">
+            Two-step verification
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+            title="Close"
+          >
+            <X className="w-5 h-5 text-gray-600" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-4 rounded-lg flex items-center space-x-2 bg-red-50 text-red-700 border border-red-200">
+            <AlertCircle className="w-5 h-5 flex-shrink-0" />
+            <span className="text-sm">{error}</span>
+          </div>
+        )}
+
+        {step === "overview" && (
+          <div className="space-y-4">
+            <div className="flex items-center space-x-3">
+              {isEnabled ? (
+                <ShieldCheck className="w-8 h-8 text-green-500" />
+              ) : (
+                <ShieldOff className="w-8 h-8 text-gray-400" />
+              )}
+              <p className="text-sm text-gray-700">
+                {isEnabled
+                  ? "Two-step verification is on. Signing in requires a code from your authenticator app."
+                  : "Protect your account with a code from an authenticator app in addition to your password."}
+              </p>
+            </div>
+            {isEnabled ? (
+              <button
+                onClick={() => {
+                  setCode("");
+                  setStep("disable");
+                }}
+                className="w-full border border-red-300 text-red-600 hover:bg-red-50 font-semibold py-3 px-4 rounded-lg transition-colors"
+              >
+                Turn off
+              </button>
+            ) : (
+              <button
+                onClick={startSetup}
+                disabled={loading}
+                className="w-full bg-blue-500 hover:bg-blue-600 disabled:bg-blue-300 text-white font-semibold py-3 px-4 rounded-lg transition-colors disabled:cursor-not-allowed"
+              >
+                {loading ? "Processing..." : "Turn on"}
+              </button>
+            )}
+          </div>
+        )}
+
+        {step === "setup" && setup && (
+          <form onSubmit={confirmSetup} className="space-y-4">
+            <p className="text-sm text-gray-700">
+              Scan this QR code with your authenticator app, or enter the secret
+              manually. Then enter the code it shows.
+            </p>
+            {setup.qrCode && (
+              <img
+                src={setup.qrCode}
+                alt="Two-step verification QR code"
+                className="mx-auto w-48 h-48"
+              />
+            )}
+            <div className="bg-gray-50 rounded-lg p-3 text-center">
+              <p className="text-xs text-gray-500 mb-1">Secret</p>
+              <code className="text-sm font-mono break-all select-all">
+                {setup.secret}
+              </code>
+            </div>
+            {codeInput}
+            {submitButton("Confirm")}
+          </form>
+        )}
+
+        {step === "backupCodes" && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-700">
+              Two-step verification is on. Save these backup codes somewhere
+              safe: each one can be used once if you lose your device. They
+              won't be shown again.
+            </p>
+            <ul className="grid grid-cols-2 gap-2 bg-gray-50 rounded-lg p-3 font-mono text-sm text-center select-all">
+              {backupCodes.map((backupCode) => (
+                <li key={backupCode}>{backupCode}</li>
+              ))}
+            </ul>
+            <button
+              onClick={onClose}
+              className="w-full bg-blue-500 hover:bg-blue-600 text-white font-semibold py-3 px-4 rounded-lg transition-colors"
+            >
+              Done
+            </button>
+          </div>
+        )}
+
+        {step === "disable" && (
+          <form onSubmit={confirmDisable} className="space-y-4">
+            <p className="text-sm text-gray-700">
+              Enter a code from your authenticator app or a backup code to turn
+              off two-step verification.
+            </p>
+            {codeInput}
+            {submitButton("Turn off")}
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
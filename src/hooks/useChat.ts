@@ -2,11 +2,24 @@
 import { useState, useEffect, useCallback } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useChatsApi } from "../api/chats";
-import { useSocket } from "./useSocket";
+import {
+  useSocket,
+  useSocketEvent,
+  useSocketReconnect,
+} from "./useSocket";
+import { useOutbox } from "./useOutbox";
+import { useChatListUpdates } from "./useChatList";
+import {
+  useChatMessages,
+  useLoadMessages,
+  useMessageStore,
+  useOlderMessages,
+} from "./useMessages";
 import { useAuth } from "../context/authContext";
+import { useToast } from "../context/toast";
+import { mergeMessages } from "../utils/messages";
 import {
   Chat,
-  Message,
 //   User,
 //   CreateGroupChatData,
   UpdateChatData,
@@ -32,15 +45,20 @@ export const useChat = (options: UseChatOptions = {}) => {
   const { user, isAuthenticated } = useAuth();
   const chatsApi = useChatsApi();
   const queryClient = useQueryClient();
+  const { showError } = useToast();
 
   // State management
   const [selectedChatId, setSelectedChatId] = useState<string | null>(null);
-  const [messages, setMessages] = useState<Record<string, Message[]>>({});
+  // Messages are normalized in the account's store, shared with ChatRoom
+  const messageStore = useMessageStore();
   const [typingUsers, setTypingUsers] = useState<Record<string, string[]>>({});
   const [onlineUsers, setOnlineUsers] = useState<Set<string>>(new Set());
-  const [loadingStates, setLoadingStates] = useState<Record<string, boolean>>(
-    {}
-  );
+  // Latest pages, over the socket or HTTP; a chat switch cancels them
+  const {
+    loadMessages,
+    cancel: cancelMessageLoad,
+    isLoading: isLoadingChat,
+  } = useLoadMessages();
 
   // ================== QUERIES ==================
 
@@ -88,6 +106,10 @@ export const useChat = (options: UseChatOptions = {}) => {
       queryClient.invalidateQueries({ queryKey: ["chats"] });
       setSelectedChatId(newChat.id);
     },
+    onError: (error, targetUserId) =>
+      showError("Couldn't start the chat", error, () =>
+        createDirectChatMutation.mutate(targetUserId)
+      ),
   });
 
   // Create group chat
@@ -97,6 +119,10 @@ export const useChat = (options: UseChatOptions = {}) => {
       queryClient.invalidateQueries({ queryKey: ["chats"] });
       setSelectedChatId(newChat.id);
     },
+    onError: (error, data) =>
+      showError("Couldn't create the group", error, () =>
+        createGroupChatMutation.mutate(data)
+      ),
   });
 
   // Update chat
@@ -106,6 +132,10 @@ export const useChat = (options: UseChatOptions = {}) => {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["chats"] });
     },
+    onError: (error, variables) =>
+      showError("Couldn't update the chat", error, () =>
+        updateChatMutation.mutate(variables)
+      ),
   });
 
   // Delete chat
@@ -117,12 +147,12 @@ export const useChat = (options: UseChatOptions = {}) => {
         setSelectedChatId(null);
       }
       // Remove messages from cache
-      setMessages((prev) => {
-        const newMessages = { ...prev };
-        delete newMessages[chatId];
-        return newMessages;
-      });
+      messageStore.removeChat(chatId);
     },
+    onError: (error, chatId) =>
+      showError("Couldn't delete the chat", error, () =>
+        deleteChatMutation.mutate(chatId)
+      ),
   });
 
   // Leave chat
@@ -134,6 +164,10 @@ export const useChat = (options: UseChatOptions = {}) => {
         setSelectedChatId(null);
       }
     },
+    onError: (error, chatId) =>
+      showError("Couldn't leave the chat", error, () =>
+        leaveChatMutation.mutate(chatId)
+      ),
   });
 
   // Pin/Unpin chat
@@ -144,6 +178,14 @@ export const useChat = (options: UseChatOptions = {}) => {
       queryClient.invalidateQueries({ queryKey: ["chats"] });
       queryClient.invalidateQueries({ queryKey: ["chats", "pinned"] });
     },
+    onError: (error, variables) =>
+      showError(
+        variables.isPinned
+          ? "Couldn't pin the chat"
+          : "Couldn't unpin the chat",
+        error,
+        () => pinChatMutation.mutate(variables)
+      ),
   });
 
   // Archive/Unarchive chat
@@ -159,14 +201,24 @@ export const useChat = (options: UseChatOptions = {}) => {
       queryClient.invalidateQueries({ queryKey: ["chats"] });
       queryClient.invalidateQueries({ queryKey: ["chats", "archived"] });
     },
+    onError: (error, variables) =>
+      showError(
+        variables.isArchived
+          ? "Couldn't archive the chat"
+          : "Couldn't unarchive the chat",
+        error,
+        () => archiveChatMutation.mutate(variables)
+      ),
   });
 
-  // Mark as read
+  // Mark as read. Runs in the background, so failures aren't shown; the next
+  // view of the chat marks it again.
   const markAsReadMutation = useMutation({
     mutationFn: chatsApi.markAsRead,
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["chats"] });
     },
+    onError: (error) => console.error("Failed to mark chat as read:", error),
   });
 
   // Send message
@@ -184,13 +236,14 @@ export const useChat = (options: UseChatOptions = {}) => {
       };
     }) => chatsApi.sendMessage(chatId, data as any),
     onSuccess: (newMessage) => {
-      // Optimistically update messages
-      setMessages((prev) => ({
-        ...prev,
-        [newMessage.chatId]: [...(prev[newMessage.chatId] || []), newMessage],
-      }));
+      // The socket echo of the same message is deduplicated by the store
+      messageStore.upsert([newMessage]);
       queryClient.invalidateQueries({ queryKey: ["chats"] });
     },
+    onError: (error, variables) =>
+      showError("Message not sent", error, () =>
+        sendMessageMutation.mutate(variables)
+      ),
   });
 
   // ================== SOCKET INTEGRATION ==================
@@ -199,117 +252,102 @@ export const useChat = (options: UseChatOptions = {}) => {
     sendMessage: socketSendMessage,
     joinChat: socketJoinChat,
     leaveChat: socketLeaveChat,
-    getMessages: socketGetMessages,
     isConnected,
-  } = useSocket({
-    onMessage: (message: Message) => {
-      setMessages((prev) => ({
-        ...prev,
-        [message.chatId]: [...(prev[message.chatId] || []), message],
-      }));
+  } = useSocket();
+
+  // The store keeps the messages themselves; here the chat list follows
+  useSocketEvent("newMessage", (message) => {
+    // Update chat list with new last message
+    queryClient.setQueryData(["chats"], (oldChats: Chat[] = []) => {
+      return oldChats.map((chat) =>
+        chat.id === message.chatId
+          ? {
+              ...chat,
+              lastMessage: message,
+              unreadCount: chat.unreadCount + 1,
+            }
+          : chat
+      );
+    });
+
+    // Auto-mark as read if chat is selected and visible
+    if (markAsReadOnView && message.chatId === selectedChatId) {
+      setTimeout(() => markAsReadMutation.mutate(message.chatId), 1000);
+    }
+  });
 
-      // Update chat list with new last message
-      queryClient.setQueryData(["chats"], (oldChats: Chat[] = []) => {
-        return oldChats.map((chat) =>
-          chat.id === message.chatId
-            ? {
-                ...chat,
-                lastMessage: message,
-                unreadCount: chat.unreadCount + 1,
-              }
-            : chat
-        );
-      });
-
-      // Auto-mark as read if chat is selected and visible
-      if (markAsReadOnView && message.chatId === selectedChatId) {
-        setTimeout(() => markAsReadMutation.mutate(message.chatId), 1000);
-      }
-    },
-    onUserOnline: (userId: string) => {
-      setOnlineUsers((prev) => new Set([...prev, userId]));
-    },
-    onUserOffline: (userId: string) => {
-      setOnlineUsers((prev) => {
-        const newSet = new Set(prev);
-        newSet.delete(userId);
-        return newSet;
-      });
-    },
-    onTyping: ({ userId, chatId }: { userId: string; chatId: string }) => {
-      if (!enableTypingIndicators) return;
+  useSocketEvent("userOnline", (userId) => {
+    setOnlineUsers((prev) => new Set([...prev, userId]));
+  });
 
-      setTypingUsers((prev) => ({
-        ...prev,
-        [chatId]: [
-          ...(prev[chatId] || []).filter((id) => id !== userId),
-          userId,
-        ],
-      }));
+  useSocketEvent("userOffline", (userId) => {
+    setOnlineUsers((prev) => {
+      const newSet = new Set(prev);
+      newSet.delete(userId);
+      return newSet;
+    });
+  });
 
-      // Auto-clear typing after 3 seconds
-      setTimeout(() => {
-        setTypingUsers((prev) => ({
-          ...prev,
-          [chatId]: (prev[chatId] || []).filter((id) => id !== userId),
-        }));
-      }, 3000);
-    },
-    onStopTyping: ({ userId, chatId }: { userId: string; chatId: string }) => {
+  useSocketEvent("typing", ({ userId, chatId }) => {
+    if (!enableTypingIndicators) return;
+
+    setTypingUsers((prev) => ({
+      ...prev,
+      [chatId]: [...(prev[chatId] || []).filter((id) => id !== userId), userId],
+    }));
+
+    // Auto-clear typing after 3 seconds
+    setTimeout(() => {
       setTypingUsers((prev) => ({
         ...prev,
         [chatId]: (prev[chatId] || []).filter((id) => id !== userId),
       }));
-    },
+    }, 3000);
   });
 
-  // ================== HELPER FUNCTIONS ==================
+  useSocketEvent("stopTyping", ({ userId, chatId }) => {
+    setTypingUsers((prev) => ({
+      ...prev,
+      [chatId]: (prev[chatId] || []).filter((id) => id !== userId),
+    }));
+  });
 
-  const loadMessages = useCallback(
-    async (chatId: string, params?: any) => {
-      if (!chatId) return;
+  // Edits, deletions and chat changes, in the chat lists
+  useChatListUpdates();
 
-      setLoadingStates((prev) => ({ ...prev, [chatId]: true }));
+  useSocketEvent("chatDeleted", (chatId) => {
+    setTypingUsers((prev) => ({ ...prev, [chatId]: [] }));
+    if (selectedChatId === chatId) {
+      if (autoConnect) socketLeaveChat(chatId);
+      setSelectedChatId(null);
+    }
+  });
 
-      try {
-        let chatMessages: Message[];
-
-        if (autoConnect && isConnected) {
-          // Use socket for real-time messages
-          chatMessages = (await socketGetMessages(
-            chatId,
-            params?.limit || 50,
-            params?.cursor
-          )) as Message[];
-        } else {
-          // Fallback to HTTP API
-          chatMessages = await chatsApi.getMessages(chatId, params);
-        }
+  // Messages still in the outbox show up as pending until the server has them
+  const outbox = useOutbox(selectedChatId ?? undefined);
 
-        setMessages((prev) => ({
-          ...prev,
-          [chatId]: cacheMessages ? chatMessages.reverse() : chatMessages,
-        }));
-      } catch (error) {
-        console.error("Failed to load messages:", error);
-      } finally {
-        setLoadingStates((prev) => ({ ...prev, [chatId]: false }));
-      }
-    },
-    [autoConnect, isConnected, cacheMessages, socketGetMessages, chatsApi]
-  );
+  // Rooms are rejoined and missed messages fetched by the socket and store;
+  // the chat list needs a refresh
+  useSocketReconnect(() => {
+    queryClient.invalidateQueries({ queryKey: ["chats"] });
+  });
+
+  // ================== HELPER FUNCTIONS ==================
 
   const selectChat = useCallback(
     (chatId: string) => {
-      // Leave previous chat
+      // Leave previous chat and stop loading its messages
+      if (selectedChatId && selectedChatId !== chatId) {
+        cancelMessageLoad(selectedChatId);
+      }
       if (selectedChatId && autoConnect) {
         socketLeaveChat(selectedChatId);
       }
 
       setSelectedChatId(chatId);
 
-      // Join new chat
-      if (autoConnect && isConnected) {
+      // Join new chat; the socket joins it once connected if it isn't yet
+      if (autoConnect) {
         socketJoinChat(chatId);
       }
 
@@ -317,7 +355,7 @@ export const useChat = (options: UseChatOptions = {}) => {
       setTypingUsers((prev) => ({ ...prev, [chatId]: [] }));
 
       // Load messages if not cached
-      if (!messages[chatId]) {
+      if (!cacheMessages || !messageStore.isLoaded(chatId)) {
         loadMessages(chatId);
       }
 
@@ -329,8 +367,9 @@ export const useChat = (options: UseChatOptions = {}) => {
     [
       selectedChatId,
       autoConnect,
-      isConnected,
-      messages,
+      cacheMessages,
+      messageStore,
+      cancelMessageLoad,
       loadMessages,
       markAsReadOnView,
     ]
@@ -341,8 +380,8 @@ export const useChat = (options: UseChatOptions = {}) => {
       if (!selectedChatId || !text.trim()) return;
 
       try {
-        if (autoConnect && isConnected) {
-          // Use socket for real-time sending
+        if (autoConnect) {
+          // Queued in the outbox, which sends it once the socket is up
           socketSendMessage(
             selectedChatId,
             text,
@@ -365,13 +404,7 @@ export const useChat = (options: UseChatOptions = {}) => {
         throw error;
       }
     },
-    [
-      selectedChatId,
-      autoConnect,
-      isConnected,
-      socketSendMessage,
-      sendMessageMutation,
-    ]
+    [selectedChatId, autoConnect, socketSendMessage, sendMessageMutation]
   );
 
   const searchChats = useCallback(
@@ -382,10 +415,11 @@ export const useChat = (options: UseChatOptions = {}) => {
         return await chatsApi.searchChats(query);
       } catch (error) {
         console.error("Failed to search chats:", error);
+        showError("Search failed", error);
         return [];
       }
     },
-    [chats, chatsApi]
+    [chats, chatsApi, showError]
   );
 
   const searchUsers = useCallback(
@@ -396,22 +430,29 @@ export const useChat = (options: UseChatOptions = {}) => {
         return await chatsApi.searchUsers(query);
       } catch (error) {
         console.error("Failed to search users:", error);
+        showError("Search failed", error);
         return [];
       }
     },
-    [chatsApi]
+    [chatsApi, showError]
   );
 
   // ================== COMPUTED VALUES ==================
 
   const selectedChat = chats.find((chat) => chat.id === selectedChatId);
-  const selectedMessages = selectedChatId ? messages[selectedChatId] || [] : [];
+  const storedMessages = useChatMessages(selectedChatId);
+  const selectedMessages = selectedChatId
+    ? mergeMessages(storedMessages, outbox.messages)
+    : [];
   const selectedChatTypingUsers = selectedChatId
     ? typingUsers[selectedChatId] || []
     : [];
-  const isLoadingMessages = selectedChatId
-    ? loadingStates[selectedChatId] || false
-    : false;
+  const isLoadingMessages = isLoadingChat(selectedChatId);
+  const {
+    hasMore: hasMoreMessages,
+    loadMore: loadMoreMessages,
+    loadingMore: isLoadingMoreMessages,
+  } = useOlderMessages(selectedChatId);
 
   const unreadChatsCount = chats.reduce(
     (count, chat) => count + (chat.unreadCount > 0 ? 1 : 0),
@@ -455,6 +496,8 @@ export const useChat = (options: UseChatOptions = {}) => {
     // Messages
     messages: selectedMessages,
     isLoadingMessages,
+    hasMoreMessages,
+    isLoadingMoreMessages,
 
     // Users & participants
     otherParticipant,
@@ -493,6 +536,9 @@ export const useChat = (options: UseChatOptions = {}) => {
     // Messages
     sendMessage,
     loadMessages,
+    loadMoreMessages,
+    retryMessage: outbox.retry,
+    discardMessage: outbox.remove,
     deleteMessage: chatsApi.deleteMessage,
     editMessage: chatsApi.editMessage,
     reactToMessage: chatsApi.reactToMessage,
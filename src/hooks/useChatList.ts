@@ -0,0 +1,80 @@
+import { useQueryClient } from "@tanstack/react-query";
+import { useSocketEvent } from "./useSocket";
+import { useMessageStore } from "./useMessages";
+import { Chat } from "../types";
+import { removeMessage } from "../utils/messages";
+import {
+  addParticipant,
+  removeChat,
+  removeParticipant,
+  replaceLastMessage,
+  updateChat,
+  upsertChat,
+} from "../utils/chats";
+
+/**
+ * Keep the cached chat list in step with the server's chat and message
+ * events. The message store updates the messages themselves; this keeps
+ * the previews, participants and pinned and archived lists. Mount it once,
+ * wherever the chat list is shown.
+ */
+export const useChatListUpdates = () => {
+  const queryClient = useQueryClient();
+  const messageStore = useMessageStore();
+
+  // Apply a change to the cached chat list
+  const updateChats = (update: (chats: Chat[]) => Chat[]) =>
+    queryClient.setQueryData<Chat[]>(
+      ["chats"],
+      (oldChats) => oldChats && update(oldChats)
+    );
+
+  // Pinning and archiving come through chat events too
+  const refreshFilteredLists = () => {
+    queryClient.invalidateQueries({ queryKey: ["chats", "pinned"] });
+    queryClient.invalidateQueries({ queryKey: ["chats", "archived"] });
+  };
+
+  useSocketEvent("messageEdited", (message) => {
+    updateChats((oldChats) =>
+      updateChat(oldChats, message.chatId, (chat) =>
+        replaceLastMessage(chat, message.id, message)
+      )
+    );
+  });
+
+  useSocketEvent("messageDeleted", (messageId, chatId) => {
+    // The preview falls back to the message before it, if that's loaded
+    const remaining = removeMessage(
+      messageStore.getMessages(chatId),
+      messageId
+    );
+    updateChats((oldChats) =>
+      updateChat(oldChats, chatId, (chat) =>
+        replaceLastMessage(chat, messageId, remaining[remaining.length - 1])
+      )
+    );
+  });
+
+  useSocketEvent("chatUpdated", (chat) => {
+    updateChats((oldChats) => upsertChat(oldChats, chat));
+    refreshFilteredLists();
+  });
+
+  useSocketEvent("chatDeleted", (chatId) => {
+    updateChats((oldChats) => removeChat(oldChats, chatId));
+    refreshFilteredLists();
+  });
+
+  useSocketEvent("participantAdded", ({ chatId, user: participant }) => {
+    updateChats((oldChats) =>
+      updateChat(oldChats, chatId, (chat) => addParticipant(chat, participant))
+    );
+  });
+
+  useSocketEvent("participantRemoved", ({ chatId, userId }) => {
+    updateChats((oldChats) =>
+      updateChat(oldChats, chatId, (chat) => removeParticipant(chat, userId))
+    );
+  });
+};
@@ -0,0 +1,198 @@
+import {
+  useCallback,
+  useEffect,
+  useRef,
+  useState,
+  useSyncExternalStore,
+} from "react";
+import { useSocketContext } from "../context/socket";
+import { useToast } from "../context/toast";
+import { MessageQueryParams, useChatsApi } from "../api/chats";
+import { UseMessagesReturn } from "../types";
+
+const PAGE_SIZE = 50;
+
+// The account's normalized message store, for loading pages into it
+export const useMessageStore = () => useSocketContext().messageStore;
+
+/**
+ * One chat's loaded messages, oldest first. Only re-renders when that chat
+ * changes.
+ */
+export const useChatMessages = (chatId?: string | null) => {
+  const messageStore = useMessageStore();
+
+  const subscribe = useCallback(
+    (listener: () => void) =>
+      chatId ? messageStore.subscribe(chatId, listener) : () => {},
+    [messageStore, chatId]
+  );
+
+  return useSyncExternalStore(subscribe, () =>
+    messageStore.getMessages(chatId ?? "")
+  );
+};
+
+/**
+ * Load a page of a chat's messages into the store: the latest one, or the
+ * one `params` point at. Goes over the socket while it's connected and over
+ * HTTP while it isn't. Loading a chat again, or `cancel`, drops the load in
+ * flight, and a late answer to it is ignored. Failures are shown with a
+ * "Try again" button.
+ */
+export const useLoadMessages = () => {
+  const { client, messageStore } = useSocketContext();
+  const { showError } = useToast();
+  // Its functions change every render
+  const chatsApi = useChatsApi();
+  const chatsApiRef = useRef(chatsApi);
+  // One in-flight load per chat, so a chat switch can cancel it
+  const loads = useRef(new Map<string, AbortController>());
+  const [loadingChats, setLoadingChats] = useState<Record<string, boolean>>({});
+
+  useEffect(() => {
+    chatsApiRef.current = chatsApi;
+  });
+
+  useEffect(() => {
+    const current = loads.current;
+    return () => current.forEach((controller) => controller.abort());
+  }, []);
+
+  const loadMessages = useCallback(
+    async (chatId: string, params: MessageQueryParams = {}) => {
+      loads.current.get(chatId)?.abort();
+      const controller = new AbortController();
+      loads.current.set(chatId, controller);
+      setLoadingChats((current) => ({ ...current, [chatId]: true }));
+
+      const limit = params.limit ?? PAGE_SIZE;
+      try {
+        const page = client.isConnected
+          ? await client.emitWithAck("getMessages", {
+              chatId,
+              limit,
+              cursor: params.cursor ?? params.before,
+              after: params.after,
+            })
+          : await chatsApiRef.current.getMessages(
+              chatId,
+              { ...params, limit },
+              { signal: controller.signal }
+            );
+
+        // Socket loads can't be aborted, so drop their late results instead
+        if (controller.signal.aborted) return;
+
+        // The store orders them, whichever way round the page comes. A page
+        // ends at its cursor, or at the latest message when there's none;
+        // one fetched `after` a message starts right after it.
+        messageStore.upsertPage(chatId, page, {
+          joinsPrevious: !!params.after,
+          joinsNext: !params.after,
+          reachedStart: !params.after && page.length < limit,
+        });
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        showError("Couldn't load messages", error, () =>
+          loadMessages(chatId, params)
+        );
+      } finally {
+        if (loads.current.get(chatId) === controller) {
+          loads.current.delete(chatId);
+          setLoadingChats((current) => ({ ...current, [chatId]: false }));
+        }
+      }
+    },
+    [client, messageStore, showError]
+  );
+
+  const cancel = useCallback((chatId: string) => {
+    const controller = loads.current.get(chatId);
+    if (!controller) return;
+    controller.abort();
+    loads.current.delete(chatId);
+    setLoadingChats((current) => ({ ...current, [chatId]: false }));
+  }, []);
+
+  const isLoading = (chatId?: string | null) =>
+    !!chatId && !!loadingChats[chatId];
+
+  return { loadMessages, cancel, isLoading };
+};
+
+/**
+ * Pages further back through a chat's history. Holes in what's loaded, like
+ * those between a cached run and the latest page, are filled first, newest
+ * first; then a page before the oldest loaded message at a time. Does
+ * nothing until the chat has a message to page back from, and ignores calls
+ * while a page is on its way.
+ */
+export const useOlderMessages = (
+  chatId?: string | null
+): Pick<UseMessagesReturn, "hasMore" | "loadMore"> & {
+  loadingMore: boolean;
+} => {
+  const { client, messageStore } = useSocketContext();
+  // For when the socket is down. Its functions change every render.
+  const chatsApi = useChatsApi();
+  const chatsApiRef = useRef(chatsApi);
+  const loading = useRef(new Set<string>());
+  const [loadingChatId, setLoadingChatId] = useState<string | null>(null);
+
+  useEffect(() => {
+    chatsApiRef.current = chatsApi;
+  });
+
+  const subscribe = useCallback(
+    (listener: () => void) =>
+      chatId ? messageStore.subscribe(chatId, listener) : () => {},
+    [messageStore, chatId]
+  );
+
+  const hasMore = useSyncExternalStore(
+    subscribe,
+    () => !!chatId && messageStore.getOlderCursor(chatId) !== null
+  );
+
+  const loadMore = useCallback(async () => {
+    if (!chatId || loading.current.has(chatId)) return;
+    const cursor = messageStore.getOlderCursor(chatId);
+    if (!cursor) return;
+    // Otherwise the page fills a hole, and a short one says nothing about
+    // where the chat starts
+    const [oldest] = messageStore.getMessages(chatId);
+    const pastOldest = cursor === oldest.id;
+
+    loading.current.add(chatId);
+    setLoadingChatId(chatId);
+    try {
+      const page = client.isConnected
+        ? await client.emitWithAck("getMessages", {
+            chatId,
+            limit: PAGE_SIZE,
+            cursor,
+          })
+        : await chatsApiRef.current.getMessages(chatId, {
+            limit: PAGE_SIZE,
+            before: cursor,
+          });
+      // Everything between the page and the cursor is in it
+      messageStore.upsertPage(chatId, page, {
+        joinsNext: true,
+        reachedStart: pastOldest && page.length < PAGE_SIZE,
+      });
+    } catch (error) {
+      console.error("Failed to load older messages:", error);
+    } finally {
+      loading.current.delete(chatId);
+      setLoadingChatId((current) => (current === chatId ? null : current));
+    }
+  }, [chatId, client, messageStore]);
+
+  return {
+    hasMore,
+    loadMore,
+    loadingMore: !!chatId && loadingChatId === chatId,
+  };
+};
@@ -0,0 +1,21 @@
+import { useMemo, useSyncExternalStore } from "react";
+import { useSocketContext } from "../context/socket";
+import { toPendingMessage } from "../utils/outbox";
+
+// One chat's unsent messages, as pending or failed bubbles
+export const useOutbox = (chatId?: string) => {
+  const { outbox } = useSocketContext();
+  const entries = useSyncExternalStore(outbox.subscribe, outbox.getSnapshot);
+
+  const messages = useMemo(
+    () =>
+      entries.filter((entry) => entry.chatId === chatId).map(toPendingMessage),
+    [entries, chatId]
+  );
+
+  return {
+    messages,
+    retry: (clientId: string) => outbox.retry(clientId),
+    remove: (clientId: string) => outbox.remove(clientId),
+  };
+};
@@ -1,132 +1,128 @@
-import { useEffect, useRef, useState } from "react";
-import io, { Socket } from "socket.io-client";
-import { useAuth } from "../context/authContext";
-import { Message } from "../types";
-
-const SOCKET_URL = "http://localhost:4001";
-
-interface SocketEvents {
-  onMessage: (message: Message) => void;
-  onUserOnline: (userId: string) => void;
-  onUserOffline: (userId: string) => void;
-  onTyping: (data: { userId: string; chatId: string }) => void;
-  onStopTyping: (data: { userId: string; chatId: string }) => void;
-}
-
-export const useSocket = (events: SocketEvents) => {
-  const { token, isAuthenticated } = useAuth();
-  const socketRef = useRef<Socket | null>(null);
-  const [isConnected, setIsConnected] = useState(false);
+import { useCallback, useEffect, useRef, useSyncExternalStore } from "react";
+import { useSocketContext } from "../context/socket";
+import { ReconnectListener, ServerEvent } from "../api/socketClient";
+import { Message, MessageAttachment, ServerToClientEvents } from "../types";
+
+/**
+ * Handle a server event for as long as the component is mounted. The latest
+ * handler is always called, so it can close over state freely.
+ */
+export const useSocketEvent = <E extends ServerEvent>(
+  event: E,
+  handler: ServerToClientEvents[E]
+) => {
+  const { client } = useSocketContext();
+  const handlerRef = useRef(handler);
 
   useEffect(() => {
-    if (!isAuthenticated || !token) {
-      if (socketRef.current) {
-        socketRef.current.disconnect();
-        socketRef.current = null;
-        setIsConnected(false);
-      }
-      return;
-    }
-
-    socketRef.current = io(SOCKET_URL, {
-      auth: {
-        token,
-      },
-      transports: ["websocket"],
-    });
-
-    const socket = socketRef.current;
-
-    // Connection events
-    socket.on("connect", () => {
-      console.log("Connected to server");
-      setIsConnected(true);
-    });
-
-    socket.on("disconnect", () => {
-      console.log("Disconnected from server");
-      setIsConnected(false);
-    });
-
-    // Message events
-    socket.on("newMessage", events.onMessage);
-    socket.on("user_online", events.onUserOnline);
-    socket.on("user_offline", events.onUserOffline);
-    socket.on("typing", events.onTyping);
-    socket.on("stop_typing", events.onStopTyping);
-
-    return () => {
-      socket.disconnect();
-      socketRef.current = null;
-      setIsConnected(false);
-    };
-  }, [isAuthenticated, token]);
-
-  const sendMessage = (
-    chatId: string,
-    text: string,
-    type?: string,
-    replyToId?: string
-  ) => {
-    if (socketRef.current && isConnected) {
-      const message = {
-        chatId,
-        text,
-        type,
-        replyToId,
-      };
-      socketRef.current.emit("sendMessage", message);
-    }
-  };
-
-  const joinChat = (chatId: string) => {
-    if (socketRef.current && isConnected) {
-      socketRef.current.emit("joinChat", { chatId });
-    }
-  };
+    handlerRef.current = handler;
+  });
 
-  const leaveChat = (chatId: string) => {
-    if (socketRef.current && isConnected) {
-      socketRef.current.emit("leaveChat", { chatId });
-    }
-  };
-
-  const getMessages = (chatId: string, limit?: number, cursor?: string) => {
-    if (socketRef.current && isConnected) {
-      return new Promise((resolve) => {
-        socketRef.current!.emit(
-          "getMessages",
-          { chatId, limit, cursor },
-          resolve
-        );
-      });
-    }
-  };
+  useEffect(() => {
+    const listener = (...args: unknown[]) =>
+      (handlerRef.current as (...args: unknown[]) => void)(...args);
+    return client.on(event, listener as ServerToClientEvents[E]);
+  }, [client, event]);
+};
 
-  const deleteMessage = (messageId: string) => {
-    if (socketRef.current && isConnected) {
-      socketRef.current.emit("deleteMessage", { messageId });
-    }
-  };
+/**
+ * Get the messages missed while the socket was down, after each reconnect.
+ */
+export const useSocketReconnect = (handler: ReconnectListener) => {
+  const { client } = useSocketContext();
+  const handlerRef = useRef(handler);
 
-  const startTyping = (chatId: string) => {
-    if (socketRef.current && isConnected) {
-      socketRef.current.emit("typing", chatId);
-    }
-  };
+  useEffect(() => {
+    handlerRef.current = handler;
+  });
+
+  useEffect(
+    () =>
+      client.onReconnect((missed, incomplete) =>
+        handlerRef.current(missed, incomplete)
+      ),
+    [client]
+  );
+};
 
-  const stopTyping = (chatId: string) => {
-    if (socketRef.current && isConnected) {
-      socketRef.current.emit("stop_typing", chatId);
-    }
-  };
+/**
+ * The shared socket connection: typed `on`/`off`/`emit`/`emitWithAck`, plus
+ * shortcuts for the events the chat sends. `status` says where the
+ * connection stands and `reconnectNow` skips the wait for the next attempt.
+ */
+export const useSocket = () => {
+  const { client, outbox } = useSocketContext();
+  const status = useSyncExternalStore(client.subscribe, client.getSnapshot);
+  const isConnected = status.state === "connected";
+
+  // Goes through the outbox, so it is sent once connected and retried
+  const sendMessage = useCallback(
+    (
+      chatId: string,
+      text: string,
+      type?: Message["type"],
+      replyToId?: string,
+      attachments?: MessageAttachment[]
+    ) => outbox.send({ chatId, text, type, replyToId, attachments }),
+    [outbox]
+  );
+
+  const joinChat = useCallback(
+    (chatId: string) => client.joinChat(chatId),
+    [client]
+  );
+
+  const leaveChat = useCallback(
+    (chatId: string) => client.leaveChat(chatId),
+    [client]
+  );
+
+  const markSeen = useCallback(
+    (chatId: string, messages: Message[]) => client.markSeen(chatId, messages),
+    [client]
+  );
+
+  const getMessages = useCallback(
+    (chatId: string, limit?: number, cursor?: string) =>
+      client.emitWithAck("getMessages", { chatId, limit, cursor }),
+    [client]
+  );
+
+  const deleteMessage = useCallback(
+    (messageId: string) => {
+      client.emit("deleteMessage", { messageId });
+    },
+    [client]
+  );
+
+  const startTyping = useCallback(
+    (chatId: string) => {
+      client.emit("startTyping", chatId);
+    },
+    [client]
+  );
+
+  const stopTyping = useCallback(
+    (chatId: string) => {
+      client.emit("stopTyping", chatId);
+    },
+    [client]
+  );
+
+  const reconnectNow = useCallback(() => client.reconnectNow(), [client]);
 
   return {
-    socket: socketRef.current,
     isConnected,
+    status,
+    reconnectNow,
+    on: client.on.bind(client),
+    off: client.off.bind(client),
+    emit: client.emit.bind(client),
+    emitWithAck: client.emitWithAck.bind(client),
     sendMessage,
     joinChat,
     leaveChat,
+    markSeen,
     getMessages,
     deleteMessage,
     startTyping,
@@ -0,0 +1,40 @@
+import { useMemo, useSyncExternalStore } from "react";
+import { uploadManager } from "../utils/uploadManager";
+import { useAuth } from "../context/authContext";
+
+// The signed-in account's uploads for one chat, re-rendering as their
+// progress changes
+export const useUploads = (chatId?: string) => {
+  const { user } = useAuth();
+  const uploads = useSyncExternalStore(
+    uploadManager.subscribe,
+    uploadManager.getSnapshot
+  );
+
+  const chatUploads = useMemo(
+    () =>
+      uploads.filter(
+        (upload) => upload.chatId === chatId && upload.accountId === user?.id
+      ),
+    [uploads, chatId, user?.id]
+  );
+
+  return {
+    uploads: chatUploads,
+    addFiles: (files: Iterable<File>) => {
+      if (!chatId) return;
+      for (const file of files) {
+        const type = file.type.startsWith("image/")
+          ? "image"
+          : file.type.startsWith("audio/")
+          ? "voice"
+          : "file";
+        uploadManager.add(chatId, file, type, user?.id);
+      }
+    },
+    pause: (id: string) => uploadManager.pause(id),
+    resume: (id: string) => uploadManager.resume(id),
+    cancel: (id: string) => uploadManager.cancel(id),
+    remove: (id: string) => uploadManager.remove(id),
+  };
+};
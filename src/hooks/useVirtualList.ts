@@ -0,0 +1,137 @@
+import {
+  RefObject,
+  useCallback,
+  useEffect,
+  useLayoutEffect,
+  useRef,
+  useState,
+} from "react";
+import { RowLayout } from "../utils/rowLayout";
+
+interface VirtualListOptions {
+  // The element that scrolls, and the one the rows are rendered into. The
+  // list must be positioned inside the container (e.g. `relative` on it).
+  containerRef: RefObject<HTMLElement>;
+  listRef: RefObject<HTMLElement>;
+  // One per row, in order
+  keys: string[];
+  // For rows that haven't been rendered yet
+  estimatedHeight: number;
+  // How far beyond the viewport rows are rendered, in pixels
+  overscan?: number;
+  // Rendered rows changed size, and the new sizes are laid out
+  onResize?: () => void;
+}
+
+/**
+ * Windowed rendering for long lists with rows of any height. Only the rows
+ * in and around the viewport are rendered, between two spacers standing in
+ * for the rest. Rendered rows are measured as they come and go, through
+ * `measureRow` and a `data-row-key` attribute on each.
+ */
+export const useVirtualList = ({
+  containerRef,
+  listRef,
+  keys,
+  estimatedHeight,
+  overscan = 800,
+  onResize,
+}: VirtualListOptions) => {
+  const [layout] = useState(() => new RowLayout(estimatedHeight));
+  layout.setKeys(keys);
+
+  const [range, setRange] = useState({ start: 0, end: 0 });
+  const [resizes, setResizes] = useState(0);
+  const rowObserver = useRef<ResizeObserver | null>(null);
+  const onResizeRef = useRef(onResize);
+
+  // In a layout effect, so the latest one runs when rows are resized
+  useLayoutEffect(() => {
+    onResizeRef.current = onResize;
+  });
+
+  // Work out which rows the viewport needs. Call after scrolling it.
+  const update = useCallback(() => {
+    const container = containerRef.current;
+    const list = listRef.current;
+    if (!container || !list) return;
+    const top = container.scrollTop - list.offsetTop;
+    const next = layout.rangeOf(
+      top - overscan,
+      top + container.clientHeight + overscan
+    );
+    setRange((current) =>
+      current.start === next.start && current.end === next.end ? current : next
+    );
+  }, [containerRef, listRef, layout, overscan]);
+
+  useLayoutEffect(() => {
+    if (resizes) onResizeRef.current?.();
+  }, [resizes]);
+
+  // Rows added, removed or resized move everything after them
+  useLayoutEffect(update, [update, keys, resizes]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(update);
+    observer.observe(container);
+    container.addEventListener("scroll", update, { passive: true });
+    return () => {
+      observer.disconnect();
+      container.removeEventListener("scroll", update);
+    };
+  }, [containerRef, update]);
+
+  useLayoutEffect(() => {
+    const observer = new ResizeObserver((entries) => {
+      let resized = false;
+      entries.forEach(({ target }) => {
+        const row = target as HTMLElement;
+        // Rows scrolled out of the window are done with
+        if (!row.isConnected) {
+          observer.unobserve(row);
+          return;
+        }
+        const key = row.dataset.rowKey;
+        if (key && layout.measure(key, row.offsetHeight)) resized = true;
+      });
+      if (resized) setResizes((count) => count + 1);
+    });
+    rowObserver.current = observer;
+    // Rows rendered before this ran
+    listRef.current
+      ?.querySelectorAll<HTMLElement>("[data-row-key]")
+      .forEach((row) => observer.observe(row));
+    return () => {
+      observer.disconnect();
+      rowObserver.current = null;
+    };
+  }, [layout, listRef]);
+
+  const measureRow = useCallback((row: HTMLElement | null) => {
+    if (row) rowObserver.current?.observe(row);
+  }, []);
+
+  // Row positions from the top of the list, measured or estimated
+  const offsetOf = useCallback(
+    (index: number) => layout.offsetOf(index),
+    [layout]
+  );
+  const indexAt = useCallback((y: number) => layout.indexAt(y), [layout]);
+
+  const start = Math.min(range.start, keys.length);
+  const end = Math.min(range.end, keys.length);
+
+  return {
+    start,
+    end,
+    paddingTop: layout.offsetOf(start),
+    paddingBottom: layout.totalHeight - layout.offsetOf(end),
+    measureRow,
+    update,
+    offsetOf,
+    indexAt,
+  };
+};
@@ -3,9 +3,20 @@ import { createRoot } from "react-dom/client";
 
 import App from './App'
 import "./index.css";
+import { config } from "./config";
 
-createRoot(document.getElementById("root")!).render(
-  <StrictMode>
-    <App />
-  </StrictMode>
-);
+const render = () =>
+  createRoot(document.getElementById("root")!).render(
+    <StrictMode>
+      <App />
+    </StrictMode>
+  );
+
+// The fake backend is its own chunk, loaded only when it's switched on
+if (config.fakeBackend) {
+  import("./api/fake")
+    .then(({ installFakeBackend }) => installFakeBackend())
+    .finally(render);
+} else {
+  render();
+}
@@ -10,6 +10,7 @@ export interface User {
   lastSeen?: string;
   status?: "online" | "offline" | "away" | "busy";
   bio?: string;
+  twoFactorEnabled?: boolean;
   createdAt: string;
   updatedAt: string;
 }
@@ -27,9 +28,15 @@ export interface Message {
   editedAt?: string;
   isRead: boolean;
   readBy?: string[]; // Array of user IDs who have read this message
+  deliveredTo?: string[]; // User IDs whose devices have received it
+  // Where the sender's copy is on its way to the other side; see
+  // utils/messages.ts for the allowed transitions
+  status?: DeliveryStatus;
   sender?: User;
   replyToId?: string;
   replyTo?: Message;
+  // Generated by the sender so a resent message can be matched to its copy
+  clientId?: string;
   reactions?: MessageReaction[];
   attachments?: MessageAttachment[];
   metadata?: {
@@ -39,6 +46,14 @@ export interface Message {
   };
 }
 
+// sending -> sent -> delivered -> read, or sending -> failed -> sending
+export type DeliveryStatus =
+  | "sending"
+  | "sent"
+  | "delivered"
+  | "read"
+  | "failed";
+
 export interface MessageReaction {
   id: string;
   messageId: string;
@@ -119,10 +134,61 @@ export interface ChatInvite {
   creator?: User;
 }
 
+export interface Account {
+  id: string; // Same as the user id
+  token: string;
+  user: User;
+}
+
 export interface AuthState {
   user: User | null;
   token: string | null;
   isAuthenticated: boolean;
+  accounts: Account[];
+  activeAccountId: string | null;
+}
+
+export interface PhoneCodeRequest {
+  resendIn: number; // Seconds until another code can be requested
+  expiresIn?: number; // Seconds until the code expires
+}
+
+export type TwoFactorMethod = "totp" | "backup_code";
+
+export interface TwoFactorChallenge {
+  challengeToken: string;
+  methods: TwoFactorMethod[];
+}
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+  qrCode?: string; // Data URL of the otpauth QR code, when the server renders it
+}
+
+export interface Session {
+  id: string;
+  device: string; // e.g. "Chrome on macOS"
+  deviceType?: "desktop" | "mobile" | "tablet";
+  ip?: string;
+  location?: string; // Approximate, derived from the IP
+  createdAt: string;
+  lastActiveAt: string;
+  isCurrent: boolean;
+}
+
+// A chunked upload in progress on the server
+export interface UploadSession {
+  uploadId: string;
+  chunkSize: number; // Bytes per chunk; the last one may be shorter
+  receivedChunks: number[]; // Indexes of the chunks the server already has
+}
+
+export interface UploadedFile {
+  id: string; // Pass to sendMessage as an attachment
+  url: string;
+  filename: string;
+  size: number;
 }
 
 export interface TypingUser {
@@ -188,45 +254,66 @@ export interface ApiError {
   details?: any;
 }
 
-// Socket event types
-export interface SocketEvents {
-  // Incoming events
+// Socket event types. Incoming payloads are checked against
+// serverEventSchemas in api/schemas.ts before any handler sees them.
+export interface ServerToClientEvents {
   newMessage: (message: Message) => void;
   messageDeleted: (messageId: string, chatId: string) => void;
   messageEdited: (message: Message) => void;
   messageReaction: (data: {
     messageId: string;
     reaction: MessageReaction;
+    removed?: boolean; // The reaction was taken back
+  }) => void;
+  typing: (data: { userId: string; chatId: string; username?: string }) => void;
+  stopTyping: (data: {
+    userId: string;
+    chatId: string;
+    username?: string;
   }) => void;
-  typing: (data: { userId: string; chatId: string; username: string }) => void;
-  // stopTyping: (data: { userId: string; chatId: string }) => void;
   userOnline: (userId: string) => void;
   userOffline: (userId: string) => void;
   chatUpdated: (chat: Chat) => void;
   participantAdded: (data: { chatId: string; user: User }) => void;
   participantRemoved: (data: { chatId: string; userId: string }) => void;
   chatDeleted: (chatId: string) => void;
-  messageRead: (data: {
+  sessionRevoked: (data: { sessionId: string }) => void;
+  // Receipts are cumulative: everything up to the message is covered
+  messageDelivered: (data: {
     messageId: string;
     userId: string;
     chatId: string;
   }) => void;
-
-  // Outgoing events
-  sendMessage: (data: {
+  messageRead: (data: {
+    messageId: string;
+    userId: string;
     chatId: string;
-    text: string;
-    type?: string;
-    replyToId?: string;
-    attachments?: string[];
   }) => void;
+}
+
+// Events whose last parameter is a callback are acknowledged by the server
+export interface ClientToServerEvents {
+  sendMessage: (
+    data: {
+      chatId: string;
+      clientId?: string;
+      text: string;
+      type?: string;
+      replyToId?: string;
+      attachments?: string[];
+    },
+    callback: (response: Message | { error: string }) => void
+  ) => void;
   joinChat: (data: { chatId: string }) => void;
   leaveChat: (data: { chatId: string }) => void;
   getMessages: (
     data: {
       chatId: string;
       limit?: number;
+      // Older than this message
       cursor?: string;
+      // The first messages sent after this one
+      after?: string;
     },
     callback: (messages: Message[]) => void
   ) => void;
@@ -273,6 +360,14 @@ export interface UpdateChatData {
   description?: string;
 }
 
+export interface UpdateProfileData {
+  username?: string;
+  phone?: string;
+  avatar?: string;
+  bio?: string;
+  status?: "online" | "offline" | "away" | "busy";
+}
+
 export interface SendMessageOptions {
   type?: "text" | "image" | "file" | "voice";
   replyToId?: string;
@@ -314,6 +409,21 @@ export type SocketConnectionState =
   | "disconnected"
   | "error";
 
+// Where the socket connection stands, for the connection banner
+export interface SocketStatus {
+  state: SocketConnectionState;
+  // Attempts that failed since the connection was last up
+  attempts: number;
+  // When the next attempt is due (ms since the epoch), while waiting for it
+  nextRetryAt: number | null;
+  // Whether the browser thinks it has a network at all
+  isOnline: boolean;
+  // Fetching what was missed while disconnected
+  isUpdating: boolean;
+  // That fetch failed, so some messages may be missing
+  updateFailed: boolean;
+}
+
 // Chat activity types
 export interface ChatActivity {
   id: string;
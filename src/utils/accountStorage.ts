@@ -0,0 +1,82 @@
+// utils/accountStorage.ts
+import { User } from "../types";
+
+export interface StoredAccount {
+  id: string; // Same as the user id
+  token: string;
+  refreshToken: string | null;
+  user: User;
+  loginTime: number;
+}
+
+const ACCOUNTS_KEY = "accounts";
+const ACTIVE_ACCOUNT_KEY = "activeAccountId";
+
+export const getStoredAccounts = (): StoredAccount[] => {
+  try {
+    return JSON.parse(localStorage.getItem(ACCOUNTS_KEY) || "[]");
+  } catch {
+    return [];
+  }
+};
+
+const writeStoredAccounts = (accounts: StoredAccount[]) => {
+  localStorage.setItem(ACCOUNTS_KEY, JSON.stringify(accounts));
+};
+
+export const getStoredAccount = (id: string): StoredAccount | undefined =>
+  getStoredAccounts().find((account) => account.id === id);
+
+export const saveStoredAccount = (account: StoredAccount) => {
+  const accounts = getStoredAccounts();
+  const index = accounts.findIndex((a) => a.id === account.id);
+  if (index === -1) {
+    accounts.push(account);
+  } else {
+    accounts[index] = account;
+  }
+  writeStoredAccounts(accounts);
+};
+
+export const updateStoredAccount = (
+  id: string,
+  changes: Partial<Omit<StoredAccount, "id">>
+) => {
+  const account = getStoredAccount(id);
+  if (account) {
+    saveStoredAccount({ ...account, ...changes });
+  }
+};
+
+export const removeStoredAccount = (id: string) => {
+  writeStoredAccounts(getStoredAccounts().filter((a) => a.id !== id));
+};
+
+export const getActiveAccountId = (): string | null =>
+  localStorage.getItem(ACTIVE_ACCOUNT_KEY);
+
+/**
+ * Make an account the active one. Its credentials are mirrored to the
+ * single-session keys ("token", "refreshToken", "user", "loginTime") that the
+ * rest of the app reads. Pass null to clear them.
+ */
+export const setActiveAccount = (account: StoredAccount | null) => {
+  if (!account) {
+    localStorage.removeItem(ACTIVE_ACCOUNT_KEY);
+    localStorage.removeItem("token");
+    localStorage.removeItem("refreshToken");
+    localStorage.removeItem("user");
+    localStorage.removeItem("loginTime");
+    return;
+  }
+
+  localStorage.setItem(ACTIVE_ACCOUNT_KEY, account.id);
+  localStorage.setItem("token", account.token);
+  if (account.refreshToken) {
+    localStorage.setItem("refreshToken", account.refreshToken);
+  } else {
+    localStorage.removeItem("refreshToken");
+  }
+  localStorage.setItem("user", JSON.stringify(account.user));
+  localStorage.setItem("loginTime", account.loginTime.toString());
+};
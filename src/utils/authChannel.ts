@@ -0,0 +1,47 @@
+// utils/authChannel.ts
+export type AuthSyncEvent =
+  | "login"
+  | "logout"
+  | "token_refreshed"
+  | "account_switched"
+  | "accounts_changed";
+
+const CHANNEL_NAME = "auth";
+const STORAGE_KEY = "authEvent";
+
+const channel =
+  typeof BroadcastChannel !== "undefined"
+    ? new BroadcastChannel(CHANNEL_NAME)
+    : null;
+
+/**
+ * Tell the other open tabs that the stored session changed. The event only
+ * says what happened; receivers re-read localStorage for the new state.
+ */
+export const broadcastAuthEvent = (type: AuthSyncEvent) => {
+  if (channel) {
+    channel.postMessage({ type });
+  } else {
+    // Storage events only fire in the other tabs, which is what we want
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ type, at: Date.now() }));
+  }
+};
+
+export const subscribeToAuthEvents = (
+  handler: (type: AuthSyncEvent) => void
+) => {
+  if (channel) {
+    const listener = (event: MessageEvent<{ type: AuthSyncEvent }>) =>
+      handler(event.data.type);
+    channel.addEventListener("message", listener);
+    return () => channel.removeEventListener("message", listener);
+  }
+
+  const listener = (event: StorageEvent) => {
+    if (event.key === STORAGE_KEY && event.newValue) {
+      handler(JSON.parse(event.newValue).type);
+    }
+  };
+  window.addEventListener("storage", listener);
+  return () => window.removeEventListener("storage", listener);
+};
@@ -0,0 +1,61 @@
+// utils/chats.ts
+import { Chat, Message, User } from "../types";
+
+// Updaters for the cached chat list, as server events come in. Each returns
+// the list it was given when nothing changes.
+
+/**
+ * Apply a change to one chat
+ */
+export const updateChat = (
+  chats: Chat[],
+  chatId: string,
+  update: (chat: Chat) => Chat
+): Chat[] =>
+  chats.some((chat) => chat.id === chatId)
+    ? chats.map((chat) => (chat.id === chatId ? update(chat) : chat))
+    : chats;
+
+/**
+ * Put the server's copy of a chat in place of ours, or at the top of the
+ * list when it's new to us
+ */
+export const upsertChat = (chats: Chat[], chat: Chat): Chat[] =>
+  chats.some((current) => current.id === chat.id)
+    ? updateChat(chats, chat.id, () => chat)
+    : [chat, ...chats];
+
+export const removeChat = (chats: Chat[], chatId: string): Chat[] =>
+  chats.some((chat) => chat.id === chatId)
+    ? chats.filter((chat) => chat.id !== chatId)
+    : chats;
+
+export const addParticipant = (chat: Chat, user: User): Chat => ({
+  ...chat,
+  participants: [
+    ...chat.participants.filter((participant) => participant.id !== user.id),
+    user,
+  ],
+});
+
+export const removeParticipant = (chat: Chat, userId: string): Chat => ({
+  ...chat,
+  participants: chat.participants.filter(
+    (participant) => participant.id !== userId
+  ),
+  adminIds: chat.adminIds?.filter((id) => id !== userId),
+});
+
+/**
+ * Keep the preview in step when the chat's last message is edited or
+ * deleted. `replacement` is what the preview shows instead; a deleted last
+ * message without one leaves the preview empty until the next refresh.
+ */
+export const replaceLastMessage = (
+  chat: Chat,
+  messageId: string,
+  replacement?: Message
+): Chat =>
+  chat.lastMessage?.id === messageId
+    ? { ...chat, lastMessage: replacement }
+    : chat;
@@ -0,0 +1,23 @@
+// utils/connectionStatus.ts
+import { SocketStatus } from "../types";
+
+/**
+ * What the header says about the connection, the way Telegram puts it.
+ * Null once the connection is up and nothing is left to fetch.
+ */
+export const describeConnection = (status: SocketStatus): string | null => {
+  if (!status.isOnline) return "Waiting for network…";
+  if (status.state !== "connected") return "Connecting…";
+  if (status.isUpdating) return "Updating…";
+  if (status.updateFailed) return "Some new messages may be missing";
+  return null;
+};
+
+/**
+ * Whole seconds until the next attempt to connect, or null when none is
+ * scheduled.
+ */
+export const secondsUntilRetry = (status: SocketStatus, now = Date.now()) =>
+  status.nextRetryAt === null
+    ? null
+    : Math.max(0, Math.ceil((status.nextRetryAt - now) / 1000));
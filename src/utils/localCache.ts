@@ -0,0 +1,334 @@
+// utils/localCache.ts
+import { QueryClient } from "@tanstack/react-query";
+import { Chat, Message, User } from "../types";
+import { MessageStore } from "./messageStore";
+
+// Chats, users and each chat's most recent messages, kept in IndexedDB so
+// the app has something to show straight away and while offline. One
+// database per account; the server's answers always win once they arrive.
+
+const DB_PREFIX = "chat-cache:";
+// Bump with a new step in `upgrade` whenever the stored records change
+const DB_VERSION = 1;
+// Newest messages kept per chat
+const MAX_MESSAGES_PER_CHAT = 200;
+// Roughly how much the cached messages may take, in characters of JSON.
+// The chats that were updated longest ago lose their messages first.
+const MAX_CACHE_SIZE = 5_000_000;
+const WRITE_DELAY = 1000;
+
+// Users are stored once and referred to by id from chats and messages
+interface CachedChat {
+  id: string;
+  chat: Omit<Chat, "participants">;
+  participantIds: string[];
+  position: number; // In the chat list
+}
+type CachedMessage = Omit<Message, "sender">;
+
+interface CachedChatMessages {
+  chatId: string;
+  reachedStart: boolean;
+  size: number;
+  updatedAt: number;
+}
+
+const isSupported = () => typeof indexedDB !== "undefined";
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const completion = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+const upgrade = (db: IDBDatabase, oldVersion: number) => {
+  if (oldVersion < 1) {
+    db.createObjectStore("chats", { keyPath: "id" });
+    db.createObjectStore("users", { keyPath: "id" });
+    db.createObjectStore("messages", { keyPath: "id" }).createIndex(
+      "chatId",
+      "chatId"
+    );
+    db.createObjectStore("chatMessages", { keyPath: "chatId" });
+  }
+};
+
+/**
+ * Delete an account's cache, e.g. when it signs out. Open connections are
+ * closed by the cache itself when asked to.
+ */
+export const deleteLocalCache = (accountId: string) => {
+  if (!isSupported()) return;
+  const request = indexedDB.deleteDatabase(DB_PREFIX + accountId);
+  request.onerror = () =>
+    console.error("Failed to delete the local cache:", request.error);
+};
+
+/**
+ * Persists one account's chat list (from React Query) and loaded messages
+ * (from the message store), and fills both from it on start. Writes are
+ * batched, and the cache closes itself for good if the database is
+ * deleted, so nothing is written back after signing out.
+ */
+export class LocalCache {
+  private db: Promise<IDBDatabase | null> | null = null;
+  private closed = false;
+  private dirtyChats = new Set<string>();
+  private chatListDirty = false;
+  private restoring = false;
+  private writeTimer?: ReturnType<typeof setTimeout>;
+
+  constructor(private accountId: string) {}
+
+  /**
+   * Show what's cached, then keep the cache up to date. Returns a function
+   * that stops, writing anything still pending.
+   */
+  start(queryClient: QueryClient, messageStore: MessageStore) {
+    if (!isSupported() || !this.accountId) return () => {};
+    this.closed = false;
+
+    this.restore(queryClient, messageStore).catch((error) =>
+      console.error("Failed to read the local cache:", error)
+    );
+
+    const cleanups = [
+      queryClient.getQueryCache().subscribe((event) => {
+        const { queryKey } = event.query;
+        if (
+          event.type === "updated" &&
+          event.action.type === "success" &&
+          queryKey.length === 1 &&
+          queryKey[0] === "chats"
+        ) {
+          this.chatListDirty = true;
+          this.scheduleWrite(queryClient, messageStore);
+        }
+      }),
+      messageStore.onChange((chatId) => {
+        // Restoring isn't a change worth writing back
+        if (this.restoring) return;
+        this.dirtyChats.add(chatId);
+        this.scheduleWrite(queryClient, messageStore);
+      }),
+    ];
+
+    return () => {
+      cleanups.forEach((cleanup) => cleanup());
+      clearTimeout(this.writeTimer);
+      // A restart opens its own connection; this one closes once written
+      const db = this.db;
+      this.db = null;
+      if (!db) return;
+      this.write(queryClient, messageStore, db)
+        .catch((error) =>
+          console.error("Failed to update the local cache:", error)
+        )
+        .finally(() => db.then((connection) => connection?.close()));
+    };
+  }
+
+  private open() {
+    if (!this.db) {
+      this.db = new Promise<IDBDatabase | null>((resolve) => {
+        const request = indexedDB.open(DB_PREFIX + this.accountId, DB_VERSION);
+        request.onupgradeneeded = (event) =>
+          upgrade(request.result, event.oldVersion);
+        request.onsuccess = () => {
+          const db = request.result;
+          // Signing out deletes the database; let it go and stop writing
+          db.onversionchange = () => {
+            this.closed = true;
+            db.close();
+          };
+          resolve(db);
+        };
+        request.onerror = () => {
+          console.error("Failed to open the local cache:", request.error);
+          resolve(null);
+        };
+      });
+    }
+    return this.db;
+  }
+
+  // ===== READING =====
+
+  private async restore(queryClient: QueryClient, messageStore: MessageStore) {
+    const db = await this.open();
+    if (!db || this.closed) return;
+
+    const transaction = db.transaction(
+      ["chats", "users", "messages", "chatMessages"],
+      "readonly"
+    );
+    const [chats, users, messages, chatMessages] = await Promise.all([
+      promisify<CachedChat[]>(transaction.objectStore("chats").getAll()),
+      promisify<User[]>(transaction.objectStore("users").getAll()),
+      promisify<CachedMessage[]>(transaction.objectStore("messages").getAll()),
+      promisify<CachedChatMessages[]>(
+        transaction.objectStore("chatMessages").getAll()
+      ),
+    ]);
+    const usersById = new Map(users.map((user) => [user.id, user]));
+
+    // Only if the server hasn't answered first; stale, so it's refetched
+    if (chats.length && queryClient.getQueryData(["chats"]) === undefined) {
+      queryClient.setQueryData<Chat[]>(
+        ["chats"],
+        chats
+          .sort((a, b) => a.position - b.position)
+          .map(({ chat, participantIds }) => ({
+            ...chat,
+            participants: participantIds
+              .map((id) => usersById.get(id))
+              .filter((user): user is User => !!user),
+          })),
+        { updatedAt: 0 }
+      );
+    }
+
+    const byChat = new Map<string, Message[]>();
+    messages.forEach((message) => {
+      const sender = usersById.get(message.senderId);
+      byChat.set(message.chatId, [
+        ...(byChat.get(message.chatId) ?? []),
+        sender ? { ...message, sender } : message,
+      ]);
+    });
+    this.restoring = true;
+    try {
+      chatMessages.forEach(({ chatId, reachedStart }) => {
+        const cached = byChat.get(chatId);
+        if (cached) messageStore.hydrate(chatId, cached, reachedStart);
+      });
+    } finally {
+      this.restoring = false;
+    }
+  }
+
+  // ===== WRITING =====
+
+  private scheduleWrite(queryClient: QueryClient, messageStore: MessageStore) {
+    clearTimeout(this.writeTimer);
+    this.writeTimer = setTimeout(() => {
+      this.write(queryClient, messageStore).catch((error) =>
+        console.error("Failed to update the local cache:", error)
+      );
+    }, WRITE_DELAY);
+  }
+
+  private async write(
+    queryClient: QueryClient,
+    messageStore: MessageStore,
+    connection = this.open()
+  ) {
+    const chatIds = [...this.dirtyChats];
+    const chatListDirty = this.chatListDirty;
+    this.dirtyChats.clear();
+    this.chatListDirty = false;
+    if (!chatIds.length && !chatListDirty) return;
+
+    const db = await connection;
+    if (!db || this.closed) return;
+
+    const transaction = db.transaction(
+      ["chats", "users", "messages", "chatMessages"],
+      "readwrite"
+    );
+    const users = transaction.objectStore("users");
+
+    if (chatListDirty) {
+      const store = transaction.objectStore("chats");
+      store.clear();
+      queryClient
+        .getQueryData<Chat[]>(["chats"])
+        ?.forEach(({ participants, ...chat }, position) => {
+          participants.forEach((user) => users.put(user));
+          store.put({
+            id: chat.id,
+            chat,
+            participantIds: participants.map((user) => user.id),
+            position,
+          } satisfies CachedChat);
+        });
+    }
+
+    for (const chatId of chatIds) {
+      await this.writeChat(transaction, chatId, messageStore);
+    }
+    await completion(transaction);
+    await this.evict(db);
+  }
+
+  // Replace what's kept of a chat with its newest loaded messages
+  private async writeChat(
+    transaction: IDBTransaction,
+    chatId: string,
+    messageStore: MessageStore
+  ) {
+    const messages = transaction.objectStore("messages");
+    const chatMessages = transaction.objectStore("chatMessages");
+    const users = transaction.objectStore("users");
+
+    const keys = await promisify(
+      messages.index("chatId").getAllKeys(IDBKeyRange.only(chatId))
+    );
+    keys.forEach((key) => messages.delete(key));
+
+    const run = messageStore.getLatestRun(chatId);
+    const kept = run.messages.slice(-MAX_MESSAGES_PER_CHAT);
+    if (!kept.length) {
+      chatMessages.delete(chatId);
+      return;
+    }
+
+    let size = 0;
+    kept.forEach(({ sender, ...message }) => {
+      if (sender) users.put(sender);
+      size += JSON.stringify(message).length;
+      messages.put(message satisfies CachedMessage);
+    });
+    chatMessages.put({
+      chatId,
+      reachedStart: run.reachedStart && kept.length === run.messages.length,
+      size,
+      updatedAt: Date.now(),
+    } satisfies CachedChatMessages);
+  }
+
+  // Drop the messages of the chats updated longest ago until under budget
+  private async evict(db: IDBDatabase) {
+    if (this.closed) return;
+    const transaction = db.transaction(
+      ["messages", "chatMessages"],
+      "readwrite"
+    );
+    const messages = transaction.objectStore("messages");
+    const chatMessages = transaction.objectStore("chatMessages");
+
+    const entries = await promisify<CachedChatMessages[]>(
+      chatMessages.getAll()
+    );
+    let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+    const oldestFirst = entries.sort((a, b) => a.updatedAt - b.updatedAt);
+
+    for (const entry of oldestFirst) {
+      if (total <= MAX_CACHE_SIZE) break;
+      const keys = await promisify(
+        messages.index("chatId").getAllKeys(IDBKeyRange.only(entry.chatId))
+      );
+      keys.forEach((key) => messages.delete(key));
+      chatMessages.delete(entry.chatId);
+      total -= entry.size;
+    }
+    await completion(transaction);
+  }
+}
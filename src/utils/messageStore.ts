@@ -0,0 +1,422 @@
+// utils/messageStore.ts
+import { SocketClient } from "../api/socketClient";
+import { Message } from "../types";
+import { applyReaction, applyReceipt, transitionDelivery } from "./messages";
+import { Outbox } from "./outbox";
+
+// How a page of messages fits in with the messages already loaded
+export interface PageOptions {
+  // Nothing the server has falls between the page and the loaded message
+  // right before it (a catch-up after the newest message seen)
+  joinsPrevious?: boolean;
+  // ...or between the page and the loaded message right after it (the
+  // latest page, or an older page fetched with the oldest loaded as cursor)
+  joinsNext?: boolean;
+  // The page starts at the chat's very first message
+  reachedStart?: boolean;
+}
+
+// A stretch of a chat's history that may hold messages not loaded yet
+export interface MessageGap {
+  after: string;
+  before: string;
+}
+
+interface ChatMessages {
+  ids: string[]; // Oldest first
+  // Messages that may have unloaded ones right before them
+  gapsBefore: Set<string>;
+  reachedStart: boolean;
+  // Whether a page has been fetched, as opposed to only live messages
+  isLoaded: boolean;
+  // What getMessages hands out, rebuilt only when the chat changes
+  snapshot: Message[];
+}
+
+const NO_MESSAGES: Message[] = [];
+
+const isSameMessage = (a: Message, b: Message) =>
+  a === b || JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Every loaded message, once, by id, with each chat's ids in server order.
+ * Upserts are idempotent: a message that is already there is replaced by
+ * the incoming copy, and nothing changes if the copies are the same.
+ *
+ * Pages fetched from the server are known to be complete runs, so the
+ * store also knows where the loaded history has holes: between two runs
+ * that don't meet, and before the oldest message until the start of the
+ * chat has been reached.
+ *
+ * Components follow one chat at a time through `subscribe` and
+ * `getMessages`, so a change in one chat doesn't re-render another.
+ */
+export class MessageStore {
+  private byId = new Map<string, Message>();
+  private times = new Map<string, number>();
+  private chats = new Map<string, ChatMessages>();
+  private listeners = new Map<string, Set<() => void>>();
+  private changeListeners = new Set<(chatId: string) => void>();
+
+  constructor(private client: SocketClient, private outbox: Outbox) {}
+
+  /**
+   * Keep the store up to date with the socket and the outbox. Returns a
+   * function that stops; the messages are kept.
+   */
+  start() {
+    const { client } = this;
+    const cleanups = [
+      client.on("newMessage", (message) => this.upsert([message])),
+      client.on("messageEdited", (message) => {
+        // Edits to messages that aren't loaded come with the page they're on
+        if (this.byId.has(message.id)) this.upsert([message]);
+      }),
+      client.on("messageDeleted", (messageId) => this.remove(messageId)),
+      client.on("messageReaction", ({ messageId, reaction, removed }) =>
+        this.update(messageId, (message) =>
+          applyReaction(message, reaction, removed)
+        )
+      ),
+      client.on("messageDelivered", (receipt) =>
+        this.applyReceipt(receipt, "delivered")
+      ),
+      client.on("messageRead", (receipt) => this.applyReceipt(receipt, "read")),
+      client.on("chatDeleted", (chatId) => this.removeChat(chatId)),
+      client.onReconnect((missed, incomplete) =>
+        missed.forEach((messages, chatId) =>
+          this.upsertPage(chatId, messages, {
+            joinsPrevious: true,
+            joinsNext: !incomplete.has(chatId),
+          })
+        )
+      ),
+      // The server's copy replaces the pending bubble even without an echo
+      this.outbox.onSent((message) => this.upsert([message])),
+    ];
+    return () => cleanups.forEach((cleanup) => cleanup());
+  }
+
+  // ===== SELECTORS =====
+
+  subscribe(chatId: string, listener: () => void) {
+    let listeners = this.listeners.get(chatId);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(chatId, listeners);
+    }
+    listeners.add(listener);
+    return () => {
+      listeners!.delete(listener);
+    };
+  }
+
+  // Called with the id of every chat that changes, for persisting them
+  onChange(listener: (chatId: string) => void) {
+    this.changeListeners.add(listener);
+    return () => {
+      this.changeListeners.delete(listener);
+    };
+  }
+
+  // A chat's messages, oldest first. The same array until the chat changes.
+  getMessages(chatId: string) {
+    return this.chats.get(chatId)?.snapshot ?? NO_MESSAGES;
+  }
+
+  getMessage(messageId: string) {
+    return this.byId.get(messageId);
+  }
+
+  // Whether a page of the chat has been fetched, not just live messages
+  isLoaded(chatId: string) {
+    return !!this.chats.get(chatId)?.isLoaded;
+  }
+
+  // The holes between loaded runs, oldest first
+  getGaps(chatId: string): MessageGap[] {
+    const chat = this.chats.get(chatId);
+    if (!chat) return [];
+    return [...chat.gapsBefore].sort(this.compare).map((before) => ({
+      after: chat.ids[chat.ids.indexOf(before) - 1],
+      before,
+    }));
+  }
+
+  /**
+   * The message the next page of older history should end at: the top of
+   * the newest hole in what's loaded, then the oldest message until the
+   * start of the chat. Null when nothing is missing, or nothing is loaded
+   * to page back from yet.
+   */
+  getOlderCursor(chatId: string) {
+    const chat = this.chats.get(chatId);
+    if (!chat?.ids.length) return null;
+    const gaps = this.getGaps(chatId);
+    if (gaps.length) return gaps[gaps.length - 1].before;
+    return chat.reachedStart ? null : chat.ids[0];
+  }
+
+  /**
+   * The newest run of messages with nothing missing in between, and
+   * whether it goes back to the start of the chat
+   */
+  getLatestRun(chatId: string) {
+    const chat = this.chats.get(chatId);
+    if (!chat) return { messages: NO_MESSAGES, reachedStart: false };
+    let start = chat.ids.length - 1;
+    while (start > 0 && !chat.gapsBefore.has(chat.ids[start])) start--;
+    return {
+      messages: chat.snapshot.slice(start),
+      reachedStart: start === 0 && chat.reachedStart,
+    };
+  }
+
+  // ===== UPDATES =====
+
+  /**
+   * Show a run of messages kept from an earlier visit until the chat is
+   * fetched. Ignored once the chat has anything newer.
+   */
+  hydrate(chatId: string, messages: Message[], reachedStart: boolean) {
+    if (this.chats.get(chatId)?.ids.length) return;
+    const chat = this.chatOf(chatId);
+    this.insert(chat, messages);
+    chat.reachedStart = reachedStart;
+    this.emit(chatId);
+  }
+
+  /**
+   * Add or replace messages that arrived one by one, like those from the
+   * socket. A message newer than everything loaded carries on from the
+   * newest; anywhere else it's assumed to sit in whatever gap it fell into.
+   */
+  upsert(messages: Message[]) {
+    const byChat = new Map<string, Message[]>();
+    messages.forEach((message) => {
+      byChat.set(message.chatId, [
+        ...(byChat.get(message.chatId) ?? []),
+        message,
+      ]);
+    });
+
+    byChat.forEach((chatMessages, chatId) => {
+      const chat = this.chatOf(chatId);
+      const { changed, added } = this.insert(chat, chatMessages);
+      chat.ids.forEach((id, index) => {
+        if (!added.has(id)) return;
+        const next = chat.ids[index + 1];
+        if (index === 0) {
+          if (next && !chat.reachedStart) chat.gapsBefore.add(next);
+        } else if (next && chat.gapsBefore.has(next)) {
+          chat.gapsBefore.add(id);
+        }
+      });
+      if (changed) this.emit(chatId);
+    });
+  }
+
+  /**
+   * Add a page fetched from the server. Nothing is missing between its
+   * first and last message, which closes any gaps in that stretch, and
+   * anything else loaded in that stretch has since been deleted.
+   */
+  upsertPage(
+    chatId: string,
+    messages: Message[],
+    {
+      joinsPrevious = false,
+      joinsNext = false,
+      reachedStart = false,
+    }: PageOptions = {}
+  ) {
+    const chat = this.chatOf(chatId);
+    const { isLoaded: wasLoaded, reachedStart: wasAtStart } = chat;
+    const { changed, added } = this.insert(chat, messages);
+    chat.isLoaded = true;
+    this.client.markSeen(chatId, messages);
+
+    const pageIds = new Set(messages.map((message) => message.id));
+    const first = chat.ids.findIndex((id) => pageIds.has(id));
+    let last = first;
+    chat.ids.forEach((id, index) => {
+      if (pageIds.has(id)) last = index;
+    });
+
+    const stale = new Set(
+      first === -1
+        ? []
+        : chat.ids.slice(first + 1, last).filter((id) => !pageIds.has(id))
+    );
+    if (stale.size) {
+      stale.forEach((id) => {
+        this.byId.delete(id);
+        this.times.delete(id);
+        chat.gapsBefore.delete(id);
+      });
+      chat.ids = chat.ids.filter((id) => !stale.has(id));
+      chat.snapshot = chat.ids.map((id) => this.byId.get(id)!);
+      last -= stale.size;
+    }
+
+    if (first === -1) {
+      // An empty page: an empty chat, or nothing older than the cursor
+      if (reachedStart) chat.reachedStart = true;
+    } else {
+      for (let index = first + 1; index <= last; index++) {
+        chat.gapsBefore.delete(chat.ids[index]);
+      }
+      if (first === 0) {
+        if (reachedStart) chat.reachedStart = true;
+      } else if (joinsPrevious) {
+        chat.gapsBefore.delete(chat.ids[first]);
+      } else if (added.has(chat.ids[first])) {
+        chat.gapsBefore.add(chat.ids[first]);
+      }
+
+      const next = chat.ids[last + 1];
+      if (next && joinsNext) {
+        chat.gapsBefore.delete(next);
+      } else if (next && added.has(chat.ids[last])) {
+        chat.gapsBefore.add(next);
+      }
+    }
+
+    if (
+      changed ||
+      stale.size ||
+      !wasLoaded ||
+      chat.reachedStart !== wasAtStart
+    ) {
+      this.emit(chatId);
+    }
+  }
+
+  // Change one message, if it's loaded
+  update(messageId: string, change: (message: Message) => Message) {
+    const message = this.byId.get(messageId);
+    if (!message) return;
+    const updated = change(message);
+    if (updated === message) return;
+    this.byId.set(messageId, updated);
+    this.rebuild(message.chatId);
+  }
+
+  remove(messageId: string) {
+    const message = this.byId.get(messageId);
+    const chat = message && this.chats.get(message.chatId);
+    if (!message || !chat) return;
+
+    const index = chat.ids.indexOf(messageId);
+    const next = chat.ids[index + 1];
+    // Whatever was missing before it is now missing before the next one
+    if (chat.gapsBefore.delete(messageId) && next) chat.gapsBefore.add(next);
+    chat.ids.splice(index, 1);
+    if (index === 0 && next) chat.gapsBefore.delete(next);
+    this.byId.delete(messageId);
+    this.times.delete(messageId);
+    this.rebuild(message.chatId);
+  }
+
+  removeChat(chatId: string) {
+    const chat = this.chats.get(chatId);
+    if (!chat) return;
+    chat.ids.forEach((id) => {
+      this.byId.delete(id);
+      this.times.delete(id);
+    });
+    this.chats.delete(chatId);
+    this.emit(chatId);
+  }
+
+  // Receipts are cumulative, so they can move many messages at once
+  private applyReceipt(
+    receipt: { messageId: string; userId: string; chatId: string },
+    status: "delivered" | "read"
+  ) {
+    const chat = this.chats.get(receipt.chatId);
+    if (!chat) return;
+    const next = applyReceipt(chat.snapshot, receipt, status);
+    if (next === chat.snapshot) return;
+    next.forEach((message) => this.byId.set(message.id, message));
+    chat.snapshot = next;
+    this.emit(receipt.chatId);
+  }
+
+  // ===== INTERNALS =====
+
+  private chatOf(chatId: string) {
+    let chat = this.chats.get(chatId);
+    if (!chat) {
+      chat = {
+        ids: [],
+        gapsBefore: new Set(),
+        reachedStart: false,
+        isLoaded: false,
+        snapshot: NO_MESSAGES,
+      };
+      this.chats.set(chatId, chat);
+    }
+    return chat;
+  }
+
+  // Server time, then id, so messages sent the same millisecond keep a
+  // stable order
+  private compare = (a: string, b: string) =>
+    this.times.get(a)! - this.times.get(b)! || (a < b ? -1 : a > b ? 1 : 0);
+
+  // Store the messages and merge the new ids into the chat's ordered list
+  private insert(chat: ChatMessages, messages: Message[]) {
+    const added = new Set<string>();
+    let changed = false;
+
+    messages.forEach((message) => {
+      const current = this.byId.get(message.id);
+      // A copy fetched before a receipt arrived mustn't undo it
+      const incoming = current?.status
+        ? transitionDelivery(message, current.status)
+        : message;
+      if (current && isSameMessage(current, incoming)) return;
+      this.byId.set(message.id, incoming);
+      changed = true;
+      if (!current) {
+        this.times.set(message.id, Date.parse(message.createdAt));
+        added.add(message.id);
+      }
+    });
+
+    if (added.size) {
+      const incoming = [...added].sort(this.compare);
+      const merged: string[] = [];
+      let i = 0;
+      let j = 0;
+      while (i < chat.ids.length || j < incoming.length) {
+        if (
+          j === incoming.length ||
+          (i < chat.ids.length && this.compare(chat.ids[i], incoming[j]) <= 0)
+        ) {
+          merged.push(chat.ids[i++]);
+        } else {
+          merged.push(incoming[j++]);
+        }
+      }
+      chat.ids = merged;
+    }
+    if (changed) {
+      chat.snapshot = chat.ids.map((id) => this.byId.get(id)!);
+    }
+    return { changed, added };
+  }
+
+  private rebuild(chatId: string) {
+    const chat = this.chats.get(chatId);
+    if (!chat) return;
+    chat.snapshot = chat.ids.map((id) => this.byId.get(id)!);
+    this.emit(chatId);
+  }
+
+  private emit(chatId: string) {
+    this.listeners.get(chatId)?.forEach((listener) => listener());
+    this.changeListeners.forEach((listener) => listener(chatId));
+  }
+}
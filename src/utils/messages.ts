@@ -0,0 +1,124 @@
+// utils/messages.ts
+import { DeliveryStatus, Message, MessageReaction } from "../types";
+
+/**
+ * Add messages to a chat's list, oldest first. A message that is already
+ * there is replaced by the incoming copy instead of being added twice.
+ */
+export const mergeMessages = (
+  existing: Message[],
+  incoming: Message[]
+): Message[] => {
+  if (!incoming.length) return existing;
+  const byId = new Map(existing.map((message) => [message.id, message]));
+  incoming.forEach((message) => {
+    const current = byId.get(message.id);
+    // A copy fetched before a receipt arrived mustn't undo it
+    byId.set(
+      message.id,
+      current?.status ? transitionDelivery(message, current.status) : message
+    );
+  });
+  return [...byId.values()].sort(
+    (a, b) => Date.parse(a.createdAt) - Date.parse(b.createdAt)
+  );
+};
+
+// ===== DELIVERY STATUS =====
+
+// The states each delivery status can move on to. Receipts can skip ahead
+// (a read receipt may be the first one to arrive) but never go back.
+const DELIVERY_TRANSITIONS: Record<DeliveryStatus, DeliveryStatus[]> = {
+  sending: ["sent", "delivered", "read", "failed"],
+  failed: ["sending"],
+  sent: ["delivered", "read"],
+  delivered: ["read"],
+  read: [],
+};
+
+/**
+ * Where a message the server already has stands, from its receipts. Only
+ * receipts from people other than the sender count.
+ */
+export const deliveryStatusOf = (
+  message: Pick<Message, "senderId" | "isRead" | "readBy" | "deliveredTo">
+): DeliveryStatus => {
+  const byOthers = (ids?: string[]) =>
+    !!ids?.some((id) => id !== message.senderId);
+  if (message.isRead || byOthers(message.readBy)) return "read";
+  if (byOthers(message.deliveredTo)) return "delivered";
+  return "sent";
+};
+
+/**
+ * Move a message to a new delivery status. Returns the same message when
+ * the move isn't allowed.
+ */
+export const transitionDelivery = (
+  message: Message,
+  status: DeliveryStatus
+): Message => {
+  const current = message.status ?? "sent";
+  if (current === status || !DELIVERY_TRANSITIONS[current].includes(status)) {
+    return message;
+  }
+  return { ...message, status, isRead: message.isRead || status === "read" };
+};
+
+/**
+ * Apply a delivered or read receipt to a chat's messages. Receipts are
+ * cumulative, so every message up to the one named that the reader didn't
+ * send moves on.
+ */
+export const applyReceipt = (
+  messages: Message[],
+  receipt: { messageId: string; userId: string },
+  status: "delivered" | "read"
+): Message[] => {
+  const target = messages.find((message) => message.id === receipt.messageId);
+  if (!target) return messages;
+  const upTo = Date.parse(target.createdAt);
+
+  let changed = false;
+  const next = messages.map((message) => {
+    if (
+      message.senderId === receipt.userId ||
+      Date.parse(message.createdAt) > upTo
+    ) {
+      return message;
+    }
+    const updated = transitionDelivery(message, status);
+    if (updated !== message) changed = true;
+    return updated;
+  });
+  return changed ? next : messages;
+};
+
+// ===== LIVE UPDATES =====
+
+export const removeMessage = (
+  messages: Message[],
+  messageId: string
+): Message[] =>
+  messages.some((message) => message.id === messageId)
+    ? messages.filter((message) => message.id !== messageId)
+    : messages;
+
+/**
+ * Add or take away one person's reaction. Each person has at most one of
+ * each reaction on a message.
+ */
+export const applyReaction = (
+  message: Message,
+  reaction: MessageReaction,
+  removed = false
+): Message => {
+  const others = (message.reactions ?? []).filter(
+    (current) =>
+      !(
+        current.userId === reaction.userId &&
+        current.reaction === reaction.reaction
+      )
+  );
+  return { ...message, reactions: removed ? others : [...others, reaction] };
+};
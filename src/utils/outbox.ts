@@ -0,0 +1,305 @@
+// utils/outbox.ts
+import { ContractError, describeError } from "../api/errors";
+import { SocketClient } from "../api/socketClient";
+import { Message, MessageAttachment } from "../types";
+
+export interface OutboxEntry {
+  clientId: string;
+  chatId: string;
+  senderId: string;
+  text: string;
+  type?: Message["type"];
+  replyToId?: string;
+  attachments?: MessageAttachment[]; // Uploaded files
+  createdAt: string;
+  status: "pending" | "failed";
+  attempts: number;
+  error?: string;
+}
+
+export type SentListener = (message: Message, clientId: string) => void;
+
+// Attempts that get no answer before a message is marked failed. A message
+// that can't be sent because the socket is down doesn't use up attempts.
+const MAX_ATTEMPTS = 3;
+const RETRY_DELAY = 3000;
+const STORAGE_KEY_PREFIX = "outbox:";
+
+const createClientId = () =>
+  typeof crypto !== "undefined" && crypto.randomUUID
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+// Drop a signed-out account's unsent messages
+export const clearOutbox = (userId: string) =>
+  localStorage.removeItem(STORAGE_KEY_PREFIX + userId);
+
+/**
+ * An outgoing message as the chat shows it until the server has it
+ */
+export const toPendingMessage = (entry: OutboxEntry): Message => ({
+  id: entry.clientId,
+  clientId: entry.clientId,
+  chatId: entry.chatId,
+  senderId: entry.senderId,
+  text: entry.text,
+  type: entry.type ?? "text",
+  replyToId: entry.replyToId,
+  attachments: entry.attachments?.map((attachment) => ({
+    ...attachment,
+    messageId: entry.clientId,
+  })),
+  createdAt: entry.createdAt,
+  isRead: false,
+  status: entry.status === "pending" ? "sending" : "failed",
+});
+
+/**
+ * Messages waiting to be sent, kept in localStorage so they survive a reload.
+ * They go out one at a time, in order, whenever the socket is connected, and
+ * leave the outbox once the server acknowledges them or echoes them back
+ * with their client id. Components follow it through `subscribe` and
+ * `getSnapshot`.
+ *
+ * The tabs of an account share it: every change is made to what's stored
+ * right then, and the others pick it up from the `storage` event. Only the
+ * tab holding the account's outbox lock sends, so nothing goes out twice.
+ */
+export class Outbox {
+  private entries: OutboxEntry[];
+  private listeners = new Set<() => void>();
+  private sentListeners = new Set<SentListener>();
+  private flushing = false;
+  private sending = false;
+  private retryTimer?: ReturnType<typeof setTimeout>;
+
+  private storageKey: string;
+
+  // One outbox per signed-in account, sending as that user
+  constructor(private client: SocketClient, private userId: string) {
+    this.storageKey = STORAGE_KEY_PREFIX + userId;
+    this.entries = this.load();
+  }
+
+  /**
+   * Start sending whenever the socket is connected. Returns a function that
+   * stops; the stored entries are kept.
+   */
+  start() {
+    window.addEventListener("storage", this.handleStorage);
+    const cleanups = [
+      this.client.subscribe(() => {
+        if (this.client.isConnected) this.flush();
+      }),
+      this.client.on("newMessage", (message) => {
+        if (message.clientId) this.confirm(message.clientId, message);
+      }),
+      this.elect(),
+      () => window.removeEventListener("storage", this.handleStorage),
+    ];
+    return () => {
+      clearTimeout(this.retryTimer);
+      cleanups.forEach((cleanup) => cleanup());
+    };
+  }
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getSnapshot = () => this.entries;
+
+  // Called with the server's copy of each message that leaves the outbox
+  onSent(listener: SentListener) {
+    this.sentListeners.add(listener);
+    return () => {
+      this.sentListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Queue a message. It shows up as pending right away and is sent as soon
+   * as the socket is connected.
+   */
+  send(
+    fields: Pick<
+      OutboxEntry,
+      "chatId" | "text" | "type" | "replyToId" | "attachments"
+    >
+  ) {
+    const entry: OutboxEntry = {
+      ...fields,
+      senderId: this.userId,
+      clientId: createClientId(),
+      createdAt: new Date().toISOString(),
+      status: "pending",
+      attempts: 0,
+    };
+    this.update((entries) => [...entries, entry]);
+    this.flush();
+    return entry;
+  }
+
+  // Queue a failed message again
+  retry(clientId: string) {
+    this.update((entries) =>
+      entries.map((entry) =>
+        entry.clientId === clientId && entry.status === "failed"
+          ? { ...entry, status: "pending", attempts: 0, error: undefined }
+          : entry
+      )
+    );
+    this.flush();
+  }
+
+  remove(clientId: string) {
+    this.update((entries) =>
+      entries.filter((entry) => entry.clientId !== clientId)
+    );
+  }
+
+  // ===== SENDING =====
+
+  // Wait for the account's outbox lock, and send while this tab holds it.
+  // Without Web Locks every tab sends.
+  private elect() {
+    if (typeof navigator === "undefined" || !navigator.locks) {
+      this.takeOver();
+      return () => {
+        this.sending = false;
+      };
+    }
+
+    const election = new AbortController();
+    let resign: (() => void) | undefined;
+    navigator.locks
+      .request(this.storageKey, { signal: election.signal }, () => {
+        // Won just as the election was called off
+        if (election.signal.aborted) return Promise.resolve();
+        return new Promise<void>((resolve) => {
+          resign = resolve;
+          this.takeOver();
+        });
+      })
+      // Rejects when the election is called off before this tab won it
+      .catch(() => {});
+
+    return () => {
+      this.sending = false;
+      resign?.();
+      election.abort();
+    };
+  }
+
+  private takeOver() {
+    this.sending = true;
+    // Whatever was in flight when the last sender went away is sent again
+    this.update((entries) =>
+      entries.map((entry) =>
+        entry.status === "pending" ? { ...entry, attempts: 0 } : entry
+      )
+    );
+    this.flush();
+  }
+
+  private async flush() {
+    if (!this.sending || this.flushing) return;
+    this.flushing = true;
+    clearTimeout(this.retryTimer);
+    try {
+      while (this.sending && this.client.isConnected) {
+        const entry = this.entries.find((item) => item.status === "pending");
+        if (!entry || !(await this.attempt(entry))) break;
+      }
+    } finally {
+      this.flushing = false;
+    }
+  }
+
+  // Resolves to false when the message should be tried again later
+  private async attempt(entry: OutboxEntry) {
+    const { clientId, chatId, text, type, replyToId, attachments } = entry;
+    this.patch(clientId, { attempts: entry.attempts + 1 });
+
+    let response: Message | { error: string };
+    try {
+      response = await this.client.emitWithAck("sendMessage", {
+        chatId,
+        clientId,
+        text,
+        type,
+        replyToId,
+        attachments: attachments?.map((attachment) => attachment.id),
+      });
+    } catch (error) {
+      if (!this.client.isConnected) {
+        // Never reached the server; sent again on reconnect
+        this.patch(clientId, { attempts: entry.attempts });
+        return false;
+      }
+      if (error instanceof ContractError) {
+        this.patch(clientId, { status: "failed", error: describeError(error) });
+        return true;
+      }
+      if (entry.attempts + 1 >= MAX_ATTEMPTS) {
+        this.patch(clientId, {
+          status: "failed",
+          error: "The server didn't answer",
+        });
+        return true;
+      }
+      this.retryTimer = setTimeout(() => this.flush(), RETRY_DELAY);
+      return false;
+    }
+
+    if ("error" in response) {
+      this.patch(clientId, { status: "failed", error: response.error });
+    } else {
+      this.confirm(clientId, response);
+    }
+    return true;
+  }
+
+  private confirm(clientId: string, message: Message) {
+    if (!this.entries.some((entry) => entry.clientId === clientId)) return;
+    this.remove(clientId);
+    this.sentListeners.forEach((listener) => listener(message, clientId));
+  }
+
+  private patch(clientId: string, changes: Partial<OutboxEntry>) {
+    this.update((entries) =>
+      entries.map((entry) =>
+        entry.clientId === clientId ? { ...entry, ...changes } : entry
+      )
+    );
+  }
+
+  // ===== STORAGE =====
+
+  // Apply a change to what's stored now, which may include other tabs'
+  // changes this one hasn't heard about yet
+  private update(change: (entries: OutboxEntry[]) => OutboxEntry[]) {
+    this.entries = change(this.load());
+    localStorage.setItem(this.storageKey, JSON.stringify(this.entries));
+    this.listeners.forEach((listener) => listener());
+  }
+
+  // Another tab changed the outbox
+  private handleStorage = (event: StorageEvent) => {
+    if (event.key !== this.storageKey) return;
+    this.entries = this.load();
+    this.listeners.forEach((listener) => listener());
+    this.flush();
+  };
+
+  private load(): OutboxEntry[] {
+    try {
+      return JSON.parse(localStorage.getItem(this.storageKey) || "[]");
+    } catch {
+      return [];
+    }
+  }
+}
@@ -0,0 +1,74 @@
+// utils/passcode.ts
+export interface PasscodeRecord {
+  salt: string; // base64
+  hash: string; // base64 PBKDF2-SHA-256 of the passcode
+  iterations: number;
+  autoLockMinutes: number; // 0 disables the idle auto-lock
+}
+
+const PASSCODE_KEY = "passcode";
+const PBKDF2_ITERATIONS = 310000;
+
+const encoder = new TextEncoder();
+
+const toBase64 = (buffer: ArrayBuffer) =>
+  btoa(String.fromCharCode(...new Uint8Array(buffer)));
+
+const fromBase64 = (value: string) =>
+  Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+
+const deriveHash = async (
+  passcode: string,
+  salt: Uint8Array<ArrayBuffer>,
+  iterations: number
+) => {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(passcode),
+    "PBKDF2",
+    false,
+    ["deriveBits"]
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: "PBKDF2", hash: "SHA-256", salt, iterations },
+    key,
+    256
+  );
+  return toBase64(bits);
+};
+
+export const createPasscodeRecord = async (
+  passcode: string,
+  autoLockMinutes: number
+): Promise<PasscodeRecord> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  return {
+    salt: toBase64(salt.buffer),
+    hash: await deriveHash(passcode, salt, PBKDF2_ITERATIONS),
+    iterations: PBKDF2_ITERATIONS,
+    autoLockMinutes,
+  };
+};
+
+export const verifyPasscode = async (
+  passcode: string,
+  record: PasscodeRecord
+): Promise<boolean> =>
+  (await deriveHash(passcode, fromBase64(record.salt), record.iterations)) ===
+  record.hash;
+
+export const loadPasscodeRecord = (): PasscodeRecord | null => {
+  try {
+    return JSON.parse(localStorage.getItem(PASSCODE_KEY) || "null");
+  } catch {
+    return null;
+  }
+};
+
+export const savePasscodeRecord = (record: PasscodeRecord | null) => {
+  if (record) {
+    localStorage.setItem(PASSCODE_KEY, JSON.stringify(record));
+  } else {
+    localStorage.removeItem(PASSCODE_KEY);
+  }
+};
@@ -0,0 +1,72 @@
+// utils/rowLayout.ts
+
+/**
+ * Where each row of a long list sits, from the heights rendered rows were
+ * measured at and a guess for the rest. Heights are kept by key, so rows
+ * keep theirs when others are added around them.
+ */
+export class RowLayout {
+  private heights = new Map<string, number>();
+  private keys: string[] = [];
+  // offsets[i] is the top of row i; the last one is the total height
+  private offsets = new Float64Array(1);
+  private stale = false;
+
+  constructor(private estimatedHeight: number) {}
+
+  setKeys(keys: string[]) {
+    if (keys === this.keys) return;
+    this.keys = keys;
+    this.stale = true;
+  }
+
+  // Record a rendered row's height. Whether it changed.
+  measure(key: string, height: number) {
+    if (this.heights.get(key) === height) return false;
+    this.heights.set(key, height);
+    this.stale = true;
+    return true;
+  }
+
+  get totalHeight() {
+    return this.layout()[this.keys.length];
+  }
+
+  offsetOf(index: number) {
+    return this.layout()[Math.max(0, Math.min(index, this.keys.length))];
+  }
+
+  // The row at `y` pixels from the top of the list
+  indexAt(y: number) {
+    const offsets = this.layout();
+    let low = 0;
+    let high = this.keys.length - 1;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (offsets[middle] <= y) low = middle;
+      else high = middle - 1;
+    }
+    return Math.max(low, 0);
+  }
+
+  // The rows that overlap the stretch from `top` to `bottom`, end excluded
+  rangeOf(top: number, bottom: number) {
+    if (!this.keys.length) return { start: 0, end: 0 };
+    return { start: this.indexAt(top), end: this.indexAt(bottom) + 1 };
+  }
+
+  private layout() {
+    if (this.stale) {
+      this.stale = false;
+      if (this.offsets.length !== this.keys.length + 1) {
+        this.offsets = new Float64Array(this.keys.length + 1);
+      }
+      for (let index = 0; index < this.keys.length; index++) {
+        this.offsets[index + 1] =
+          this.offsets[index] +
+          (this.heights.get(this.keys[index]) ?? this.estimatedHeight);
+      }
+    }
+    return this.offsets;
+  }
+}
@@ -0,0 +1,66 @@
+// utils/tokenRefresh.ts
+import { getActiveAccountId, getStoredAccount } from "./accountStorage";
+
+type RefreshHandler = (accountId?: string) => Promise<string | null>;
+
+let refreshHandler: RefreshHandler | null = null;
+const pendingRefreshes = new Map<string, Promise<string | null>>();
+
+/**
+ * Register the function that exchanges a stored refresh token for a new
+ * access token. AuthProvider owns it; pass null to unregister.
+ */
+export const setRefreshHandler = (handler: RefreshHandler | null) => {
+  refreshHandler = handler;
+};
+
+// Run a task while holding a cross-tab lock, where the browser supports it
+const withLock = async <T>(name: string, task: () => Promise<T>): Promise<T> =>
+  navigator.locks ? navigator.locks.request(name, task) : task();
+
+const getCurrentToken = (accountId?: string) =>
+  accountId
+    ? getStoredAccount(accountId)?.token ?? null
+    : localStorage.getItem("token");
+
+/**
+ * Get a fresh access token after a 401. Concurrent callers share a single
+ * in-flight refresh request per account, and refreshes are serialized across
+ * tabs. If the token the failed request was sent with has already been
+ * replaced, the current one is returned without refreshing. Defaults to the
+ * active account; resolves to null when the session can't be refreshed.
+ */
+export const refreshAccessToken = (
+  staleToken?: string | null,
+  accountId: string | undefined = getActiveAccountId() ?? undefined
+): Promise<string | null> => {
+  const currentToken = getCurrentToken(accountId);
+  if (staleToken && currentToken && currentToken !== staleToken) {
+    return Promise.resolve(currentToken);
+  }
+
+  if (!refreshHandler) {
+    return Promise.resolve(null);
+  }
+
+  const key = accountId ?? "";
+  let pendingRefresh = pendingRefreshes.get(key);
+  if (!pendingRefresh) {
+    const handler = refreshHandler;
+    const refresh = async () => {
+      // Another tab may have refreshed while we waited for the lock
+      const latestToken = getCurrentToken(accountId);
+      if (staleToken && latestToken && latestToken !== staleToken) {
+        return latestToken;
+      }
+      return handler(accountId);
+    };
+
+    // Rotating refresh tokens can only be spent once, so tabs take turns
+    pendingRefresh = withLock(`token-refresh:${key}`, refresh).finally(() => {
+      pendingRefreshes.delete(key);
+    });
+    pendingRefreshes.set(key, pendingRefresh);
+  }
+  return pendingRefresh;
+};
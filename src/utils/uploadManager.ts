@@ -0,0 +1,357 @@
+// utils/uploadManager.ts
+import {
+  abortUpload,
+  completeUpload,
+  createUploadSession,
+  getUploadSession,
+  uploadChunk,
+} from "../api/uploads";
+import { describeError } from "../api/errors";
+import { getActiveAccountId } from "./accountStorage";
+import { MessageAttachment, UploadedFile } from "../types";
+
+export type UploadStatus =
+  | "queued"
+  | "uploading"
+  | "paused"
+  | "completed"
+  | "failed"
+  | "cancelled";
+
+export interface Upload {
+  id: string; // Local id, not the server's upload id
+  accountId?: string;
+  chatId: string;
+  file: File;
+  type: "image" | "file" | "voice";
+  status: UploadStatus;
+  uploadedBytes: number;
+  progress: number; // 0..1
+  error?: string;
+  result?: UploadedFile;
+}
+
+interface UploadTask {
+  upload: Upload;
+  uploadId?: string;
+  controller?: AbortController;
+  // Settles once the upload completes, fails or is cancelled
+  done: Promise<UploadedFile>;
+  resolve: (file: UploadedFile) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * A finished upload as a message attachment, for showing it before the
+ * server has the message. The message id is left for the message to fill.
+ */
+export const toAttachment = (
+  upload: Upload,
+  file: UploadedFile
+): MessageAttachment => ({
+  id: file.id,
+  messageId: "",
+  filename: file.filename,
+  originalName: upload.file.name,
+  url: file.url,
+  type: upload.type,
+  size: file.size,
+  mimeType: upload.file.type,
+  createdAt: new Date().toISOString(),
+});
+
+const CHUNK_SIZE = 1024 * 1024;
+const MAX_CONCURRENT_UPLOADS = 3;
+// File fingerprint -> server upload id, per account, so an interrupted
+// upload of the same file resumes after a reload instead of starting over
+const SESSIONS_KEY_PREFIX = "uploadSessions:";
+
+const getFingerprint = (chatId: string, file: File) =>
+  [chatId, file.name, file.size, file.lastModified].join(":");
+
+const sessionsKey = (accountId?: string) =>
+  SESSIONS_KEY_PREFIX + (accountId ?? "");
+
+const loadSessions = (accountId?: string): Record<string, string> => {
+  try {
+    return JSON.parse(localStorage.getItem(sessionsKey(accountId)) || "{}");
+  } catch {
+    return {};
+  }
+};
+
+const saveSession = (
+  accountId: string | undefined,
+  fingerprint: string,
+  uploadId: string | null
+) => {
+  const sessions = loadSessions(accountId);
+  if (uploadId) {
+    sessions[fingerprint] = uploadId;
+  } else {
+    delete sessions[fingerprint];
+  }
+  localStorage.setItem(sessionsKey(accountId), JSON.stringify(sessions));
+};
+
+// A promise for how an upload turns out, and what settles it
+const settlement = () => {
+  let resolve!: (file: UploadedFile) => void;
+  let reject!: (error: Error) => void;
+  const done = new Promise<UploadedFile>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  // Callers that only follow the snapshot don't need to handle this
+  done.catch(() => {});
+  return { done, resolve, reject };
+};
+
+/**
+ * Queues file uploads and sends them in chunks, a few files at a time.
+ * Uploads can be paused, resumed (also after a failure) and cancelled;
+ * components follow them through `subscribe` and `getSnapshot`.
+ */
+export class UploadManager {
+  private tasks = new Map<string, UploadTask>();
+  private listeners = new Set<() => void>();
+  private snapshot: Upload[] = [];
+  private nextId = 1;
+
+  constructor(
+    private concurrency = MAX_CONCURRENT_UPLOADS,
+    private chunkSize = CHUNK_SIZE
+  ) {}
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getSnapshot = () => this.snapshot;
+
+  /**
+   * Queue a file for a chat. `done` resolves with the uploaded file once
+   * it's done, and rejects if the upload fails or is cancelled; resuming a
+   * failed upload hands out a new one. Uploads as the active account unless
+   * told otherwise.
+   */
+  add(
+    chatId: string,
+    file: File,
+    type: Upload["type"] = "file",
+    accountId = getActiveAccountId() ?? undefined
+  ) {
+    const id = `upload-${this.nextId++}`;
+    const task: UploadTask = {
+      ...settlement(),
+      upload: {
+        id,
+        accountId,
+        chatId,
+        file,
+        type,
+        status: "queued",
+        uploadedBytes: 0,
+        progress: 0,
+      },
+    };
+    this.tasks.set(id, task);
+
+    this.emit();
+    this.pump();
+    return { id, done: task.done };
+  }
+
+  pause(id: string) {
+    const task = this.tasks.get(id);
+    if (!task || !["queued", "uploading"].includes(task.upload.status)) {
+      return;
+    }
+    this.update(task, { status: "paused" });
+    task.controller?.abort();
+    this.pump();
+  }
+
+  // Also retries a failed upload, continuing from the last stored chunk.
+  // Returns what the upload now settles with.
+  resume(id: string) {
+    const task = this.tasks.get(id);
+    if (!task || !["paused", "failed"].includes(task.upload.status)) {
+      return task?.done;
+    }
+    // The failure already settled the last one
+    if (task.upload.status === "failed") Object.assign(task, settlement());
+    this.update(task, { status: "queued", error: undefined });
+    this.pump();
+    return task.done;
+  }
+
+  cancel(id: string) {
+    const task = this.tasks.get(id);
+    if (!task || ["completed", "cancelled"].includes(task.upload.status)) {
+      return;
+    }
+    this.update(task, { status: "cancelled" });
+    task.controller?.abort();
+    task.reject(new Error("Upload cancelled"));
+
+    const { accountId, chatId, file } = task.upload;
+    saveSession(accountId, getFingerprint(chatId, file), null);
+    if (task.uploadId) {
+      // Not worth reporting: the server drops unfinished uploads in time
+      abortUpload(accountId, task.uploadId).catch(() => {});
+    }
+    this.remove(id);
+    this.pump();
+  }
+
+  // Forget a finished upload (e.g. once its message has been sent)
+  remove(id: string) {
+    const task = this.tasks.get(id);
+    if (!task || ["queued", "uploading"].includes(task.upload.status)) {
+      return;
+    }
+    this.tasks.delete(id);
+    this.emit();
+  }
+
+  /**
+   * Cancel an account's uploads and forget the ones it could resume, e.g.
+   * when it signs out
+   */
+  forgetAccount(accountId: string) {
+    [...this.tasks.values()].forEach(({ upload }) => {
+      if (upload.accountId !== accountId) return;
+      this.cancel(upload.id);
+      this.tasks.delete(upload.id);
+    });
+    localStorage.removeItem(sessionsKey(accountId));
+    this.emit();
+  }
+
+  private emit() {
+    this.snapshot = [...this.tasks.values()].map((task) => task.upload);
+    this.listeners.forEach((listener) => listener());
+  }
+
+  private update(task: UploadTask, changes: Partial<Upload>) {
+    task.upload = { ...task.upload, ...changes };
+    this.emit();
+  }
+
+  // Start queued uploads while there is room
+  private pump() {
+    const tasks = [...this.tasks.values()];
+    let active = tasks.filter(
+      (task) => task.upload.status === "uploading"
+    ).length;
+
+    for (const task of tasks) {
+      if (active >= this.concurrency) break;
+      if (task.upload.status === "queued") {
+        active++;
+        this.run(task);
+      }
+    }
+  }
+
+  private async run(task: UploadTask) {
+    const { accountId, chatId, file, type } = task.upload;
+    const fingerprint = getFingerprint(chatId, file);
+    const controller = new AbortController();
+    task.controller = controller;
+    this.update(task, { status: "uploading" });
+
+    try {
+      let session = null;
+      const knownUploadId =
+        task.uploadId ?? loadSessions(accountId)[fingerprint];
+      if (knownUploadId) {
+        session = await getUploadSession(
+          accountId,
+          knownUploadId,
+          controller.signal
+        ).catch(() => null); // Expired on the server: start over
+      }
+      if (!session) {
+        session = await createUploadSession(
+          accountId,
+          chatId,
+          {
+            filename: file.name,
+            size: file.size,
+            mimeType: file.type || "application/octet-stream",
+            type,
+            chunkSize: this.chunkSize,
+          },
+          controller.signal
+        );
+      }
+      task.uploadId = session.uploadId;
+      saveSession(accountId, fingerprint, session.uploadId);
+
+      const { chunkSize } = session;
+      const chunkCount = Math.max(1, Math.ceil(file.size / chunkSize));
+      const received = new Set(session.receivedChunks);
+      const chunkBytes = (index: number) =>
+        Math.min(chunkSize, file.size - index * chunkSize);
+
+      let uploadedBytes = [...received].reduce(
+        (total, index) => total + chunkBytes(index),
+        0
+      );
+      this.update(task, {
+        uploadedBytes,
+        progress: file.size ? uploadedBytes / file.size : 0,
+      });
+
+      for (let index = 0; index < chunkCount; index++) {
+        if (received.has(index)) continue;
+
+        const start = index * chunkSize;
+        const end = Math.min(start + chunkSize, file.size);
+        await uploadChunk(
+          accountId,
+          session.uploadId,
+          index,
+          file.slice(start, end),
+          { start, end, total: file.size },
+          controller.signal
+        );
+
+        uploadedBytes += end - start;
+        this.update(task, {
+          uploadedBytes,
+          progress: file.size ? uploadedBytes / file.size : 1,
+        });
+      }
+
+      const result = await completeUpload(
+        accountId,
+        session.uploadId,
+        controller.signal
+      );
+      saveSession(accountId, fingerprint, null);
+      this.update(task, { status: "completed", progress: 1, result });
+      task.resolve(result);
+    } catch (error) {
+      // Paused or cancelled: the abort is expected, not a failure
+      if (controller.signal.aborted) return;
+
+      const message = describeError(error);
+      this.update(task, { status: "failed", error: message });
+      task.reject(error instanceof Error ? error : new Error(message));
+    } finally {
+      if (task.controller === controller) {
+        task.controller = undefined;
+      }
+      this.pump();
+    }
+  }
+}
+
+// Shared by every composer, so uploads survive switching chats
+export const uploadManager = new UploadManager();
@@ -1 +1,13 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_API_BASE_URL?: string;
+  readonly VITE_SOCKET_URL?: string;
+  readonly VITE_APP_TOKEN?: string;
+  readonly VITE_FAKE_BACKEND?: string;
+  readonly VITE_SHARED_SOCKET?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}